@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+/**
+ * Write the package.json version to src/version.ts
+ * Runs from the npm "version" lifecycle, so semantic-release's version bump
+ * is reflected in the telemetry.sdk.version resource attribute
+ */
+import { readFileSync, writeFileSync } from 'fs';
+
+const { version } = JSON.parse(readFileSync('package.json', 'utf8'));
+
+writeFileSync(
+  'src/version.ts',
+  `/** Package version, kept in sync with package.json by scripts/sync-version.js */\nexport const VERSION = "${version}";\n`,
+);
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { trace, context, propagation } from "@opentelemetry/api";
+import {
+  parseBaggage,
+  serializeBaggage,
+  getBaggageHeader,
+  contextWithBaggageHeader,
+  withBaggage,
+  setBaggageAttributeKeys,
+  getBaggageAttributes,
+} from "./baggage.js";
+import { initTracing } from "./provider.js";
+import { withTraceContext } from "./instrument.js";
+import { Logger, type LogEntry, type LogHandler } from "./logger.js";
+import type { ExportableSpan } from "./otlp.js";
+
+beforeEach(() => {
+  initTracing();
+});
+
+afterEach(() => {
+  setBaggageAttributeKeys([]);
+});
+
+// ============================================
+// Parsing and serialization
+// ============================================
+
+describe("parseBaggage", () => {
+  it("parses percent-encoded values and properties", () => {
+    const baggage = parseBaggage(" tenant.id = acme , user.id=a%20b;ttl=60 ;internal ");
+    expect(baggage?.getEntry("tenant.id")?.value).toBe("acme");
+    expect(baggage?.getEntry("user.id")?.value).toBe("a b");
+    expect(baggage?.getEntry("user.id")?.metadata?.toString()).toBe("ttl=60;internal");
+  });
+
+  it("skips malformed members", () => {
+    const baggage = parseBaggage("novalue,bad key=1,bad=%E0%A4%A,ok=1");
+    expect(baggage?.getAllEntries().map(([key]) => key)).toEqual(["ok"]);
+  });
+
+  it("returns undefined for empty or entirely invalid headers", () => {
+    expect(parseBaggage(null)).toBeUndefined();
+    expect(parseBaggage("")).toBeUndefined();
+    expect(parseBaggage("garbage")).toBeUndefined();
+  });
+
+  it("ignores members beyond 8192 characters", () => {
+    const header = `a=${"x".repeat(8000)},b=${"y".repeat(500)}`;
+    expect(parseBaggage(header)?.getEntry("b")).toBeUndefined();
+  });
+});
+
+describe("serializeBaggage", () => {
+  it("percent-encodes values and keeps metadata", () => {
+    const baggage = parseBaggage("user.id=a%20b;ttl=60,tenant.id=acme")!;
+    expect(serializeBaggage(baggage)).toBe("user.id=a%20b;ttl=60,tenant.id=acme");
+  });
+
+  it("drops members over the size limit", () => {
+    const baggage = propagation.createBaggage({
+      big: { value: "x".repeat(9000) },
+      small: { value: "1" },
+    });
+    expect(serializeBaggage(baggage)).toBe("small=1");
+  });
+});
+
+// ============================================
+// Context
+// ============================================
+
+describe("baggage context", () => {
+  it("exposes extracted baggage via propagation.getBaggage", () => {
+    const ctx = contextWithBaggageHeader(context.active(), "tenant.id=acme");
+    context.with(ctx, () => {
+      expect(propagation.getBaggage(context.active())?.getEntry("tenant.id")?.value).toBe(
+        "acme",
+      );
+      expect(getBaggageHeader()).toBe("tenant.id=acme");
+    });
+    expect(getBaggageHeader()).toBeNull();
+  });
+
+  it("adds entries with withBaggage and carries them in queue messages", () => {
+    const ctx = contextWithBaggageHeader(context.active(), "tenant.id=acme");
+    const body = context.with(ctx, () =>
+      withBaggage({ "user.id": "42" }, () => withTraceContext({ orderId: 1 })),
+    );
+    expect(body._baggage).toBe("tenant.id=acme,user.id=42");
+  });
+});
+
+// ============================================
+// Attributes
+// ============================================
+
+describe("baggage attributes", () => {
+  it("copies only selected keys, or all with *", () => {
+    const ctx = contextWithBaggageHeader(context.active(), "tenant.id=acme,secret=x");
+    expect(getBaggageAttributes(ctx)).toEqual({});
+
+    setBaggageAttributeKeys(["tenant.id"]);
+    expect(getBaggageAttributes(ctx)).toEqual({ "tenant.id": "acme" });
+
+    setBaggageAttributeKeys(["*"]);
+    expect(getBaggageAttributes(ctx)).toEqual({ "tenant.id": "acme", secret: "x" });
+  });
+
+  it("adds selected keys to new spans and log records", () => {
+    setBaggageAttributeKeys(["tenant.id"]);
+    const entries: LogEntry[] = [];
+    const handler: LogHandler = { handle: (entry) => entries.push(entry) };
+
+    const ctx = contextWithBaggageHeader(context.active(), "tenant.id=acme");
+    context.with(ctx, () => {
+      const span = trace.getTracer("test").startSpan("op", { attributes: { a: 1 } });
+      expect((span as unknown as ExportableSpan).attributes).toEqual({
+        "tenant.id": "acme",
+        a: 1,
+      });
+
+      new Logger({ handler }).info("hello", { b: 2 });
+    });
+
+    expect(entries[0].attributes).toMatchObject({ "tenant.id": "acme", b: 2 });
+  });
+});
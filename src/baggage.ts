@@ -0,0 +1,186 @@
+/**
+ * W3C Baggage propagation
+ *
+ * Baggage is read from the `baggage` header of incoming requests, exposed via
+ * the standard `propagation.getBaggage(context.active())`, and forwarded by
+ * tracedFetch, queue messages (`_baggage`) and workflow params through
+ * W3CBaggagePropagator.
+ * Selected keys can be copied into span and log attributes.
+ *
+ * @see https://www.w3.org/TR/baggage/
+ *
+ * @example
+ * const tenant = propagation.getBaggage(context.active())?.getEntry("tenant.id")?.value;
+ */
+
+import {
+  context,
+  propagation,
+  baggageEntryMetadataFromString,
+  type Attributes,
+  type Baggage,
+  type BaggageEntry,
+  type Context,
+} from "@opentelemetry/api";
+import { getScopedSettings } from "./settings.js";
+
+// ============================================
+// Parsing
+// ============================================
+
+/** Maximum list-members in a baggage header */
+const MAX_BAGGAGE_MEMBERS = 180;
+
+/** Maximum serialized baggage length */
+const MAX_BAGGAGE_LENGTH = 8192;
+
+/** RFC 7230 token */
+const BAGGAGE_KEY = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Parse a W3C baggage header
+ *
+ * Values are percent-decoded, properties after ";" are kept as entry
+ * metadata. Malformed list-members are skipped, as are members beyond the
+ * 180 member / 8192 character limits.
+ * Returns undefined for missing, empty or entirely invalid headers.
+ */
+export function parseBaggage(baggage: string | null | undefined): Baggage | undefined {
+  if (!baggage) {
+    return undefined;
+  }
+
+  const entries: Record<string, BaggageEntry> = {};
+  let count = 0;
+  let length = -1;
+  for (const part of baggage.split(",")) {
+    length += part.length + 1;
+    if (count >= MAX_BAGGAGE_MEMBERS || length > MAX_BAGGAGE_LENGTH) break;
+
+    const [pair, ...properties] = part.split(";");
+    const eq = pair.indexOf("=");
+    if (eq === -1) continue;
+    const key = pair.slice(0, eq).trim();
+    if (!BAGGAGE_KEY.test(key)) continue;
+
+    let value: string;
+    try {
+      value = decodeURIComponent(pair.slice(eq + 1).trim());
+    } catch {
+      continue;
+    }
+
+    const metadata = properties.map((p) => p.trim()).filter(Boolean).join(";");
+    entries[key] = metadata
+      ? { value, metadata: baggageEntryMetadataFromString(metadata) }
+      : { value };
+    count++;
+  }
+
+  return count > 0 ? propagation.createBaggage(entries) : undefined;
+}
+
+/**
+ * Serialize baggage as a W3C baggage header value
+ * Members that would exceed the 180 member / 8192 character limits are dropped
+ */
+export function serializeBaggage(baggage: Baggage): string {
+  const members: string[] = [];
+  let length = 0;
+
+  for (const [key, entry] of baggage.getAllEntries()) {
+    if (members.length >= MAX_BAGGAGE_MEMBERS) break;
+    if (!BAGGAGE_KEY.test(key)) continue;
+
+    const metadata = entry.metadata?.toString();
+    const member = `${key}=${encodeURIComponent(entry.value)}${metadata ? `;${metadata}` : ""}`;
+    const added = member.length + (members.length > 0 ? 1 : 0);
+    if (length + added > MAX_BAGGAGE_LENGTH) continue;
+
+    members.push(member);
+    length += added;
+  }
+  return members.join(",");
+}
+
+// ============================================
+// Context
+// ============================================
+
+/**
+ * Get the baggage header value for a context (default: the active context)
+ * Returns null if the context carries no baggage
+ */
+export function getBaggageHeader(ctx: Context = context.active()): string | null {
+  const baggage = propagation.getBaggage(ctx);
+  return (baggage && serializeBaggage(baggage)) || null;
+}
+
+/**
+ * Return a context carrying the baggage parsed from a header
+ * Returns the context unchanged for missing or invalid headers
+ */
+export function contextWithBaggageHeader(
+  ctx: Context,
+  baggage: string | null | undefined,
+): Context {
+  const parsed = parseBaggage(baggage);
+  return parsed ? propagation.setBaggage(ctx, parsed) : ctx;
+}
+
+/**
+ * Run a function with entries added to the active baggage
+ *
+ * @example
+ * withBaggage({ "tenant.id": tenantId }, () => tracedFetch(url));
+ */
+export function withBaggage<T>(entries: Record<string, string>, fn: () => T): T {
+  let baggage = propagation.getBaggage(context.active()) ?? propagation.createBaggage();
+  for (const [key, value] of Object.entries(entries)) {
+    baggage = baggage.setEntry(key, { value });
+  }
+  return context.with(propagation.setBaggage(context.active(), baggage), fn);
+}
+
+// ============================================
+// Attributes
+// ============================================
+
+/** Baggage keys copied into span and log attributes */
+let baggageAttributeKeys: string[] = [];
+
+/**
+ * Set the baggage keys copied into span and log attributes, "*" for all
+ * Attribute names equal the baggage keys (e.g. "tenant.id")
+ */
+export function setBaggageAttributeKeys(keys: string[]): void {
+  baggageAttributeKeys = keys;
+}
+
+/**
+ * Get the baggage keys copied into span and log attributes
+ * (the current handler's, else the process-wide ones)
+ */
+export function getBaggageAttributeKeys(): string[] {
+  return getScopedSettings()?.baggageAttributes ?? baggageAttributeKeys;
+}
+
+/**
+ * Build attributes from the selected baggage keys of a context
+ * (default: the active context)
+ */
+export function getBaggageAttributes(ctx: Context = context.active()): Attributes {
+  const keys = getBaggageAttributeKeys();
+  if (keys.length === 0) return {};
+  const baggage = propagation.getBaggage(ctx);
+  if (!baggage) return {};
+
+  const all = keys.includes("*");
+  const attrs: Attributes = {};
+  for (const [key, entry] of baggage.getAllEntries()) {
+    if (all || keys.includes(key)) {
+      attrs[key] = entry.value;
+    }
+  }
+  return attrs;
+}
@@ -0,0 +1,279 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  TelemetryBufferDurableObject,
+  deferExport,
+  type DurableObjectNamespace,
+  type DurableObjectStorage,
+} from "./buffer.js";
+import { presets } from "./presets.js";
+import type { SerializedExportRequest } from "./otlp.js";
+
+/** In-memory Durable Object storage */
+function createStorage() {
+  const data = new Map<string, unknown>();
+  let alarm: number | null = null;
+  const storage: DurableObjectStorage = {
+    async get<T>(key: string) {
+      return data.get(key) as T | undefined;
+    },
+    async put(key, value) {
+      data.set(key, value);
+    },
+    async delete(key) {
+      return data.delete(key);
+    },
+    async list<T>(options?: { prefix?: string }) {
+      const keys = [...data.keys()]
+        .filter((k) => k.startsWith(options?.prefix ?? ""))
+        .sort();
+      return new Map(keys.map((k) => [k, data.get(k) as T]));
+    },
+    async getAlarm() {
+      return alarm;
+    },
+    async setAlarm(time) {
+      alarm = Number(time);
+    },
+  };
+  return {
+    storage,
+    batches: () => [...data.keys()].filter((k) => k.startsWith("batch:")),
+    alarm: () => alarm,
+    clearAlarm: () => {
+      alarm = null;
+    },
+  };
+}
+
+/** Namespace whose stubs forward to a single object instance */
+function createNamespace(object: TelemetryBufferDurableObject): DurableObjectNamespace {
+  return {
+    idFromName: (name) => name,
+    get: () => ({
+      fetch: (input, init) => object.fetch(new Request(input, init)),
+    }),
+  };
+}
+
+function request(size = 10): SerializedExportRequest {
+  return {
+    signal: "trace",
+    url: "https://otlp.example.com/v1/traces",
+    headers: { "Content-Type": "application/json", Authorization: "Basic xxx" },
+    body: new Uint8Array(size),
+  };
+}
+
+/** Env configuring the exporter of request() */
+const env = {
+  OTEL_EXPORTER_OTLP_ENDPOINT: "https://otlp.example.com",
+  OTEL_EXPORTER_OTLP_HEADERS: "Authorization=Basic xxx",
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("TelemetryBufferDurableObject", () => {
+  it("stores deferred batches and schedules a replay", async () => {
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject({ storage: mem.storage });
+
+    await deferExport(createNamespace(object), request());
+
+    expect(mem.batches()).toHaveLength(1);
+    expect(mem.alarm()).not.toBeNull();
+  });
+
+  it("stores content headers but never exporter credentials", async () => {
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject({ storage: mem.storage });
+
+    await deferExport(createNamespace(object), request());
+
+    const [key] = mem.batches();
+    const stored = await mem.storage.get<{ headers: Record<string, string> }>(key);
+    expect(stored?.headers).toEqual({ "Content-Type": "application/json" });
+  });
+
+  it("counts metadata towards maxBatchBytes", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject(
+      { storage: mem.storage },
+      undefined,
+      { maxBatchBytes: 50 },
+    );
+
+    await deferExport(createNamespace(object), request(40));
+
+    expect(mem.batches()).toHaveLength(0);
+  });
+
+  it("rejects batches larger than maxBatchBytes", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject(
+      { storage: mem.storage },
+      undefined,
+      { maxBatchBytes: 5 },
+    );
+
+    await deferExport(createNamespace(object), request(10));
+
+    expect(mem.batches()).toHaveLength(0);
+  });
+
+  it("evicts the oldest batches to stay under maxStoredBytes", async () => {
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject(
+      { storage: mem.storage },
+      undefined,
+      { maxStoredBytes: 25 },
+    );
+    const namespace = createNamespace(object);
+
+    await deferExport(namespace, request(10));
+    const [first] = mem.batches();
+    await deferExport(namespace, request(10));
+    await deferExport(namespace, request(10));
+
+    expect(mem.batches()).toHaveLength(2);
+    expect(mem.batches()).not.toContain(first);
+  });
+
+  it("replays batches and clears them on success", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject({ storage: mem.storage }, env);
+    await deferExport(createNamespace(object), request());
+    mem.clearAlarm();
+
+    await object.alarm();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://otlp.example.com/v1/traces",
+      expect.objectContaining({
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Basic xxx" },
+      }),
+    );
+    expect(mem.batches()).toHaveLength(0);
+    expect(mem.alarm()).toBeNull();
+  });
+
+  it("resolves headers from the exporters option", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject({ storage: mem.storage }, undefined, {
+      exporters: [
+        { endpoint: "https://other.example.com", headers: { "x-api-key": "other" } },
+        {
+          endpoint: "https://otlp.example.com",
+          headers: { Authorization: "Basic shared" },
+          tracesHeaders: { Authorization: "Basic traces" },
+        },
+      ],
+    });
+    await deferExport(createNamespace(object), request());
+
+    await object.alarm();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://otlp.example.com/v1/traces",
+      expect.objectContaining({
+        headers: { "Content-Type": "application/json", Authorization: "Basic traces" },
+      }),
+    );
+  });
+
+  it("resolves headers by exporter name", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject({ storage: mem.storage }, env, {
+      exporters: [presets.honeycomb({ apiKey: "hc", endpoint: "https://hc.example.com" })],
+    });
+    await deferExport(createNamespace(object), {
+      ...request(),
+      url: "https://api.honeycomb.io/v1/traces",
+      exporter: "honeycomb",
+    });
+
+    await object.alarm();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.honeycomb.io/v1/traces",
+      expect.objectContaining({
+        headers: { "Content-Type": "application/json", "x-honeycomb-team": "hc" },
+      }),
+    );
+  });
+
+  it("backs off while the collector is unavailable", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 503 })));
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject(
+      { storage: mem.storage },
+      env,
+      { initialBackoffMs: 1000 },
+    );
+    await deferExport(createNamespace(object), request());
+    mem.clearAlarm();
+
+    const before = Date.now();
+    await object.alarm();
+    const firstDelay = mem.alarm()! - before;
+    await object.alarm();
+    const secondDelay = mem.alarm()! - before;
+
+    expect(mem.batches()).toHaveLength(1);
+    expect(firstDelay).toBeGreaterThanOrEqual(2000);
+    expect(secondDelay).toBeGreaterThanOrEqual(4000);
+  });
+
+  it("drops batches the collector rejects permanently", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 400 })));
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject({ storage: mem.storage }, env);
+    await deferExport(createNamespace(object), request());
+
+    await object.alarm();
+
+    expect(mem.batches()).toHaveLength(0);
+  });
+
+  it("keeps batches whose credentials are rejected", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 401 })));
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject({ storage: mem.storage }, env);
+    await deferExport(createNamespace(object), request());
+
+    await object.alarm();
+
+    expect(mem.batches()).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("rejected the exporter credentials"));
+  });
+
+  it("keeps batches without a configured exporter instead of sending them", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+    const mem = createStorage();
+    const object = new TelemetryBufferDurableObject({ storage: mem.storage });
+    await deferExport(createNamespace(object), request());
+
+    await object.alarm();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mem.batches()).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("no exporter configured"));
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Durable Object-backed telemetry buffer
+ *
+ * Stores serialized OTLP batches that could not be exported (collector down,
+ * rate limited, ...) and replays them from an alarm with exponential backoff.
+ * Exporter credentials are not persisted: replays take the headers of the
+ * exporter with the batch's name (else its URL) from the Durable Object's
+ * exporters or env, and batches without a matching exporter are kept.
+ *
+ * @example
+ * // worker.ts
+ * export { TelemetryBufferDurableObject } from '@tigorlazuardi/otel-cloudflare';
+ *
+ * export default instrument(handler, { telemetryBuffer: 'OTEL_BUFFER' });
+ *
+ * // wrangler.toml
+ * // [[durable_objects.bindings]]
+ * // name = "OTEL_BUFFER"
+ * // class_name = "TelemetryBufferDurableObject"
+ */
+
+import {
+  getExporterHeaders,
+  getExportUrl,
+  getOTLPConfigFromEnv,
+  sendExportRequest,
+  type OTLPExporterConfig,
+  type SerializedExportRequest,
+} from "./otlp.js";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Minimal Durable Object storage interface used by the buffer
+ */
+export interface DurableObjectStorage {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  list<T = unknown>(options?: { prefix?: string }): Promise<Map<string, T>>;
+  getAlarm(): Promise<number | null>;
+  setAlarm(scheduledTime: number | Date): Promise<void>;
+}
+
+/**
+ * Minimal Durable Object state interface
+ */
+export interface DurableObjectState {
+  storage: DurableObjectStorage;
+}
+
+/**
+ * Minimal Durable Object namespace interface
+ */
+export interface DurableObjectNamespace {
+  idFromName(name: string): unknown;
+  get(id: unknown): { fetch(input: string, init?: RequestInit): Promise<Response> };
+}
+
+/**
+ * Limits and backoff for TelemetryBufferDurableObject
+ */
+export interface TelemetryBufferOptions {
+  /** Maximum total bytes of stored batches, oldest are evicted first (default: 5 MiB) */
+  maxStoredBytes?: number;
+  /**
+   * Maximum size of a stored batch record (body and metadata), larger ones
+   * are rejected (default: 127 KiB, below the 128 KiB Durable Object value limit)
+   */
+  maxBatchBytes?: number;
+  /** Delay before the first replay, doubled on each failed replay (default: 10s) */
+  initialBackoffMs?: number;
+  /** Upper bound for the replay delay (default: 10 minutes) */
+  maxBackoffMs?: number;
+  /** Drop a batch after this many failed replays (default: 10) */
+  maxReplayAttempts?: number;
+  /**
+   * Exporters whose headers are used for replays, matched by name, else by URL
+   * (default: the exporter configured by the Durable Object's env)
+   */
+  exporters?: OTLPExporterConfig[];
+}
+
+/**
+ * A batch as persisted in Durable Object storage
+ * The exporter name (or the URL) identifies the exporter; its credentials
+ * are never stored and are resolved on replay
+ */
+interface StoredBatch {
+  signal: SerializedExportRequest["signal"];
+  url: string;
+  exporter?: string;
+  /** Content-Type and Content-Encoding only */
+  headers: Record<string, string>;
+  body: Uint8Array;
+  attempts: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<TelemetryBufferOptions, "exporters">> = {
+  maxStoredBytes: 5 * 1024 * 1024,
+  maxBatchBytes: 127 * 1024,
+  initialBackoffMs: 10_000,
+  maxBackoffMs: 10 * 60_000,
+  maxReplayAttempts: 10,
+};
+
+const BATCH_PREFIX = "batch:";
+const STORED_BYTES_KEY = "meta:storedBytes";
+const FAILURES_KEY = "meta:failures";
+const SEQUENCE_KEY = "meta:sequence";
+
+/** Statuses of rejected credentials, retried since they may be fixed later */
+const AUTH_FAILURE_STATUS_CODES = [401, 403];
+
+/** Headers describing the body, the only ones persisted */
+const CONTENT_HEADERS = ["content-type", "content-encoding"];
+
+/** Internal URL used to talk to the Durable Object */
+const ENQUEUE_URL = "https://otel-cloudflare.buffer/enqueue";
+
+// ============================================
+// Durable Object
+// ============================================
+
+/**
+ * Durable Object that buffers failed OTLP exports and replays them
+ *
+ * Subclass to change the limits:
+ *
+ * @example
+ * export class MyBuffer extends TelemetryBufferDurableObject {
+ *   constructor(state: DurableObjectState, env: unknown) {
+ *     super(state, env, { maxStoredBytes: 1024 * 1024 });
+ *   }
+ * }
+ */
+export class TelemetryBufferDurableObject {
+  private readonly storage: DurableObjectStorage;
+  private readonly env: Record<string, unknown> | undefined;
+  private readonly options: Required<Omit<TelemetryBufferOptions, "exporters">>;
+  private readonly exporters: OTLPExporterConfig[] | undefined;
+
+  constructor(
+    state: DurableObjectState,
+    env?: unknown,
+    options: TelemetryBufferOptions = {},
+  ) {
+    this.storage = state.storage;
+    this.env = env as Record<string, unknown> | undefined;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.exporters = options.exporters;
+  }
+
+  /**
+   * Accept a batch sent by deferExport()
+   */
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const signal = request.headers.get("X-OTLP-Signal");
+    const url = request.headers.get("X-OTLP-URL");
+    if ((signal !== "trace" && signal !== "log") || !url) {
+      return new Response("Missing batch metadata", { status: 400 });
+    }
+
+    const batch: StoredBatch = {
+      signal,
+      url,
+      exporter: request.headers.get("X-OTLP-Exporter") ?? undefined,
+      headers: contentHeaders(JSON.parse(request.headers.get("X-OTLP-Headers") ?? "{}")),
+      body: new Uint8Array(await request.arrayBuffer()),
+      attempts: 0,
+    };
+
+    const size = recordSize(batch);
+    if (size > this.options.maxBatchBytes) {
+      console.warn(
+        `[otel-cloudflare] telemetry buffer: batch of ${size} bytes exceeds maxBatchBytes, dropped`,
+      );
+      return new Response("Batch too large", { status: 413 });
+    }
+    await this.enqueue(batch);
+
+    return new Response(null, { status: 202 });
+  }
+
+  /**
+   * Replay stored batches in order, stopping at the first retryable failure
+   */
+  async alarm(): Promise<void> {
+    const batches = await this.storage.list<StoredBatch>({ prefix: BATCH_PREFIX });
+    let storedBytes = (await this.storage.get<number>(STORED_BYTES_KEY)) ?? 0;
+
+    for (const [key, batch] of batches) {
+      // Without its credentials the collector would reject the batch, keep it
+      const exporterHeaders = this.exporterHeaders(batch);
+      const result = exporterHeaders
+        ? await sendExportRequest(
+            {
+              signal: batch.signal,
+              url: batch.url,
+              headers: { ...batch.headers, ...exporterHeaders },
+              body: batch.body,
+            },
+            false,
+          )
+        : null;
+      const unauthorized = AUTH_FAILURE_STATUS_CODES.includes(result?.statusCode ?? 0);
+      if (unauthorized) {
+        console.warn(
+          `[otel-cloudflare] telemetry buffer: ${batch.url} rejected the exporter credentials (${result?.statusCode}), keeping batch`,
+        );
+      }
+
+      // Delivered, or rejected permanently (other 4xx) - either way it's done
+      const done = !!result && (result.success || (!result.request && !unauthorized));
+      const exhausted = batch.attempts + 1 >= this.options.maxReplayAttempts;
+
+      if (done || exhausted) {
+        if (!done) {
+          console.warn(
+            `[otel-cloudflare] telemetry buffer: dropping ${batch.signal} batch after ${batch.attempts + 1} replay attempts`,
+          );
+        }
+        await this.storage.delete(key);
+        storedBytes -= batch.body.byteLength;
+        continue;
+      }
+
+      // Collector still unavailable, back off and retry later
+      await this.storage.put(key, { ...batch, attempts: batch.attempts + 1 });
+      await this.storage.put(STORED_BYTES_KEY, Math.max(0, storedBytes));
+      const failures = ((await this.storage.get<number>(FAILURES_KEY)) ?? 0) + 1;
+      await this.storage.put(FAILURES_KEY, failures);
+      await this.storage.setAlarm(Date.now() + this.backoff(failures));
+      return;
+    }
+
+    await this.storage.put(STORED_BYTES_KEY, Math.max(0, storedBytes));
+    await this.storage.put(FAILURES_KEY, 0);
+  }
+
+  /**
+   * Store a batch, evicting the oldest ones to stay under maxStoredBytes
+   */
+  private async enqueue(batch: StoredBatch): Promise<void> {
+    let storedBytes = (await this.storage.get<number>(STORED_BYTES_KEY)) ?? 0;
+
+    if (storedBytes + batch.body.byteLength > this.options.maxStoredBytes) {
+      const existing = await this.storage.list<StoredBatch>({ prefix: BATCH_PREFIX });
+      for (const [key, old] of existing) {
+        if (storedBytes + batch.body.byteLength <= this.options.maxStoredBytes) break;
+        await this.storage.delete(key);
+        storedBytes -= old.body.byteLength;
+      }
+    }
+
+    // Keys sort by insertion order so replay preserves it
+    const sequence = ((await this.storage.get<number>(SEQUENCE_KEY)) ?? 0) + 1;
+    await this.storage.put(SEQUENCE_KEY, sequence);
+    const key = `${BATCH_PREFIX}${sequence.toString().padStart(16, "0")}`;
+    await this.storage.put(key, batch);
+    await this.storage.put(STORED_BYTES_KEY, storedBytes + batch.body.byteLength);
+
+    // Schedule a replay unless one is already pending (which keeps its backoff)
+    if ((await this.storage.getAlarm()) === null) {
+      await this.storage.setAlarm(Date.now() + this.options.initialBackoffMs);
+    }
+  }
+
+  /**
+   * Resolve the credentials of the exporter a batch was meant for
+   * Returns null if no configured exporter matches
+   */
+  private exporterHeaders(batch: StoredBatch): Record<string, string> | null {
+    const exporters =
+      this.exporters ??
+      [this.env && getOTLPConfigFromEnv(this.env)].filter(
+        (config): config is OTLPExporterConfig => !!config,
+      );
+    const exporter =
+      (batch.exporter && exporters.find((config) => config.name === batch.exporter)) ||
+      exporters.find((config) => getExportUrl(config, batch.signal) === batch.url);
+    if (!exporter) {
+      console.warn(
+        `[otel-cloudflare] telemetry buffer: no exporter configured for ${batch.exporter ?? batch.url}, keeping batch`,
+      );
+      return null;
+    }
+    return getExporterHeaders(exporter, batch.signal);
+  }
+
+  private backoff(failures: number): number {
+    return Math.min(
+      this.options.maxBackoffMs,
+      this.options.initialBackoffMs * 2 ** failures,
+    );
+  }
+}
+
+/**
+ * Keep only the headers describing the body
+ */
+function contentHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => CONTENT_HEADERS.includes(name.toLowerCase())),
+  );
+}
+
+/**
+ * Approximate size of a stored batch record: the body plus its metadata
+ */
+function recordSize(batch: StoredBatch): number {
+  const metadata = JSON.stringify({ ...batch, body: undefined });
+  return batch.body.byteLength + new TextEncoder().encode(metadata).byteLength;
+}
+
+// ============================================
+// Client
+// ============================================
+
+/**
+ * Hand a failed export over to the telemetry buffer Durable Object
+ * Never throws - errors are logged to console
+ *
+ * @param namespace - Durable Object namespace bound to TelemetryBufferDurableObject
+ * @param request - The serialized request from a failed ExportResult
+ * @param name - Durable Object instance name (default: "otel-cloudflare")
+ */
+export async function deferExport(
+  namespace: DurableObjectNamespace,
+  request: SerializedExportRequest,
+  name = "otel-cloudflare",
+): Promise<void> {
+  try {
+    const stub = namespace.get(namespace.idFromName(name));
+    const response = await stub.fetch(ENQUEUE_URL, {
+      method: "POST",
+      headers: {
+        "X-OTLP-Signal": request.signal,
+        "X-OTLP-URL": request.url,
+        "X-OTLP-Headers": JSON.stringify(contentHeaders(request.headers)),
+        ...(request.exporter ? { "X-OTLP-Exporter": request.exporter } : {}),
+      },
+      body: request.body,
+    });
+    if (!response.ok) {
+      console.warn(
+        `[otel-cloudflare] telemetry buffer rejected ${request.signal} batch: ${response.status}`,
+      );
+    }
+  } catch (error) {
+    console.error("[otel-cloudflare] telemetry buffer error:", error);
+  }
+}
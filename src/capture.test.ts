@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  redactBody,
+  shouldCaptureBody,
+  setBodyCapturePolicy,
+  setHeaderCapturePolicy,
+  getHeaderAttributes,
+  redactHeaders,
+} from "./capture.js";
+import { tracedFetch } from "./fetch.js";
+import { Logger, runWithLogger, type LogEntry } from "./logger.js";
+
+const JSON_TYPE = "application/json";
+const url = new URL("https://api.example.com/users/1");
+
+describe("shouldCaptureBody", () => {
+  it("captures text-based content types by default", () => {
+    expect(shouldCaptureBody({}, "request", url, "application/json; charset=utf-8")).toBe(true);
+    expect(shouldCaptureBody({}, "response", url, "image/png")).toBe(false);
+    expect(shouldCaptureBody({}, "response", url, null)).toBe(false);
+  });
+
+  it("honours direction, content types, paths and hosts", () => {
+    expect(shouldCaptureBody(false, "request", url, JSON_TYPE)).toBe(false);
+    expect(shouldCaptureBody({ response: false }, "response", url, JSON_TYPE)).toBe(false);
+    expect(shouldCaptureBody({ response: false }, "request", url, JSON_TYPE)).toBe(true);
+    expect(shouldCaptureBody({ contentTypes: ["text/plain"] }, "request", url, JSON_TYPE)).toBe(false);
+    expect(shouldCaptureBody({ denyPaths: [/^\/users/] }, "request", url, JSON_TYPE)).toBe(false);
+    expect(shouldCaptureBody({ allowPaths: ["/orders"] }, "request", url, JSON_TYPE)).toBe(false);
+    expect(shouldCaptureBody({ allowHosts: ["api.example.com"] }, "request", url, JSON_TYPE)).toBe(true);
+    expect(shouldCaptureBody({ denyHosts: [/example\.com$/] }, "request", url, JSON_TYPE)).toBe(false);
+  });
+});
+
+describe("redactBody", () => {
+  it("redacts sensitive keys and card numbers in JSON by default", () => {
+    const body = JSON.stringify({
+      user: "alice",
+      password: "hunter2",
+      auth: { accessToken: "abc" },
+      note: "card 4111 1111 1111 1111, order 1234567890123",
+    });
+    expect(JSON.parse(redactBody(body, JSON_TYPE, undefined))).toEqual({
+      user: "alice",
+      password: "[REDACTED]",
+      auth: { accessToken: "[REDACTED]" },
+      note: "card [REDACTED], order 1234567890123",
+    });
+  });
+
+  it("keeps timestamps and IDs passing the Luhn check", () => {
+    const body = JSON.stringify({
+      note: "at 1760832000002, ref 123456789012347, card 378282246310005",
+    });
+    expect(JSON.parse(redactBody(body, JSON_TYPE, undefined))).toEqual({
+      note: "at 1760832000002, ref 123456789012347, card [REDACTED]",
+    });
+  });
+
+  it("matches whole key names or their last word, not substrings", () => {
+    const body = JSON.stringify({
+      user_password: "a",
+      "X-Api-Key": "b",
+      sessionToken: "c",
+      DB_PASSWORD: "d",
+      passenger: "alice",
+      compass: "north",
+      session_count: 3,
+      tokenizer: "bpe",
+    });
+    expect(JSON.parse(redactBody(body, JSON_TYPE, undefined))).toEqual({
+      user_password: "[REDACTED]",
+      "X-Api-Key": "[REDACTED]",
+      sessionToken: "[REDACTED]",
+      DB_PASSWORD: "[REDACTED]",
+      passenger: "alice",
+      compass: "north",
+      session_count: 3,
+      tokenizer: "bpe",
+    });
+  });
+
+  it("redacts JSON paths with wildcards", () => {
+    const body = JSON.stringify({ user: { ssn: "123" }, cards: [{ last4: "1111" }] });
+    const redacted = redactBody(body, JSON_TYPE, { paths: ["$.user.ssn", "cards[*].last4"] });
+    expect(JSON.parse(redacted)).toEqual({
+      user: { ssn: "[REDACTED]" },
+      cards: [{ last4: "[REDACTED]" }],
+    });
+  });
+
+  it("redacts truncated JSON textually", () => {
+    const redacted = redactBody('{"name":"bob","token":"abc","secret":12...[truncated]', JSON_TYPE, {});
+    expect(redacted).toBe('{"name":"bob","token":"[REDACTED]","secret":"[REDACTED]"...[truncated]');
+  });
+
+  it("redacts form fields and custom patterns", () => {
+    expect(
+      redactBody("user=bob&password=x", "application/x-www-form-urlencoded", undefined),
+    ).toBe("user=bob&password=%5BREDACTED%5D");
+    expect(
+      redactBody("call 555-1234", "text/plain", { patterns: [/\d{3}-\d{4}/g], replacement: "***" }),
+    ).toBe("call ***");
+  });
+
+  it("keeps the body when redaction is disabled", () => {
+    expect(redactBody('{"password":"x"}', JSON_TYPE, false)).toBe('{"password":"x"}');
+  });
+});
+
+describe("header capture", () => {
+  const headers = new Headers({
+    "user-agent": "test",
+    authorization: "Bearer xyz",
+    "x-api-key": "k",
+    "x-request-id": "r-1",
+  });
+
+  it("records only allowlisted headers, redacting credentials", () => {
+    expect(
+      getHeaderAttributes(headers, "request", {
+        request: ["User-Agent", "authorization"],
+      }),
+    ).toEqual({
+      "http.request.header.user-agent": ["test"],
+      "http.request.header.authorization": ["[REDACTED]"],
+    });
+    expect(getHeaderAttributes(headers, "request", {})).toEqual({});
+    expect(getHeaderAttributes(headers, "response", { request: ["*"] })).toEqual({});
+  });
+
+  it("keeps each set-cookie value", () => {
+    const response = new Headers();
+    response.append("set-cookie", "a=1");
+    response.append("set-cookie", "b=2");
+    expect(getHeaderAttributes(response, "response", { response: ["*"] })).toEqual({
+      "http.response.header.set-cookie": ["[REDACTED]", "[REDACTED]"],
+    });
+  });
+
+  it("adds redact entries to the default sensitive headers", () => {
+    expect(
+      getHeaderAttributes(headers, "request", {
+        request: ["authorization", "x-request-id"],
+        redact: ["x-request-id"],
+      }),
+    ).toEqual({
+      "http.request.header.authorization": ["[REDACTED]"],
+      "http.request.header.x-request-id": ["[REDACTED]"],
+    });
+  });
+
+  it("redacts sensitive headers for logging", () => {
+    expect(redactHeaders(headers, {})).toEqual({
+      "user-agent": "test",
+      authorization: "[REDACTED]",
+      "x-api-key": "[REDACTED]",
+      "x-request-id": "r-1",
+    });
+    expect(redactHeaders(headers, { redact: ["x-request-id"] })).toMatchObject({
+      authorization: "[REDACTED]",
+      "x-request-id": "[REDACTED]",
+    });
+  });
+});
+
+describe("tracedFetch capture", () => {
+  afterEach(() => {
+    setBodyCapturePolicy({});
+    setHeaderCapturePolicy({});
+  });
+
+  /** Run a traced request and return the logged client entry */
+  async function captureLog(options?: Parameters<ReturnType<typeof tracedFetch>>[2]) {
+    const entries: LogEntry[] = [];
+    const logger = new Logger({ handler: { handle: (e) => entries.push(e) } });
+    const baseFetch = vi.fn(
+      async () =>
+        new Response('{"sessionId":"s-1","ok":true}', {
+          headers: { "content-type": JSON_TYPE },
+        }),
+    );
+    const fetch = tracedFetch(baseFetch as unknown as typeof globalThis.fetch);
+    await runWithLogger(logger, async () => {
+      const response = await fetch(
+        "https://api.example.com/login",
+        {
+          method: "POST",
+          headers: { "content-type": JSON_TYPE, cookie: "sid=1" },
+          body: '{"user":"bob","password":"x"}',
+        },
+        options,
+      );
+      // The caller still receives the unredacted body
+      expect(await response.json()).toEqual({ sessionId: "s-1", ok: true });
+    });
+    return entries[0].attributes;
+  }
+
+  it("logs redacted request and response bodies", async () => {
+    const attrs = await captureLog();
+    expect((attrs.request as Record<string, unknown>).body).toBe(
+      '{"user":"bob","password":"[REDACTED]"}',
+    );
+    expect(attrs.response_body).toBe('{"sessionId":"[REDACTED]","ok":true}');
+  });
+
+  it("redacts credentials in logged request headers", async () => {
+    const attrs = await captureLog();
+    expect((attrs.request as { headers: Record<string, string> }).headers).toMatchObject({
+      "content-type": JSON_TYPE,
+      cookie: "[REDACTED]",
+    });
+  });
+
+  it("skips bodies disabled by the policy", async () => {
+    setBodyCapturePolicy({ response: false });
+    const attrs = await captureLog();
+    expect(attrs.response_body).toBeUndefined();
+    expect(await captureLog({ bodyCapture: false })).not.toHaveProperty("response_body");
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * Body and header capture policies and redaction for HTTP telemetry
+ *
+ * Decides which request/response bodies and headers are captured by
+ * instrument(), traceHandler() and tracedFetch(), and redacts credentials
+ * and card numbers before they reach the logger or span attributes.
+ *
+ * @example
+ * setBodyCapturePolicy({
+ *   response: false,
+ *   denyPaths: [/^\/auth\//],
+ *   redaction: { paths: ["user.ssn"], keys: /password|token|pin/i },
+ * });
+ */
+
+import { getScopedSettings } from "./settings.js";
+
+// ============================================
+// Types
+// ============================================
+
+/** Direction of an HTTP body */
+export type BodyDirection = "request" | "response";
+
+/**
+ * Redaction rules applied to captured bodies
+ */
+export interface RedactionRules {
+  /**
+   * Values of object keys (or form fields) matching this pattern are redacted
+   * Default: password, token, secret, authorization, api key, cookie, session, credential
+   */
+  keys?: RegExp;
+  /**
+   * JSON paths whose values are redacted, in dot notation with "*" matching
+   * any key or array index (e.g. "user.ssn", "$.cards.*.number")
+   */
+  paths?: string[];
+  /**
+   * Patterns replaced inside string values and non-JSON bodies
+   * Default: card numbers of known brands passing the Luhn check
+   */
+  patterns?: RegExp[];
+  /** Replacement for redacted values (default: "[REDACTED]") */
+  replacement?: string;
+}
+
+/**
+ * Which bodies are captured, and how
+ */
+export interface BodyCapturePolicy {
+  /** Capture request bodies (default: true) */
+  request?: boolean;
+  /** Capture response bodies (default: true) */
+  response?: boolean;
+  /** Captured content types, without parameters (default: JSON, form, text and XML) */
+  contentTypes?: string[];
+  /** Maximum captured characters, longer bodies are truncated (default: 8192) */
+  maxSize?: number;
+  /** Only capture bodies for these URL paths (exact string or RegExp) */
+  allowPaths?: (string | RegExp)[];
+  /** Never capture bodies for these URL paths (exact string or RegExp) */
+  denyPaths?: (string | RegExp)[];
+  /** Only capture bodies for these hosts (exact string or RegExp) */
+  allowHosts?: (string | RegExp)[];
+  /** Never capture bodies for these hosts (exact string or RegExp) */
+  denyHosts?: (string | RegExp)[];
+  /** Redaction rules, or false to log bodies verbatim (default: built-in rules) */
+  redaction?: RedactionRules | false;
+}
+
+/**
+ * Which headers are recorded as span attributes, and which are redacted
+ */
+export interface HeaderCapturePolicy {
+  /**
+   * Request headers recorded as http.request.header.<name>, "*" for all
+   * (default: none)
+   */
+  request?: string[];
+  /**
+   * Response headers recorded as http.response.header.<name>, "*" for all
+   * (default: none)
+   */
+  response?: string[];
+  /**
+   * Additional headers whose values are replaced with "[REDACTED]" in span
+   * attributes and logs; credentials and cookies (DEFAULT_SENSITIVE_HEADERS)
+   * are always redacted
+   */
+  redact?: (string | RegExp)[];
+}
+
+// ============================================
+// Policy
+// ============================================
+
+const DEFAULT_CONTENT_TYPES = [
+  "application/json",
+  "application/x-www-form-urlencoded",
+  "text/plain",
+  "text/xml",
+  "application/xml",
+];
+
+const DEFAULT_MAX_SIZE = 8192;
+
+/** Key names, or trailing words of key names, holding credentials */
+const SENSITIVE_KEY_WORDS = [
+  "pass",
+  "passwd",
+  "password",
+  "pwd",
+  "token",
+  "secret",
+  "authorization",
+  "api[-_]?key",
+  "cookie",
+  "session(?:[-_]?id)?",
+  "credentials?",
+];
+
+/** Match letters in any case, without the i flag (which breaks camelCase boundaries) */
+function anyCase(word: string): string {
+  return word.replace(/[a-z]/g, (c) => `[${c}${c.toUpperCase()}]`);
+}
+
+/**
+ * Whole key names or their last word, after a "-", "_", "." separator or a
+ * camelCase boundary: "password", "user_password", "accessToken", "sessionId",
+ * but not "passenger", "compass" or "session_count"
+ */
+const DEFAULT_SENSITIVE_KEYS = new RegExp(
+  `(?:^|[-_.\\s]|(?<=[a-z0-9])(?=[A-Z]))(?:${SENSITIVE_KEY_WORDS.map(anyCase).join("|")})$`,
+);
+
+/** 13-19 digits, optionally separated by spaces or dashes */
+const CARD_NUMBER = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+/**
+ * Prefixes and lengths of the major card brands, so other long numbers
+ * (epoch-ms timestamps, IDs) passing the Luhn check by chance are kept
+ */
+const CARD_BRANDS = [
+  /^4(?:\d{12}|\d{15}|\d{18})$/, // Visa
+  /^(?:5[1-5]|2(?:2[2-9]|[3-6]\d|7[0-2]))\d{14}$/, // Mastercard
+  /^3[47]\d{13}$/, // American Express
+  /^3(?:0[0-5]|[689]\d)\d{11}$/, // Diners Club
+  /^35\d{14,17}$/, // JCB
+  /^6\d{15,18}$/, // Discover, UnionPay, Maestro
+];
+
+const DEFAULT_REPLACEMENT = "[REDACTED]";
+
+/** Process-wide body capture policy */
+let bodyCapturePolicy: BodyCapturePolicy | false = {};
+
+/**
+ * Set the body capture policy for server and client spans
+ * Pass false to disable body capture entirely
+ */
+export function setBodyCapturePolicy(policy: BodyCapturePolicy | false): void {
+  bodyCapturePolicy = policy;
+}
+
+/**
+ * Get the body capture policy of the current handler, else the process-wide one
+ */
+export function getBodyCapturePolicy(): BodyCapturePolicy | false {
+  return getScopedSettings()?.bodyCapture ?? bodyCapturePolicy;
+}
+
+/**
+ * Match a value against exact strings or RegExps
+ */
+function matchesAny(value: string, patterns: (string | RegExp)[]): boolean {
+  return patterns.some((p) => (typeof p === "string" ? p === value : p.test(value)));
+}
+
+/**
+ * Check whether a body should be captured under the policy
+ */
+export function shouldCaptureBody(
+  policy: BodyCapturePolicy | false,
+  direction: BodyDirection,
+  url: URL,
+  contentType: string | null,
+): boolean {
+  if (!policy || policy[direction] === false || !contentType) return false;
+
+  const base = contentType.split(";")[0].trim().toLowerCase();
+  if (!(policy.contentTypes ?? DEFAULT_CONTENT_TYPES).includes(base)) return false;
+
+  if (policy.allowPaths && !matchesAny(url.pathname, policy.allowPaths)) return false;
+  if (policy.denyPaths && matchesAny(url.pathname, policy.denyPaths)) return false;
+  if (policy.allowHosts && !matchesAny(url.hostname, policy.allowHosts)) return false;
+  if (policy.denyHosts && matchesAny(url.hostname, policy.denyHosts)) return false;
+
+  return true;
+}
+
+// ============================================
+// Reading
+// ============================================
+
+/**
+ * Truncate text to the policy's maximum size
+ */
+export function truncateBody(text: string, policy: BodyCapturePolicy): string {
+  const maxSize = policy.maxSize ?? DEFAULT_MAX_SIZE;
+  return text.length > maxSize ? text.slice(0, maxSize) + "...[truncated]" : text;
+}
+
+/**
+ * Read up to the policy's maximum size from a stream
+ * The stream is consumed, tee() it first to keep the body
+ */
+export async function readBodyStream(
+  stream: ReadableStream<Uint8Array>,
+  policy: BodyCapturePolicy,
+): Promise<string> {
+  const maxSize = policy.maxSize ?? DEFAULT_MAX_SIZE;
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let result = "";
+
+  try {
+    while (result.length < maxSize) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      result += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.cancel();
+  }
+
+  return truncateBody(result, policy);
+}
+
+// ============================================
+// Redaction
+// ============================================
+
+/**
+ * Luhn checksum, used to tell card numbers from other long numbers
+ */
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Replace pattern matches in a string
+ * Without custom patterns, only numbers with a card brand prefix passing
+ * the Luhn check are redacted
+ */
+function redactString(value: string, rules: RedactionRules): string {
+  const replacement = rules.replacement ?? DEFAULT_REPLACEMENT;
+  if (!rules.patterns) {
+    return value.replace(CARD_NUMBER, (match) => {
+      const digits = match.replace(/\D/g, "");
+      return CARD_BRANDS.some((brand) => brand.test(digits)) && isLuhnValid(digits)
+        ? replacement
+        : match;
+    });
+  }
+  return rules.patterns.reduce((text, pattern) => text.replace(pattern, replacement), value);
+}
+
+/**
+ * Parse JSON paths into segment lists
+ */
+function parsePaths(paths: string[] | undefined): string[][] {
+  return (paths ?? []).map((path) =>
+    path.replace(/^\$\.?/, "").replace(/\[(\w+|\*)\]/g, ".$1").split("."),
+  );
+}
+
+/**
+ * Whether a value's path matches any redaction path
+ */
+function matchesPath(path: string[], rules: string[][]): boolean {
+  return rules.some(
+    (rule) =>
+      rule.length === path.length && rule.every((seg, i) => seg === "*" || seg === path[i]),
+  );
+}
+
+/**
+ * Recursively redact a parsed JSON value
+ */
+function redactValue(
+  value: unknown,
+  path: string[],
+  rules: RedactionRules,
+  paths: string[][],
+): unknown {
+  if (typeof value === "string") return redactString(value, rules);
+  if (value === null || typeof value !== "object") return value;
+
+  const keys = rules.keys ?? DEFAULT_SENSITIVE_KEYS;
+  const replacement = rules.replacement ?? DEFAULT_REPLACEMENT;
+  const redactChild = (key: string, child: unknown): unknown => {
+    const childPath = [...path, key];
+    if (keys.test(key) || matchesPath(childPath, paths)) return replacement;
+    return redactValue(child, childPath, rules, paths);
+  };
+
+  if (Array.isArray(value)) {
+    return value.map((item, i) => redactChild(String(i), item));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [key, redactChild(key, child)]),
+  );
+}
+
+/**
+ * Redact a captured body according to its content type
+ *
+ * - JSON: sensitive keys, paths and string patterns; bodies that no longer
+ *   parse (e.g. truncated) fall back to key-based text replacement
+ * - Form: sensitive field names and patterns
+ * - Anything else: patterns only
+ */
+export function redactBody(
+  body: string,
+  contentType: string | null,
+  rules: RedactionRules | false | undefined,
+): string {
+  if (rules === false || !body) return body;
+  const r = rules ?? {};
+  const keys = r.keys ?? DEFAULT_SENSITIVE_KEYS;
+  const replacement = r.replacement ?? DEFAULT_REPLACEMENT;
+  const base = contentType?.split(";")[0].trim().toLowerCase();
+
+  if (base === "application/json") {
+    try {
+      const parsed: unknown = JSON.parse(body);
+      return JSON.stringify(redactValue(parsed, [], r, parsePaths(r.paths)));
+    } catch {
+      // Truncated or invalid JSON, redact "key": "value" pairs textually
+      const redacted = body.replace(
+        /"([^"\\]+)"(\s*:\s*)("(?:[^"\\]|\\.)*"?|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/g,
+        (match, key: string, sep: string) =>
+          keys.test(key) ? `"${key}"${sep}"${replacement}"` : match,
+      );
+      return redactString(redacted, r);
+    }
+  }
+
+  if (base === "application/x-www-form-urlencoded") {
+    const params = new URLSearchParams();
+    for (const [key, value] of new URLSearchParams(body)) {
+      params.append(key, keys.test(key) ? replacement : redactString(value, r));
+    }
+    return params.toString();
+  }
+
+  return redactString(body, r);
+}
+
+// ============================================
+// Headers
+// ============================================
+
+/** Headers carrying credentials or session state */
+export const DEFAULT_SENSITIVE_HEADERS: (string | RegExp)[] = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "cf-access-jwt-assertion",
+  /token|secret|api-?key|session|password/i,
+];
+
+/** Process-wide header capture policy */
+let headerCapturePolicy: HeaderCapturePolicy = {};
+
+/**
+ * Set the header capture policy for server and client spans
+ */
+export function setHeaderCapturePolicy(policy: HeaderCapturePolicy): void {
+  headerCapturePolicy = policy;
+}
+
+/**
+ * Get the header capture policy of the current handler, else the process-wide one
+ */
+export function getHeaderCapturePolicy(): HeaderCapturePolicy {
+  return getScopedSettings()?.headerCapture ?? headerCapturePolicy;
+}
+
+/**
+ * Whether a header's value must be redacted
+ */
+function isSensitiveHeader(name: string, policy: HeaderCapturePolicy): boolean {
+  const lower = name.toLowerCase();
+  return (
+    matchesAny(lower, DEFAULT_SENSITIVE_HEADERS) || matchesAny(lower, policy.redact ?? [])
+  );
+}
+
+/**
+ * Build http.request.header.* / http.response.header.* span attributes
+ * for the allowlisted headers
+ */
+export function getHeaderAttributes(
+  headers: Headers,
+  direction: BodyDirection,
+  policy: HeaderCapturePolicy,
+): Record<string, string[]> {
+  const allowlist = (policy[direction] ?? []).map((name) => name.toLowerCase());
+  if (allowlist.length === 0) return {};
+  const all = allowlist.includes("*");
+
+  const attrs: Record<string, string[]> = {};
+  // Iteration yields each set-cookie separately, other headers combined
+  for (const [name, value] of headers) {
+    if (!all && !allowlist.includes(name)) continue;
+    const key = `http.${direction}.header.${name}`;
+    (attrs[key] ??= []).push(isSensitiveHeader(name, policy) ? DEFAULT_REPLACEMENT : value);
+  }
+  return attrs;
+}
+
+/**
+ * Headers as a plain object with sensitive values redacted, for logging
+ */
+export function redactHeaders(
+  headers: Headers,
+  policy: HeaderCapturePolicy,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of headers) {
+    result[name] = isSensitiveHeader(name, policy) ? DEFAULT_REPLACEMENT : value;
+  }
+  return result;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { getCfAttributes } from "./cf.js";
+
+/** Build a request with request.cf and Cloudflare headers set */
+function cfRequest(cf: Record<string, unknown>, headers: Record<string, string> = {}): Request {
+  const request = new Request("https://example.com/", { headers });
+  Object.defineProperty(request, "cf", { value: cf });
+  return request;
+}
+
+const request = cfRequest(
+  {
+    colo: "SIN",
+    country: "ID",
+    regionCode: "JK",
+    city: "Jakarta",
+    continent: "AS",
+    asn: 7713,
+    asOrganization: "Telkom",
+    tlsVersion: "TLSv1.3",
+    httpProtocol: "HTTP/2",
+    botManagement: { score: 99 },
+  },
+  { "cf-ray": "8a1b2c3d4e5f6789-SIN", "cf-connecting-ip": "203.0.113.7" },
+);
+
+describe("getCfAttributes", () => {
+  it("maps request.cf and CF headers to semantic conventions", async () => {
+    const attrs = await getCfAttributes(request, { ip: "include" });
+    expect(attrs).toEqual({
+      "cloudflare.ray_id": "8a1b2c3d4e5f6789-SIN",
+      "cloudflare.colo": "SIN",
+      "cloudflare.asn": 7713,
+      "cloudflare.as_organization": "Telkom",
+      "cloudflare.bot_score": 99,
+      "geo.continent.code": "AS",
+      "geo.country.iso_code": "ID",
+      "geo.region.iso_code": "ID-JK",
+      "geo.locality.name": "Jakarta",
+      "network.protocol.name": "http",
+      "network.protocol.version": "2",
+      "tls.protocol.name": "tls",
+      "tls.protocol.version": "1.3",
+      "client.address": "203.0.113.7",
+    });
+  });
+
+  it("hashes the client IP by default", async () => {
+    const attrs = await getCfAttributes(request);
+    expect(attrs["client.address"]).toMatch(/^[0-9a-f]{64}$/);
+    expect(attrs["client.address"]).not.toBe(
+      (await getCfAttributes(request, { ipHashSalt: "salt" }))["client.address"],
+    );
+  });
+
+  it("omits the client IP when asked", async () => {
+    const attrs = await getCfAttributes(request, { ip: "omit" });
+    expect(attrs).not.toHaveProperty("client.address");
+  });
+
+  it("skips missing metadata", async () => {
+    const attrs = await getCfAttributes(new Request("https://example.com/"));
+    expect(attrs).toEqual({});
+  });
+});
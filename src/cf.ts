@@ -0,0 +1,123 @@
+/**
+ * Cloudflare request metadata as span attributes
+ *
+ * Maps `request.cf` and Cloudflare headers to semantic convention attributes
+ * (client.address, network.protocol.*, tls.protocol.*, geo.*) and
+ * cloudflare.* attributes for values without a convention.
+ */
+
+import type { Attributes } from "@opentelemetry/api";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Subset of Cloudflare's IncomingRequestCfProperties used for span attributes
+ */
+interface RequestCfProperties {
+  colo?: string;
+  country?: string;
+  regionCode?: string;
+  city?: string;
+  continent?: string;
+  asn?: number;
+  asOrganization?: string;
+  tlsVersion?: string;
+  httpProtocol?: string;
+  botManagement?: { score?: number };
+}
+
+/**
+ * How client IP addresses are recorded
+ * - "include": as-is
+ * - "hash": SHA-256 hex digest, optionally salted
+ * - "omit": not recorded
+ */
+export type IpAddressMode = "include" | "hash" | "omit";
+
+/**
+ * Options for capturing request.cf metadata
+ */
+export interface CfCaptureOptions {
+  /** How cf-connecting-ip is recorded as client.address (default: "hash") */
+  ip?: IpAddressMode;
+  /**
+   * Salt prepended before hashing IP addresses
+   * Without a salt, IPv4 hashes can be reversed by brute force
+   */
+  ipHashSalt?: string;
+}
+
+// ============================================
+// Mapping
+// ============================================
+
+/**
+ * Hash a value with SHA-256, returned as lowercase hex
+ */
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Split "HTTP/2" / "TLSv1.3" into a protocol name and version
+ */
+function splitProtocol(
+  value: string | undefined,
+  prefix: RegExp,
+): [name: string, version: string] | undefined {
+  const match = value?.match(prefix);
+  if (!match) return undefined;
+  return [match[1].toLowerCase(), match[2]];
+}
+
+/**
+ * Build span attributes from request.cf and Cloudflare headers
+ * Missing values (e.g. in local dev, where request.cf is mostly empty) are skipped
+ */
+export async function getCfAttributes(
+  request: Request,
+  options: CfCaptureOptions = {},
+): Promise<Attributes> {
+  const cf = (request as { cf?: RequestCfProperties }).cf ?? {};
+  const attrs: Attributes = {
+    "cloudflare.ray_id": request.headers.get("cf-ray") ?? undefined,
+    "cloudflare.colo": cf.colo,
+    "cloudflare.asn": cf.asn,
+    "cloudflare.as_organization": cf.asOrganization,
+    "cloudflare.bot_score": cf.botManagement?.score,
+    "geo.continent.code": cf.continent,
+    "geo.country.iso_code": cf.country,
+    "geo.region.iso_code":
+      cf.country && cf.regionCode ? `${cf.country}-${cf.regionCode}` : undefined,
+    "geo.locality.name": cf.city,
+  };
+
+  const http = splitProtocol(cf.httpProtocol, /^(HTTP)\/([\d.]+)$/i);
+  if (http) {
+    attrs["network.protocol.name"] = http[0];
+    attrs["network.protocol.version"] = http[1];
+  }
+
+  const tls = splitProtocol(cf.tlsVersion, /^(TLS)v([\d.]+)$/i);
+  if (tls) {
+    attrs["tls.protocol.name"] = tls[0];
+    attrs["tls.protocol.version"] = tls[1];
+  }
+
+  const ip = request.headers.get("cf-connecting-ip");
+  const mode = options.ip ?? "hash";
+  if (ip && mode === "include") {
+    attrs["client.address"] = ip;
+  } else if (ip && mode === "hash") {
+    attrs["client.address"] = await sha256Hex(`${options.ipHashSalt ?? ""}${ip}`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(attrs).filter(([, value]) => value !== undefined && value !== ""),
+  );
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { trace } from "@opentelemetry/api";
+import { getSDKConfigFromEnv, applySDKConfig, isSDKDisabled } from "./env.js";
+import {
+  initTracing,
+  setSpanLimits,
+  getSpanLimits,
+  setSpanProcessor,
+  setSampler,
+  getSampler,
+} from "./provider.js";
+import { AlwaysOnSampler } from "./sampler.js";
+import { createPropagator, setPropagator, getPropagator } from "./propagation.js";
+import { setOTLPLogHandler } from "./logger.js";
+import { getOTLPConfigFromEnv, type ExportableSpan } from "./otlp.js";
+import { initOTLP } from "./flush.js";
+import { unpatchGlobalFetch } from "./fetch.js";
+
+const otlpEnv = {
+  OTEL_EXPORTER_OTLP_ENDPOINT: "https://otlp.example.com",
+};
+
+afterEach(() => {
+  setSpanLimits(null);
+  setPropagator(null);
+  setSpanProcessor(null);
+  setOTLPLogHandler(null);
+  unpatchGlobalFetch();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("getSDKConfigFromEnv", () => {
+  it("uses defaults when nothing is set", () => {
+    const config = getSDKConfigFromEnv({});
+    expect(config.disabled).toBe(false);
+    expect(config.tracesExporters).toEqual(["otlp"]);
+    expect(config.logsExporters).toEqual(["otlp"]);
+    expect(config.spanLimits).toEqual({
+      attributeValueLengthLimit: undefined,
+      attributeCountLimit: undefined,
+      eventCountLimit: undefined,
+      linkCountLimit: undefined,
+      attributePerEventCountLimit: undefined,
+      attributePerLinkCountLimit: undefined,
+    });
+  });
+
+  it("parses exporters, limits, timeout and propagators", () => {
+    const config = getSDKConfigFromEnv({
+      OTEL_TRACES_EXPORTER: "otlp, console",
+      OTEL_LOGS_EXPORTER: "none",
+      OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT: "100",
+      OTEL_SPAN_ATTRIBUTE_COUNT_LIMIT: "10",
+      OTEL_SPAN_EVENT_COUNT_LIMIT: "5",
+      OTEL_SPAN_LINK_COUNT_LIMIT: "4",
+      OTEL_EVENT_ATTRIBUTE_COUNT_LIMIT: "3",
+      OTEL_LINK_ATTRIBUTE_COUNT_LIMIT: "2",
+      OTEL_EXPORTER_OTLP_TIMEOUT: "3000",
+      OTEL_PROPAGATORS: "tracecontext,baggage",
+    });
+    expect(config.tracesExporters).toEqual(["otlp", "console"]);
+    expect(config.logsExporters).toEqual(["none"]);
+    expect(config.spanLimits).toEqual({
+      attributeValueLengthLimit: 100,
+      attributeCountLimit: 10,
+      eventCountLimit: 5,
+      linkCountLimit: 4,
+      attributePerEventCountLimit: 3,
+      attributePerLinkCountLimit: 2,
+    });
+    expect(config.exportTimeoutMs).toBe(3000);
+    expect(config.propagators).toEqual(["tracecontext", "baggage"]);
+  });
+
+  it("warns on invalid values", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const config = getSDKConfigFromEnv({
+      OTEL_SPAN_EVENT_COUNT_LIMIT: "-1",
+      OTEL_TRACES_EXPORTER: "zipkin",
+    });
+    expect(config.spanLimits.eventCountLimit).toBeUndefined();
+    expect(config.tracesExporters).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("detects OTEL_SDK_DISABLED", () => {
+    expect(isSDKDisabled({ OTEL_SDK_DISABLED: "TRUE" })).toBe(true);
+    expect(isSDKDisabled({ OTEL_SDK_DISABLED: "false" })).toBe(false);
+    expect(isSDKDisabled(undefined)).toBe(false);
+  });
+});
+
+describe("applySDKConfig", () => {
+  it("applies span limits to new spans", () => {
+    initTracing();
+    applySDKConfig(
+      getSDKConfigFromEnv({
+        OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT: "3",
+        OTEL_SPAN_ATTRIBUTE_COUNT_LIMIT: "2",
+        OTEL_SPAN_EVENT_COUNT_LIMIT: "1",
+      }),
+    );
+    expect(getSpanLimits().attributeCountLimit).toBe(2);
+
+    const span = trace.getTracer("test").startSpan("limited");
+    span.setAttribute("a", "abcdef");
+    span.setAttribute("b", ["abcdef", "x"]);
+    span.setAttribute("c", "dropped");
+    span.setAttribute("a", "xy");
+    span.addEvent("first");
+    span.addEvent("second");
+
+    const exported = span as unknown as ExportableSpan;
+    expect(exported.attributes).toEqual({ a: "xy", b: ["abc", "x"] });
+    expect(exported.events.map((e) => e.name)).toEqual(["first"]);
+  });
+
+  it("disables propagation for OTEL_PROPAGATORS=none", () => {
+    applySDKConfig(getSDKConfigFromEnv({ OTEL_PROPAGATORS: "tracecontext,none" }));
+    expect(getPropagator().fields()).toEqual([]);
+
+    applySDKConfig(getSDKConfigFromEnv({ OTEL_PROPAGATORS: "tracecontext" }));
+    expect(getPropagator().fields()).toEqual(["traceparent", "tracestate"]);
+  });
+
+  it("composes the propagators listed in OTEL_PROPAGATORS", () => {
+    applySDKConfig(getSDKConfigFromEnv({ OTEL_PROPAGATORS: "tracecontext,baggage,b3multi" }));
+    expect(getPropagator().fields()).toEqual([
+      "traceparent",
+      "tracestate",
+      "baggage",
+      "x-b3-traceid",
+      "x-b3-spanid",
+      "x-b3-sampled",
+      "x-b3-flags",
+      "x-b3-parentspanid",
+    ]);
+  });
+});
+
+describe("SDK env in getOTLPConfigFromEnv and initOTLP", () => {
+  it("returns null when the SDK is disabled", () => {
+    expect(getOTLPConfigFromEnv({ ...otlpEnv, OTEL_SDK_DISABLED: "true" })).toBeNull();
+  });
+
+  it("restricts OTLP signals by OTEL_*_EXPORTER", () => {
+    const config = getOTLPConfigFromEnv({ ...otlpEnv, OTEL_LOGS_EXPORTER: "console" });
+    expect(config?.signals).toEqual(["trace"]);
+    expect(
+      getOTLPConfigFromEnv({
+        ...otlpEnv,
+        OTEL_TRACES_EXPORTER: "none",
+        OTEL_LOGS_EXPORTER: "none",
+      }),
+    ).toBeNull();
+  });
+
+  it("reads the export timeout", () => {
+    const config = getOTLPConfigFromEnv({ ...otlpEnv, OTEL_EXPORTER_OTLP_TIMEOUT: "2500" });
+    expect(config?.timeoutMs).toBe(2500);
+  });
+
+  it("prints traces with the console exporter", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const ctx = initOTLP({ OTEL_TRACES_EXPORTER: "console" }, "svc");
+    ctx.run(() => trace.getTracer("test").startSpan("printed").end());
+    await ctx.flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const printed = JSON.parse(log.mock.calls[0][0] as string);
+    expect(printed.resourceSpans[0].scopeSpans[0].spans[0].name).toBe("printed");
+  });
+
+  it("scopes env sampler, span limits and propagators to the context's run()", async () => {
+    const offEnv = {
+      OTEL_TRACES_SAMPLER: "always_off",
+      OTEL_SPAN_EVENT_COUNT_LIMIT: "1",
+      OTEL_PROPAGATORS: "b3",
+    };
+    const seen: Record<string, unknown[]> = {};
+    const record = (name: string) => async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      seen[name] = [
+        getSampler().toString(),
+        getSpanLimits().eventCountLimit,
+        getPropagator().fields(),
+      ];
+    };
+
+    await Promise.all([
+      initOTLP(offEnv, "svc").run(record("off")),
+      initOTLP({}, "svc").run(record("default")),
+    ]);
+
+    expect(seen.off).toEqual(["AlwaysOffSampler", 1, ["b3"]]);
+    expect(seen.default).toEqual([
+      expect.stringMatching(/^ParentBased\{root=AlwaysOnSampler,/),
+      128,
+      ["traceparent", "tracestate", "baggage"],
+    ]);
+    expect(getSampler().toString()).toMatch(/^ParentBased\{root=AlwaysOnSampler,/);
+  });
+
+  it("lets explicitly set values take priority over env", () => {
+    setSampler(new AlwaysOnSampler());
+    setPropagator(createPropagator(["tracecontext"]));
+
+    initOTLP({ OTEL_TRACES_SAMPLER: "always_off", OTEL_PROPAGATORS: "b3" }, "svc").run(() => {
+      expect(getSampler().toString()).toBe("AlwaysOnSampler");
+      expect(getPropagator().fields()).toEqual(["traceparent", "tracestate"]);
+    });
+    setSampler(null);
+  });
+
+  it("builds env settings once per env object", () => {
+    const env = { OTEL_PROPAGATORS: "b3multi" };
+    const propagators = [initOTLP(env, "svc"), initOTLP(env, "svc")].map((ctx) =>
+      ctx.run(() => getPropagator()),
+    );
+
+    expect(propagators[0]).toBe(propagators[1]);
+  });
+
+  it("does not export when the SDK is disabled", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const ctx = initOTLP({ ...otlpEnv, OTEL_SDK_DISABLED: "true" }, "svc", {
+      endpoint: "https://explicit.example.com",
+      headers: {},
+    });
+    ctx.run(() => trace.getTracer("test").startSpan("dropped").end());
+    await ctx.flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Standard OpenTelemetry SDK environment variables
+ *
+ * Lets one wrangler `vars` block configure the library the same way as
+ * Node services using the official SDK.
+ *
+ * @see https://opentelemetry.io/docs/specs/otel/configuration/sdk-environment-variables/
+ */
+
+import { setSpanLimits, type SpanLimits } from "./provider.js";
+import { createPropagator, setPropagator } from "./propagation.js";
+import { getSamplerFromEnv } from "./sampler.js";
+import type { ScopedSettings } from "./settings.js";
+
+// ============================================
+// Types
+// ============================================
+
+/** Exporter names accepted by OTEL_TRACES_EXPORTER / OTEL_LOGS_EXPORTER */
+export type SignalExporterName = "otlp" | "console" | "none";
+
+/**
+ * SDK configuration parsed from OTEL_* environment variables
+ */
+export interface SDKEnvConfig {
+  /** OTEL_SDK_DISABLED=true: no telemetry is collected or exported */
+  disabled: boolean;
+  /** OTEL_TRACES_EXPORTER (default: ["otlp"]) */
+  tracesExporters: SignalExporterName[];
+  /** OTEL_LOGS_EXPORTER (default: ["otlp"]) */
+  logsExporters: SignalExporterName[];
+  /** OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT and the OTEL_*_COUNT_LIMIT variables */
+  spanLimits: SpanLimits;
+  /** OTEL_EXPORTER_OTLP_TIMEOUT in milliseconds */
+  exportTimeoutMs?: number;
+  /** OTEL_PROPAGATORS */
+  propagators?: string[];
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+function getString(env: Record<string, unknown>, key: string): string | undefined {
+  const value = env[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Parse a comma-separated list, lowercased
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a non-negative integer env var, warning on invalid values
+ */
+function parseLimit(env: Record<string, unknown>, key: string): number | undefined {
+  const value = getString(env, key);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.warn(`[otel-cloudflare] invalid ${key} "${value}", ignoring`);
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * Parse OTEL_TRACES_EXPORTER / OTEL_LOGS_EXPORTER
+ */
+function parseExporters(
+  env: Record<string, unknown>,
+  key: string,
+): SignalExporterName[] {
+  const names = parseList(getString(env, key));
+  if (!names) return ["otlp"];
+
+  const result: SignalExporterName[] = [];
+  for (const name of names) {
+    if (name === "otlp" || name === "console" || name === "none") {
+      result.push(name);
+    } else {
+      console.warn(`[otel-cloudflare] unsupported ${key} "${name}", ignoring`);
+    }
+  }
+  // "none" overrides everything else
+  return result.includes("none") ? ["none"] : result;
+}
+
+/**
+ * Check OTEL_SDK_DISABLED
+ */
+export function isSDKDisabled(env: Record<string, unknown> | undefined): boolean {
+  return env ? getString(env, "OTEL_SDK_DISABLED")?.toLowerCase() === "true" : false;
+}
+
+/**
+ * Parse the standard OTEL_* SDK environment variables
+ */
+export function getSDKConfigFromEnv(env: Record<string, unknown>): SDKEnvConfig {
+  return {
+    disabled: isSDKDisabled(env),
+    tracesExporters: parseExporters(env, "OTEL_TRACES_EXPORTER"),
+    logsExporters: parseExporters(env, "OTEL_LOGS_EXPORTER"),
+    spanLimits: {
+      attributeValueLengthLimit: parseLimit(env, "OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT"),
+      attributeCountLimit:
+        parseLimit(env, "OTEL_SPAN_ATTRIBUTE_COUNT_LIMIT") ??
+        parseLimit(env, "OTEL_ATTRIBUTE_COUNT_LIMIT"),
+      eventCountLimit: parseLimit(env, "OTEL_SPAN_EVENT_COUNT_LIMIT"),
+      linkCountLimit: parseLimit(env, "OTEL_SPAN_LINK_COUNT_LIMIT"),
+      attributePerEventCountLimit: parseLimit(env, "OTEL_EVENT_ATTRIBUTE_COUNT_LIMIT"),
+      attributePerLinkCountLimit: parseLimit(env, "OTEL_LINK_ATTRIBUTE_COUNT_LIMIT"),
+    },
+    exportTimeoutMs: parseLimit(env, "OTEL_EXPORTER_OTLP_TIMEOUT"),
+    propagators: parseList(getString(env, "OTEL_PROPAGATORS")),
+  };
+}
+
+// ============================================
+// Applying
+// ============================================
+
+/**
+ * Apply the SDK config's span limits and propagators process-wide, as if
+ * set with setSpanLimits() and setPropagator()
+ * initOTLP does not call this: it scopes env settings to each request
+ * (see getSettingsFromEnv)
+ */
+export function applySDKConfig(config: SDKEnvConfig): void {
+  // Only override limits when the env sets any
+  if (Object.values(config.spanLimits).some((limit) => limit !== undefined)) {
+    setSpanLimits(config.spanLimits);
+  }
+
+  if (config.propagators) {
+    setPropagator(createPropagator(config.propagators));
+  }
+}
+
+/** Settings built from an env object, reused across requests */
+const envSettingsCache = new WeakMap<Record<string, unknown>, ScopedSettings>();
+
+/**
+ * Sampler, span limits and propagator from OTEL_* env vars
+ * Built once per env object, so propagators and samplers are not recreated
+ * (nor invalid values warned about) on every request
+ */
+export function getSettingsFromEnv(env: Record<string, unknown>): ScopedSettings {
+  let settings = envSettingsCache.get(env);
+  if (!settings) {
+    const sdk = getSDKConfigFromEnv(env);
+    const hasLimits = Object.values(sdk.spanLimits).some((limit) => limit !== undefined);
+    settings = {
+      sampler: getSamplerFromEnv(env) ?? undefined,
+      spanLimits: hasLimits ? sdk.spanLimits : undefined,
+      propagator: sdk.propagators ? createPropagator(sdk.propagators) : undefined,
+    };
+    envSettingsCache.set(env, settings);
+  }
+  return settings;
+}
@@ -1,77 +1,62 @@
 /**
  * Instrumented fetch for outgoing HTTP requests
  *
- * Automatically creates CLIENT spans and injects traceparent header
- * for trace context propagation to downstream services.
+ * Automatically creates CLIENT spans and injects propagation headers
+ * (traceparent, tracestate and baggage by default) for trace context propagation to downstream services.
  */
 
 import { trace, SpanKind, SpanStatusCode } from "@opentelemetry/api";
-import { getTraceparent } from "./provider.js";
+import { getPropagator, injectIntoHeaders } from "./propagation.js";
 import { getLogger } from "./logger.js";
+import {
+  getBodyCapturePolicy,
+  shouldCaptureBody,
+  truncateBody,
+  readBodyStream,
+  redactBody,
+  getHeaderCapturePolicy,
+  getHeaderAttributes,
+  redactHeaders,
+  type BodyCapturePolicy,
+  type HeaderCapturePolicy,
+} from "./capture.js";
 
 // ============================================
 // Body Capture Utilities
 // ============================================
 
-/** Maximum body size to capture (8KB) */
-const MAX_BODY_SIZE = 8192;
-
-/** Content types that should have their body captured */
-const LOGGABLE_CONTENT_TYPES = [
-  "application/json",
-  "application/x-www-form-urlencoded",
-  "text/plain",
-];
-
-/**
- * Check if a content type should have its body captured
- */
-function isLoggableContentType(contentType: string | null): boolean {
-  if (!contentType) return false;
-  const base = contentType.split(";")[0].trim().toLowerCase();
-  return LOGGABLE_CONTENT_TYPES.includes(base);
-}
-
 /**
- * Read body from a string or ReadableStream with truncation
+ * Read body from a string or ReadableStream according to the capture policy
  * Returns [bodyText, newBody] where newBody is a replacement stream if needed
  */
 async function captureBody(
   body: BodyInit | null | undefined,
   contentType: string | null,
+  url: URL,
+  policy: BodyCapturePolicy | false,
 ): Promise<[string, BodyInit | null | undefined]> {
   if (!body) return ["", body];
-  if (!isLoggableContentType(contentType)) return ["", body];
+  if (!policy || !shouldCaptureBody(policy, "request", url, contentType)) {
+    return ["", body];
+  }
+  const capture = (text: string) =>
+    redactBody(truncateBody(text, policy), contentType, policy.redaction);
 
   // Handle string body directly
   if (typeof body === "string") {
-    const text =
-      body.length > MAX_BODY_SIZE
-        ? body.slice(0, MAX_BODY_SIZE) + "...[truncated]"
-        : body;
-    return [text, body];
+    return [capture(body), body];
   }
 
   // Handle URLSearchParams
   if (body instanceof URLSearchParams) {
-    const text = body.toString();
-    const truncated =
-      text.length > MAX_BODY_SIZE
-        ? text.slice(0, MAX_BODY_SIZE) + "...[truncated]"
-        : text;
-    return [truncated, body];
+    return [capture(body.toString()), body];
   }
 
   // Handle ArrayBuffer
   if (body instanceof ArrayBuffer) {
     try {
       const decoder = new TextDecoder();
-      const text = decoder.decode(body);
-      const truncated =
-        text.length > MAX_BODY_SIZE
-          ? text.slice(0, MAX_BODY_SIZE) + "...[truncated]"
-          : text;
-      return [truncated, body];
+      return [capture(decoder.decode(body)), body];
     } catch {
       return ["", body];
     }
@@ -80,24 +65,7 @@ async function captureBody(
   // Handle ReadableStream with tee()
   if (body instanceof ReadableStream) {
     const [stream1, stream2] = body.tee();
-    const reader = stream1.getReader();
-    const decoder = new TextDecoder();
-    let result = "";
-
-    try {
-      while (result.length < MAX_BODY_SIZE) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        result += decoder.decode(value, { stream: true });
-      }
-      if (result.length > MAX_BODY_SIZE) {
-        result = result.slice(0, MAX_BODY_SIZE) + "...[truncated]";
-      }
-    } finally {
-      reader.cancel();
-    }
-
-    return [result, stream2];
+    return [capture(await readBodyStream(stream1, policy)), stream2];
   }
 
   // For Blob, FormData, etc. - don't capture
@@ -109,9 +77,11 @@ async function captureBody(
  */
 async function captureResponseBody(
   response: Response,
+  url: URL,
+  policy: BodyCapturePolicy | false,
 ): Promise<[string, Response]> {
   const contentType = response.headers.get("content-type");
-  if (!isLoggableContentType(contentType)) {
+  if (!policy || !shouldCaptureBody(policy, "response", url, contentType)) {
     return ["", response];
   }
 
@@ -120,22 +90,7 @@ async function captureResponseBody(
   }
 
   const [stream1, stream2] = response.body.tee();
-  const reader = stream1.getReader();
-  const decoder = new TextDecoder();
-  let result = "";
-
-  try {
-    while (result.length < MAX_BODY_SIZE) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      result += decoder.decode(value, { stream: true });
-    }
-    if (result.length > MAX_BODY_SIZE) {
-      result = result.slice(0, MAX_BODY_SIZE) + "...[truncated]";
-    }
-  } finally {
-    reader.cancel();
-  }
+  const result = await readBodyStream(stream1, policy);
 
   // Create new response with the second stream
   const newResponse = new Response(stream2, {
@@ -144,7 +99,7 @@ async function captureResponseBody(
     headers: response.headers,
   });
 
-  return [result, newResponse];
+  return [redactBody(result, contentType, policy.redaction), newResponse];
 }
 
 /**
@@ -161,12 +116,24 @@ export interface TracedFetchOptions {
    * Useful for conditional tracing
    */
   skipTracing?: boolean;
+
+  /**
+   * Body capture policy for this request (default: the process-wide
+   * policy from setBodyCapturePolicy)
+   */
+  bodyCapture?: BodyCapturePolicy | false;
+
+  /**
+   * Header capture policy for this request (default: the process-wide
+   * policy from setHeaderCapturePolicy)
+   */
+  headerCapture?: HeaderCapturePolicy;
 }
 
 /**
  * Create an instrumented fetch function that automatically:
  * - Creates a CLIENT span for each outgoing request
- * - Injects traceparent header for distributed tracing
+ * - Injects propagation headers (see setPropagator) for distributed tracing
  * - Records HTTP attributes (method, URL, status code)
  *
  * @example
@@ -206,6 +173,8 @@ export function tracedFetch(
           : input.url;
     const parsedUrl = new URL(url);
     const method = init?.method ?? "GET";
+    const bodyCapture = options?.bodyCapture ?? getBodyCapturePolicy();
+    const headerCapture = options?.headerCapture ?? getHeaderCapturePolicy();
 
     // Create span name
     const spanName = options?.spanName ?? `HTTP ${method}`;
@@ -235,22 +204,26 @@ export function tracedFetch(
         const startTime = Date.now();
         logAttrs.start = new Date(startTime).toISOString();
         try {
-          // Inject traceparent header
+          // Inject propagation headers (OTEL_PROPAGATORS, default traceparent/tracestate/baggage)
+          // Headers forwarded from the incoming request are replaced, not merged
           const headers = new Headers(init?.headers);
-          headers.set("traceparent", getTraceparent()!);
+          for (const field of getPropagator().fields()) {
+            headers.delete(field);
+          }
+          injectIntoHeaders(headers);
           const requestLog: Record<string, unknown> = {
-            headers: Object.fromEntries(headers.entries()),
+            headers: redactHeaders(headers, headerCapture),
             url,
           };
-          if (headers.get("authorization")) {
-            (requestLog.headers as Record<string, string>).authorization = "[redacted]";
-          }
+          span.setAttributes(getHeaderAttributes(headers, "request", headerCapture));
 
-          // Capture request body (uses tee for streams, only reads up to 8KB)
+          // Capture request body (uses tee for streams, only reads up to maxSize)
           const requestContentType = headers.get("content-type");
           const [requestBody, newBody] = await captureBody(
             init?.body,
             requestContentType,
+            parsedUrl,
+            bodyCapture,
           );
           if (requestBody) {
             requestLog.body = requestBody;
@@ -267,15 +240,18 @@ export function tracedFetch(
           logAttrs.duration_ms = end - startTime;
           logAttrs.response = {
             status: response.status,
-            headers: Object.fromEntries(response.headers.entries()),
+            headers: redactHeaders(response.headers, headerCapture),
           };
 
           // Record response attributes
           span.setAttribute("http.response.status_code", response.status);
+          span.setAttributes(
+            getHeaderAttributes(response.headers, "response", headerCapture),
+          );
 
-          // Capture response body (uses tee, only reads up to 8KB)
+          // Capture response body (uses tee, only reads up to maxSize)
           const [responseBody, newResponse] =
-            await captureResponseBody(response);
+            await captureResponseBody(response, parsedUrl, bodyCapture);
           if (responseBody) {
             logAttrs.response_body = responseBody;
           }
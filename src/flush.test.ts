@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { trace } from "@opentelemetry/api";
+import { initOTLP, getFlushContext } from "./flush.js";
+import { setSpanProcessor } from "./provider.js";
+import { Logger, setOTLPLogHandler, type LogHandler } from "./logger.js";
+import { unpatchGlobalFetch } from "./fetch.js";
+import type { OTLPExporterConfig } from "./otlp.js";
+
+const config: OTLPExporterConfig = {
+  endpoint: "https://otlp.example.com",
+  headers: {},
+};
+
+// Silent logger so tests don't spam console
+const silentHandler: LogHandler = { handle: () => {} };
+
+/** Yield to the event loop so concurrent "requests" interleave */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+/** Collect exported span names and log messages per OTLP request */
+function mockFetch() {
+  const bodies: Array<{ url: string; body: Record<string, unknown> }> = [];
+  const fetchMock = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+    bodies.push({ url: String(url), body: JSON.parse(init?.body as string) });
+    return new Response("{}", { status: 200 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return bodies;
+}
+
+function spanNames(body: Record<string, unknown>): string[] {
+  const req = body as {
+    resourceSpans: Array<{ scopeSpans: Array<{ spans: Array<{ name: string }> }> }>;
+  };
+  return req.resourceSpans.flatMap((rs) =>
+    rs.scopeSpans.flatMap((ss) => ss.spans.map((s) => s.name)),
+  );
+}
+
+function logMessages(body: Record<string, unknown>): string[] {
+  const req = body as {
+    resourceLogs: Array<{
+      scopeLogs: Array<{ logRecords: Array<{ body: { stringValue: string } }> }>;
+    }>;
+  };
+  return req.resourceLogs.flatMap((rl) =>
+    rl.scopeLogs.flatMap((sl) => sl.logRecords.map((r) => r.body.stringValue)),
+  );
+}
+
+describe("initOTLP request isolation", () => {
+  let bodies: Array<{ url: string; body: Record<string, unknown> }>;
+
+  beforeEach(() => {
+    bodies = mockFetch();
+  });
+
+  afterEach(() => {
+    unpatchGlobalFetch();
+    vi.unstubAllGlobals();
+    setSpanProcessor(null);
+    setOTLPLogHandler(null);
+  });
+
+  it("exports only the spans and logs recorded inside its own run()", async () => {
+    const logger = new Logger({ handler: silentHandler });
+    const tracer = trace.getTracer("test");
+
+    const a = initOTLP(undefined, "svc", config);
+    const b = initOTLP(undefined, "svc", config);
+
+    const work = (flushCtx: typeof a, name: string) =>
+      flushCtx.run(async () => {
+        const span = tracer.startSpan(`span-${name}`);
+        await tick();
+        logger.info(`log-${name}`);
+        await tick();
+        span.end();
+      });
+
+    await Promise.all([work(a, "a"), work(b, "b")]);
+
+    expect(a.spans.map((s) => s.name)).toEqual(["span-a"]);
+    expect(b.spans.map((s) => s.name)).toEqual(["span-b"]);
+    expect(a.logCount).toBe(1);
+    expect(b.logCount).toBe(1);
+
+    await a.flush();
+
+    const traces = bodies.filter((r) => r.url.endsWith("/v1/traces"));
+    const logs = bodies.filter((r) => r.url.endsWith("/v1/logs"));
+    expect(traces.map((r) => spanNames(r.body))).toEqual([["span-a"]]);
+    expect(logs.map((r) => logMessages(r.body))).toEqual([["log-a"]]);
+
+    // b's buffer is untouched by a's flush
+    expect(b.spans.map((s) => s.name)).toEqual(["span-b"]);
+  });
+
+  it("routes spans ended outside run() to the context that started them", async () => {
+    const tracer = trace.getTracer("test");
+    const a = initOTLP(undefined, "svc", config);
+    const b = initOTLP(undefined, "svc", config);
+
+    const span = a.run(() => tracer.startSpan("started-in-a"));
+    b.run(() => span.end());
+
+    expect(a.spans.map((s) => s.name)).toEqual(["started-in-a"]);
+    expect(b.spans).toEqual([]);
+  });
+
+  it("returns the scoped FlushContext from getFlushContext()", () => {
+    const a = initOTLP(undefined, "svc", config);
+    const b = initOTLP(undefined, "svc", config);
+
+    expect(a.run(() => getFlushContext())).toBe(a);
+    expect(b.run(() => getFlushContext())).toBe(b);
+    expect(getFlushContext()).toBe(b);
+  });
+
+  it("includes telemetry recorded outside any run() in the next flush", async () => {
+    const tracer = trace.getTracer("test");
+    const a = initOTLP(undefined, "svc", config);
+
+    tracer.startSpan("unscoped").end();
+
+    expect(a.spans.map((s) => s.name)).toEqual(["unscoped"]);
+    await a.flush();
+    expect(a.spans).toEqual([]);
+  });
+
+  it("keeps the fallback collectors for other contexts on shutdown", async () => {
+    const tracer = trace.getTracer("test");
+    const a = initOTLP(undefined, "svc", config);
+    const b = initOTLP(undefined, "svc", config);
+
+    await a.shutdown();
+    tracer.startSpan("unscoped").end();
+
+    expect(b.spans.map((s) => s.name)).toEqual(["unscoped"]);
+    expect(getFlushContext()).toBe(b);
+  });
+});
+
+describe("initOTLP exporter fan-out", () => {
+  let bodies: Array<{ url: string; body: Record<string, unknown> }>;
+
+  beforeEach(() => {
+    bodies = mockFetch();
+  });
+
+  afterEach(() => {
+    unpatchGlobalFetch();
+    vi.unstubAllGlobals();
+    setSpanProcessor(null);
+    setOTLPLogHandler(null);
+  });
+
+  it("sends each signal to the exporters that accept it", async () => {
+    const logger = new Logger({ handler: silentHandler });
+    const ctx = initOTLP(undefined, "svc", [
+      { endpoint: "https://tempo.example.com", headers: {}, signals: ["trace"] },
+      { endpoint: "https://loki.example.com", headers: {}, signals: ["log"] },
+      {
+        endpoint: "https://vendor.example.com",
+        headers: {},
+        spanFilter: (span) => span.name !== "noisy",
+      },
+    ]);
+
+    ctx.run(() => {
+      trace.getTracer("test").startSpan("important").end();
+      trace.getTracer("test").startSpan("noisy").end();
+      logger.info("hello");
+    });
+    await ctx.flush();
+
+    expect(bodies.map((b) => b.url).sort()).toEqual([
+      "https://loki.example.com/v1/logs",
+      "https://tempo.example.com/v1/traces",
+      "https://vendor.example.com/v1/logs",
+      "https://vendor.example.com/v1/traces",
+    ]);
+    const tempo = bodies.find((b) => b.url.startsWith("https://tempo"))!;
+    const vendor = bodies.find((b) => b.url === "https://vendor.example.com/v1/traces")!;
+    expect(spanNames(tempo.body)).toEqual(["important", "noisy"]);
+    expect(spanNames(vendor.body)).toEqual(["important"]);
+  });
+
+  it("uses per-signal endpoints and headers", async () => {
+    const fetchMock = vi.mocked(fetch);
+    const ctx = initOTLP(undefined, "svc", {
+      endpoint: "https://otlp.example.com",
+      headers: { Authorization: "shared" },
+      tracesEndpoint: "https://traces.example.com/custom",
+      tracesHeaders: { Authorization: "traces" },
+    });
+
+    ctx.run(() => trace.getTracer("test").startSpan("span").end());
+    await ctx.flush();
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://traces.example.com/custom");
+    expect((init?.headers as Record<string, string>).Authorization).toBe("traces");
+  });
+});
@@ -5,25 +5,47 @@
  * where the instrument() pattern doesn't apply.
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Attributes } from "@opentelemetry/api";
 import {
   getSpanProcessor,
+  getFallbackSpanProcessor,
   SimpleSpanProcessor,
   setSpanProcessor,
+  runWithSpanProcessor,
   initTracing,
 } from "./provider.js";
+import { applyTailSampling, type TailSamplingPolicy } from "./sampler.js";
 import {
   getOTLPLogHandler,
+  getFallbackOTLPLogHandler,
   setOTLPLogHandler,
+  runWithOTLPLogHandler,
   OTLPLogHandler,
+  type LogEntry,
 } from "./logger.js";
 import {
   exportTraces,
   exportLogs,
+  buildTraceExportRequest,
+  buildLogExportRequest,
   getOTLPConfigFromEnv,
+  toExporterList,
   type OTLPExporterConfig,
+  type OTLPSignal,
   type ExportableSpan,
 } from "./otlp.js";
 import { patchGlobalFetch } from "./fetch.js";
+import { deferExport, type DurableObjectNamespace } from "./buffer.js";
+import { enqueueExport, type OTLPQueue } from "./queue.js";
+import { getSDKConfigFromEnv, getSettingsFromEnv } from "./env.js";
+import { runWithEnvSettings } from "./settings.js";
+import { registerGlobalPropagator } from "./propagation.js";
+import {
+  detectWorkerResource,
+  resolveResourceAttributes,
+  type ResourceDetector,
+} from "./resource.js";
 
 export type { OTLPExporterConfig };
 
@@ -31,12 +53,17 @@ export type { OTLPExporterConfig };
 // Flush Context
 // ============================================
 
-/** Module-level FlushContext for easy access */
+/** Most recent FlushContext, used outside any FlushContext.run() scope */
 let currentFlushContext: FlushContext | null = null;
 
+/** Storage for the request-scoped FlushContext */
+const flushContextStorage = new AsyncLocalStorage<FlushContext>();
+
 /**
  * Get the current FlushContext created by initOTLP
  *
+ * Inside FlushContext.run() this is the context that owns the current
+ * request. Outside of it, the most recently created context is returned.
  * Returns null if initOTLP hasn't been called yet.
  *
  * @example
@@ -47,7 +74,7 @@ let currentFlushContext: FlushContext | null = null;
  * }
  */
 export function getFlushContext(): FlushContext | null {
-  return currentFlushContext;
+  return flushContextStorage.getStore() ?? currentFlushContext;
 }
 
 /**
@@ -58,23 +85,115 @@ export interface FlushContext {
   readonly spans: ExportableSpan[];
   /** Collected log count (for diagnostics) */
   readonly logCount: number;
+  /**
+   * Run a function with this context's collectors bound to it
+   *
+   * Spans started and logs written inside fn are buffered in this context
+   * only, so concurrent requests in the same isolate never export each
+   * other's telemetry.
+   */
+  run<T>(fn: () => T): T;
   /** Flush all collected data to OTLP endpoint (does not remove global collectors) */
   flush(): Promise<void>;
   /** Clear all collected data without exporting (does not remove global collectors) */
   clear(): void;
-  /** Flush and then remove global collectors - call at end of request lifecycle */
+  /**
+   * Flush and then detach this context - call at end of request lifecycle
+   * The isolate-wide fallback collectors stay, other contexts still use them
+   */
   shutdown(): Promise<void>;
 }
 
+/**
+ * Additional options for initOTLP
+ */
+export interface InitOTLPOptions {
+  /**
+   * Tail sampling policy applied to buffered spans and logs on flush
+   * If not provided, everything collected is exported
+   */
+  tailSampling?: TailSamplingPolicy;
+  /**
+   * Name of the env binding for a TelemetryBufferDurableObject namespace
+   * Exports that fail with a retryable error are handed to it for replay
+   */
+  telemetryBuffer?: string;
+  /**
+   * Name of the env binding for a Cloudflare Queue used as export transport
+   * Built OTLP requests are enqueued instead of POSTed to the collector;
+   * consume them with createOTLPQueueConsumer(). With several exporters,
+   * one request per exporter is enqueued, built with its own filters and
+   * resource. Falls back to direct export (when configured) if a request
+   * cannot be enqueued.
+   */
+  exportQueue?: string;
+  /**
+   * Additional resource detectors, run after the built-in Cloudflare detector
+   * Attributes from OTEL_RESOURCE_ATTRIBUTES still take precedence
+   */
+  resourceDetectors?: ResourceDetector[];
+}
+
+/**
+ * Enqueue spans and logs built with one exporter's filters, service name,
+ * resource and attribute mode (or the defaults without an exporter)
+ * Returns whether each signal was queued
+ */
+async function enqueueForExporter(
+  queue: OTLPQueue,
+  config: OTLPExporterConfig | undefined,
+  spans: ExportableSpan[],
+  logs: LogEntry[],
+  serviceName: string,
+  detected: Attributes,
+  exporter: string | number | undefined,
+): Promise<{ traces: boolean; logs: boolean }> {
+  const accepts = (signal: OTLPSignal) =>
+    !config?.signals || config.signals.includes(signal);
+  const name = config?.serviceName ?? serviceName;
+  const resourceAttributes = { ...detected, ...config?.resourceAttributes };
+  if (config?.spanFilter) spans = spans.filter(config.spanFilter);
+  if (config?.logFilter) logs = logs.filter(config.logFilter);
+
+  const [traces, logsQueued] = await Promise.all([
+    !accepts("trace") ||
+      spans.length === 0 ||
+      enqueueExport(queue, {
+        signal: "trace",
+        request: buildTraceExportRequest(spans, name, resourceAttributes),
+        exporter,
+      }),
+    !accepts("log") ||
+      logs.length === 0 ||
+      enqueueExport(queue, {
+        signal: "log",
+        request: buildLogExportRequest(
+          logs,
+          name,
+          resourceAttributes,
+          undefined,
+          config?.attributeMode,
+        ),
+        exporter,
+      }),
+  ]);
+  return { traces, logs: logsQueued };
+}
+
 /**
  * Initialize OTLP collectors for a request
  *
- * Call this at the beginning of your request handler.
- * Returns a FlushContext that you should call flush() on at the end.
+ * Call this at the beginning of your request handler and run the handler
+ * inside the returned context's run(). Each call creates its own span and
+ * log buffers; flush() exports only what was recorded inside run(), plus
+ * anything recorded outside of any run() scope (the isolate-wide fallback).
  *
- * @param env - Environment variables (used to auto-detect OTLP config if configOverride not provided)
+ * @param env - Environment variables (used to auto-detect OTLP config if configOverride not provided,
+ *   and the head sampler from OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG)
  * @param serviceName - Service name for telemetry
- * @param configOverride - Optional explicit OTLP config (skips env detection if provided)
+ * @param configOverride - Optional explicit OTLP config, or a list of exporters to fan out to
+ *   (skips env detection if provided)
+ * @param options - Optional flush behavior such as tail sampling
  *
  * @example
  * // SvelteKit hooks.server.ts
@@ -84,7 +203,7 @@ export interface FlushContext {
  *   const ctx = initOTLP(event.platform?.env, 'my-service');
  *
  *   try {
- *     return await resolve(event);
+ *     return await ctx.run(() => resolve(event));
  *   } finally {
  *     // Use waitUntil if available, otherwise await
  *     if (event.platform?.context?.waitUntil) {
@@ -98,81 +217,218 @@ export interface FlushContext {
 export function initOTLP(
   env: Record<string, unknown> | undefined,
   serviceName: string,
-  configOverride?: OTLPExporterConfig | null,
+  configOverride?: OTLPExporterConfig | OTLPExporterConfig[] | null,
+  options?: InitOTLPOptions,
 ): FlushContext {
-  // Initialize tracing provider (idempotent)
+  // Initialize tracing provider and global propagator (idempotent)
   initTracing();
+  registerGlobalPropagator();
 
   // Patch global fetch to auto-trace outgoing requests (idempotent)
   patchGlobalFetch();
 
+  // Standard OTEL_* SDK env vars; sampler, span limits and propagators
+  // are bound to this context in run() rather than set process-wide
+  const sdk = env ? getSDKConfigFromEnv(env) : null;
+  const envSettings = env ? getSettingsFromEnv(env) : {};
+  const disabled = sdk?.disabled ?? false;
+
   // Use override if provided, otherwise auto-detect from env
-  const config =
-    configOverride !== undefined
-      ? configOverride
-      : env
-        ? getOTLPConfigFromEnv(env)
-        : null;
-
-  // Reuse existing collectors if already set (idempotent)
-  let spanProcessor = getSpanProcessor() as SimpleSpanProcessor | null;
-  let logHandler = getOTLPLogHandler();
-
-  if (!spanProcessor) {
-    spanProcessor = new SimpleSpanProcessor();
-    setSpanProcessor(spanProcessor);
+  // OTEL_SDK_DISABLED turns off every exporter
+  const exporters = disabled
+    ? []
+    : toExporterList(
+        configOverride !== undefined
+          ? configOverride
+          : env
+            ? getOTLPConfigFromEnv(env)
+            : null,
+      );
+
+  // OTEL_TRACES_EXPORTER / OTEL_LOGS_EXPORTER may add the console exporter
+  const consoleTraces = !disabled && !!sdk?.tracesExporters.includes("console");
+  const consoleLogs = !disabled && !!sdk?.logsExporters.includes("console");
+
+  // Durable Object buffer for exports that fail after retries
+  const bufferNamespace = options?.telemetryBuffer
+    ? (env?.[options.telemetryBuffer] as DurableObjectNamespace | undefined)
+    : undefined;
+  if (options?.telemetryBuffer && !bufferNamespace) {
+    console.warn(
+      `[otel-cloudflare] telemetry buffer binding "${options.telemetryBuffer}" not found in env`,
+    );
+  }
+
+  // Queue transport replacing direct export
+  const exportQueue =
+    options?.exportQueue && !disabled
+      ? (env?.[options.exportQueue] as OTLPQueue | undefined)
+      : undefined;
+  if (options?.exportQueue && !exportQueue) {
+    console.warn(
+      `[otel-cloudflare] export queue binding "${options.exportQueue}" not found in env`,
+    );
   }
 
-  if (!logHandler) {
-    logHandler = new OTLPLogHandler();
-    setOTLPLogHandler(logHandler);
+  // cloud.*, faas.*, telemetry.sdk.* and user detectors
+  const resource = detectWorkerResource(env, options?.resourceDetectors);
+
+  // Request-scoped collectors, bound via run()
+  const spanProcessor = new SimpleSpanProcessor();
+  const logHandler = new OTLPLogHandler();
+
+  // Isolate-wide fallback collectors for telemetry recorded outside run()
+  // (reused if already set, idempotent)
+  if (!getFallbackSpanProcessor()) {
+    setSpanProcessor(new SimpleSpanProcessor());
+  }
+  if (!getFallbackOTLPLogHandler()) {
+    setOTLPLogHandler(new OTLPLogHandler());
   }
 
+  /** Collect spans from this context and the fallback processor */
+  const collectSpans = (): ExportableSpan[] => [
+    ...(spanProcessor.getSpans() as ExportableSpan[]),
+    ...((getFallbackSpanProcessor()?.getSpans() ?? []) as ExportableSpan[]),
+  ];
+
+  /** Collect logs from this context and the fallback handler */
+  const collectLogs = (): LogEntry[] => [
+    ...logHandler.getLogs(),
+    ...(getFallbackOTLPLogHandler()?.getLogs() ?? []),
+  ];
+
+  const clearAll = (): void => {
+    spanProcessor.clear();
+    logHandler.clear();
+    getFallbackSpanProcessor()?.clear();
+    getFallbackOTLPLogHandler()?.clear();
+  };
+
   const ctx: FlushContext = {
     get spans() {
-      return spanProcessor.getSpans() as ExportableSpan[];
+      return collectSpans();
     },
     get logCount() {
-      return logHandler.getLogs().length;
+      return collectLogs().length;
+    },
+    run<T>(fn: () => T): T {
+      return flushContextStorage.run(ctx, () =>
+        runWithEnvSettings(envSettings, () =>
+          runWithSpanProcessor(spanProcessor, () =>
+            runWithOTLPLogHandler(logHandler, fn),
+          ),
+        ),
+      );
     },
     async flush() {
-      if (!config) {
-        // No OTLP config, just clear collectors
-        spanProcessor.clear();
-        logHandler.clear();
+      let spans = collectSpans();
+      let logs = collectLogs();
+
+      // Clear before exporting so data recorded while the export is in
+      // flight is kept for the next flush
+      clearAll();
+
+      if (exporters.length === 0 && !exportQueue && !consoleTraces && !consoleLogs) {
+        // No OTLP config, just drop collected data
         return;
       }
 
-      const spans = spanProcessor.getSpans();
-      const logs = logHandler.getLogs();
+      // Decide per trace which spans and logs to keep
+      if (options?.tailSampling) {
+        ({ spans, logs } = applyTailSampling(spans, logs, options.tailSampling));
+      }
+
+      // Detected attributes, overridden by each exporter's own
+      const detected = await resolveResourceAttributes(resource);
+      const withResource = (config: OTLPExporterConfig): OTLPExporterConfig => ({
+        ...config,
+        resourceAttributes: { ...detected, ...config.resourceAttributes },
+      });
+
+      // Console exporter prints the OTLP JSON payload
+      if (consoleTraces && spans.length > 0) {
+        console.log(JSON.stringify(buildTraceExportRequest(spans, serviceName, detected)));
+      }
+      if (consoleLogs && logs.length > 0) {
+        console.log(JSON.stringify(buildLogExportRequest(logs, serviceName, detected)));
+      }
 
       // Export in parallel, catch errors to prevent throwing
       try {
-        await Promise.all([
-          spans.length > 0
-            ? exportTraces(config, spans as ExportableSpan[], serviceName)
-            : Promise.resolve(),
-          logs.length > 0
-            ? exportLogs(config, logs, serviceName)
-            : Promise.resolve(),
-        ]);
+        // Signals each exporter still has to export directly
+        let direct = exporters.map((config) => ({ config, spans, logs }));
+
+        if (exportQueue) {
+          if (exporters.length > 1) {
+            // One request per exporter, tagged so the consumer routes it
+            const queued = await Promise.all(
+              exporters.map((config, index) =>
+                enqueueForExporter(
+                  exportQueue,
+                  config,
+                  spans,
+                  logs,
+                  serviceName,
+                  detected,
+                  config.name ?? index,
+                ),
+              ),
+            );
+            direct = direct.map((target, index) => ({
+              ...target,
+              spans: queued[index].traces ? [] : spans,
+              logs: queued[index].logs ? [] : logs,
+            }));
+          } else {
+            // A single request, sent to every exporter of the consumer
+            const queued = await enqueueForExporter(
+              exportQueue,
+              exporters[0],
+              spans,
+              logs,
+              serviceName,
+              detected,
+              undefined,
+            );
+            direct = direct.map((target) => ({
+              ...target,
+              spans: queued.traces ? [] : spans,
+              logs: queued.logs ? [] : logs,
+            }));
+          }
+        }
+
+        // Fan out to every exporter; each applies its own signal filters
+        const results = await Promise.all(
+          direct.flatMap((target) => [
+            exportTraces(withResource(target.config), target.spans, serviceName),
+            exportLogs(withResource(target.config), target.logs, serviceName),
+          ]),
+        );
+
+        // Defer retryable failures to the Durable Object buffer
+        if (bufferNamespace) {
+          await Promise.all(
+            results.map((result) =>
+              result.request
+                ? deferExport(bufferNamespace, result.request)
+                : undefined,
+            ),
+          );
+        }
       } catch (error) {
         console.error("[otel-cloudflare] flush error:", error);
       }
-
-      // Clear after export (always, even on error)
-      spanProcessor.clear();
-      logHandler.clear();
     },
     clear() {
-      spanProcessor.clear();
-      logHandler.clear();
+      clearAll();
     },
     async shutdown() {
       await this.flush();
-      setSpanProcessor(null);
-      setOTLPLogHandler(null);
-      currentFlushContext = null;
+      if (currentFlushContext === ctx) {
+        currentFlushContext = null;
+      }
     },
   };
 
@@ -187,11 +443,12 @@ export function initOTLP(
 /**
  * Flush all collected traces to OTLP endpoint
  *
- * Uses the currently active span processor. If no processor is active,
- * this is a no-op. Never throws - errors are logged to console.
+ * Uses the request-scoped span processor when called inside
+ * FlushContext.run(), otherwise the isolate-wide one. If no processor is
+ * active, this is a no-op. Never throws - errors are logged to console.
  */
 export async function flushTraces(
-  config: OTLPExporterConfig,
+  config: OTLPExporterConfig | OTLPExporterConfig[],
   serviceName: string,
 ): Promise<void> {
   const processor = getSpanProcessor();
@@ -201,7 +458,11 @@ export async function flushTraces(
   if (spans.length === 0) return;
 
   try {
-    await exportTraces(config, spans as ExportableSpan[], serviceName);
+    await Promise.all(
+      toExporterList(config).map((c) =>
+        exportTraces(c, spans as ExportableSpan[], serviceName),
+      ),
+    );
   } catch (error) {
     console.error("[otel-cloudflare] flushTraces error:", error);
   }
@@ -211,11 +472,12 @@ export async function flushTraces(
 /**
  * Flush all collected logs to OTLP endpoint
  *
- * Uses the currently active OTLP log handler. If no handler is active,
- * this is a no-op. Never throws - errors are logged to console.
+ * Uses the request-scoped OTLP log handler when called inside
+ * FlushContext.run(), otherwise the isolate-wide one. If no handler is
+ * active, this is a no-op. Never throws - errors are logged to console.
  */
 export async function flushLogs(
-  config: OTLPExporterConfig,
+  config: OTLPExporterConfig | OTLPExporterConfig[],
   serviceName: string,
 ): Promise<void> {
   const handler = getOTLPLogHandler();
@@ -225,7 +487,9 @@ export async function flushLogs(
   if (logs.length === 0) return;
 
   try {
-    await exportLogs(config, logs, serviceName);
+    await Promise.all(
+      toExporterList(config).map((c) => exportLogs(c, logs, serviceName)),
+    );
   } catch (error) {
     console.error("[otel-cloudflare] flushLogs error:", error);
   }
@@ -236,10 +500,11 @@ export async function flushLogs(
  * Flush all collected traces and logs to OTLP endpoint
  *
  * Convenience function that calls both flushTraces and flushLogs.
+ * Pass a list of exporters to fan out to several endpoints.
  * Never throws - errors are logged to console.
  */
 export async function flushAll(
-  config: OTLPExporterConfig,
+  config: OTLPExporterConfig | OTLPExporterConfig[],
   serviceName: string,
 ): Promise<void> {
   await Promise.all([
@@ -21,9 +21,11 @@ export {
   withAttrs,
   setOTLPLogHandler,
   getOTLPLogHandler,
+  runWithOTLPLogHandler,
   type LogLevel,
   type LogOptions,
   type LogEntry,
+  type LogMessage,
   type LogHandler,
 } from "./logger.js";
 
@@ -39,15 +41,90 @@ export {
   toSpanContext,
   toTraceparent,
   getTraceparent,
+  parseTracestate,
+  createTracestate,
+  getTracestate,
+  setTracestateEntry,
+  removeTracestateEntry,
+  isValidTracestateKey,
+  isValidTracestateValue,
   spanContextFromTraceparent,
   withParentTrace,
   SimpleSpanProcessor,
   setSpanProcessor,
   getSpanProcessor,
+  runWithSpanProcessor,
+  setSampler,
+  getSampler,
+  setSpanLimits,
+  getSpanLimits,
   type TraceContext,
   type SpanProcessor,
+  type SpanLimits,
 } from "./provider.js";
 
+// W3C Baggage
+export {
+  parseBaggage,
+  serializeBaggage,
+  getBaggageHeader,
+  contextWithBaggageHeader,
+  withBaggage,
+  setBaggageAttributeKeys,
+  getBaggageAttributeKeys,
+  getBaggageAttributes,
+} from "./baggage.js";
+
+// Context propagation
+export {
+  W3CTraceContextPropagator,
+  W3CBaggagePropagator,
+  B3Propagator,
+  JaegerPropagator,
+  AWSXRayPropagator,
+  CloudTracePropagator,
+  CompositePropagator,
+  registerPropagator,
+  createPropagator,
+  setPropagator,
+  getPropagator,
+  extractFromHeaders,
+  injectIntoHeaders,
+  extractFromMessage,
+  injectIntoMessage,
+  headersGetter,
+  headersSetter,
+  messageGetter,
+  messageSetter,
+  type B3PropagatorOptions,
+  type PropagatorFactory,
+  type TextMapPropagator,
+} from "./propagation.js";
+
+// OTEL_* SDK environment variables
+export {
+  getSDKConfigFromEnv,
+  applySDKConfig,
+  isSDKDisabled,
+  type SDKEnvConfig,
+  type SignalExporterName,
+} from "./env.js";
+
+// Head sampling
+export {
+  AlwaysOnSampler,
+  AlwaysOffSampler,
+  TraceIdRatioBasedSampler,
+  ParentBasedSampler,
+  SamplingDecision,
+  getSamplerFromEnv,
+  applyTailSampling,
+  type Sampler,
+  type TailSamplingPolicy,
+  type SamplingResult,
+  type ParentBasedSamplerConfig,
+} from "./sampler.js";
+
 // Instrumentation
 export {
   instrument,
@@ -55,7 +132,10 @@ export {
   traceRequest,
   withTraceContext,
   wrapQueue,
+  forEachTracedMessage,
   TRACE_CONTEXT_KEY,
+  TRACE_STATE_KEY,
+  BAGGAGE_KEY,
   DEFAULT_IGNORE_URLS,
   type InstrumentOptions,
   type InstrumentOptionsObject,
@@ -63,19 +143,100 @@ export {
   type OTLPExporterConfig,
   type ExportedHandler,
   type TracedMessage,
+  type MessageTraceContext,
 } from "./instrument.js";
 
 // OTLP export utilities
 export {
   exportTraces,
   exportLogs,
+  exportTraceRequest,
+  exportLogRequest,
+  sendExportRequest,
   getOTLPConfigFromEnv,
+  parseOTLPHeaders,
   spanToOTLP,
   logToOTLP,
   buildTraceExportRequest,
   buildLogExportRequest,
   type ExportableSpan,
+  type OTLPProtocol,
+  type OTLPCompression,
+  type OTLPSignal,
+  type OTLPAttributeMode,
+  type OTLPRetryConfig,
+  type ExportResult,
+  type SerializedExportRequest,
 } from "./otlp.js";
+export { encodeTraceExportRequest, encodeLogExportRequest } from "./protobuf.js";
+
+// Body capture and redaction
+export {
+  setBodyCapturePolicy,
+  getBodyCapturePolicy,
+  redactBody,
+  setHeaderCapturePolicy,
+  getHeaderCapturePolicy,
+  DEFAULT_SENSITIVE_HEADERS,
+  type BodyCapturePolicy,
+  type BodyDirection,
+  type RedactionRules,
+  type HeaderCapturePolicy,
+} from "./capture.js";
+
+// Route templates
+export {
+  matchRoute,
+  setHttpRoute,
+  type RouteOptions,
+  type RoutePattern,
+} from "./route.js";
+
+// Cloudflare request metadata
+export { getCfAttributes, type CfCaptureOptions, type IpAddressMode } from "./cf.js";
+
+// Resource detection
+export {
+  cloudflareDetector,
+  detectWorkerResource,
+  type ResourceDetector,
+  type WorkerVersionMetadata,
+  type CloudflareDetectorOptions,
+} from "./resource.js";
+export { VERSION } from "./version.js";
+
+// Vendor presets
+export {
+  presets,
+  getPresetConfigFromEnv,
+  type HoneycombPresetOptions,
+  type AxiomPresetOptions,
+  type NewRelicPresetOptions,
+  type DatadogPresetOptions,
+  type BaselimePresetOptions,
+  type GrafanaPresetOptions,
+} from "./presets.js";
+
+// Cloudflare Queue export transport
+export {
+  createOTLPQueueConsumer,
+  enqueueExport,
+  mergeTraceExportRequests,
+  mergeLogExportRequests,
+  type OTLPQueue,
+  type OTLPQueueMessage,
+  type OTLPQueueConsumerOptions,
+} from "./queue.js";
+
+// Durable Object buffer for failed exports
+export {
+  TelemetryBufferDurableObject,
+  deferExport,
+  type TelemetryBufferOptions,
+  type DurableObjectState,
+  type DurableObjectStorage,
+  type DurableObjectNamespace,
+} from "./buffer.js";
 
 // Force flush API (for SvelteKit and other non-standard contexts)
 export {
@@ -86,6 +247,7 @@ export {
   flushAll,
   flushToEnv,
   type FlushContext,
+  type InitOTLPOptions,
 } from "./flush.js";
 
 // Instrumented fetch for outgoing HTTP requests
@@ -109,6 +271,7 @@ export {
   type WorkflowEntrypoint,
   type WorkflowEntrypointConstructor,
   type TracedParams,
+  type WorkflowTraceContext,
   type TracedWorkflow,
   type WorkflowInstance,
   type WorkflowInstanceStatus,
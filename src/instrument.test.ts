@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { trace, propagation, context, SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { forEachTracedMessage, instrument } from "./instrument.js";
+import {
+  getSampler,
+  initTracing,
+  setSpanProcessor,
+  SimpleSpanProcessor,
+} from "./provider.js";
+import { AlwaysOffSampler } from "./sampler.js";
+import type { ExportableSpan } from "./otlp.js";
+
+const PRODUCER_A = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+const PRODUCER_B = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+function createMessage(id: string, body: Record<string, unknown>, attempts = 1) {
+  return { id, body, attempts, timestamp: new Date(), ack: vi.fn(), retry: vi.fn() };
+}
+
+function createBatch(messages: ReturnType<typeof createMessage>[]) {
+  return { queue: "orders", messages, ackAll: vi.fn(), retryAll: vi.fn() };
+}
+
+const executionContext = {
+  waitUntil: vi.fn(),
+  passThroughOnException: vi.fn(),
+  props: {},
+};
+
+// ============================================
+// Handler options
+// ============================================
+
+describe("handler options", () => {
+  it("apply only to the handler's own invocations", async () => {
+    const sampled: Record<string, boolean | undefined> = {};
+    const defaultSampler = getSampler();
+    const run = (name: string) => async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      sampled[name] = trace.getActiveSpan()?.isRecording();
+    };
+    const quiet = instrument(
+      { scheduled: run("quiet") },
+      { sampler: new AlwaysOffSampler() },
+    );
+    const loud = instrument({ scheduled: run("loud") });
+    const controller = { cron: "* * * * *", scheduledTime: 0, noRetry: vi.fn() };
+
+    await Promise.all([
+      quiet.scheduled!(controller, {}, executionContext),
+      loud.scheduled!(controller, {}, executionContext),
+    ]);
+
+    expect(sampled).toEqual({ quiet: false, loud: true });
+    expect(getSampler()).toBe(defaultSampler);
+  });
+});
+
+// ============================================
+// Flush
+// ============================================
+
+describe("telemetry flush", () => {
+  it("runs via waitUntil when queue and scheduled handlers throw", async () => {
+    const fail = () => {
+      throw new Error("boom");
+    };
+    const handler = instrument({ queue: fail, scheduled: fail });
+    const ctx = { ...executionContext, waitUntil: vi.fn() };
+    const controller = { cron: "* * * * *", scheduledTime: 0, noRetry: vi.fn() };
+
+    await expect(handler.queue!(createBatch([]), {}, ctx)).rejects.toThrow("boom");
+    await expect(handler.scheduled!(controller, {}, ctx)).rejects.toThrow("boom");
+
+    expect(ctx.waitUntil).toHaveBeenCalledTimes(2);
+    await Promise.all(ctx.waitUntil.mock.calls.map(([promise]) => promise));
+  });
+});
+
+// ============================================
+// Queue consumer
+// ============================================
+
+describe("queue batch span", () => {
+  it("links every message's producer trace", async () => {
+    let batchSpan: ExportableSpan | undefined;
+    const handler = instrument({
+      queue: () => {
+        batchSpan = trace.getActiveSpan() as unknown as ExportableSpan;
+      },
+    });
+
+    await handler.queue!(
+      createBatch([
+        createMessage("m1", { _traceparent: PRODUCER_A }),
+        createMessage("m2", { _traceparent: PRODUCER_B }),
+        createMessage("m3", {}),
+      ]),
+      {},
+      executionContext,
+    );
+
+    expect(batchSpan?.name).toBe("queue:orders process");
+    expect(batchSpan?.kind).toBe(SpanKind.CONSUMER);
+    expect(batchSpan?.parentSpanId).toBeUndefined();
+    expect(batchSpan?.links.map((link) => link.context.traceId)).toEqual([
+      "0af7651916cd43dd8448eb211c80319c",
+      "4bf92f3577b34da6a3ce929d0e0e4736",
+    ]);
+    expect(batchSpan?.links[1].attributes).toEqual({ "messaging.message.id": "m2" });
+    expect(batchSpan?.attributes).toMatchObject({
+      "messaging.destination.name": "orders",
+      "messaging.batch.message_count": 3,
+    });
+  });
+
+  it("continues the producer trace for single-message batches", async () => {
+    let traceId: string | undefined;
+    const handler = instrument({
+      queue: () => {
+        traceId = trace.getActiveSpan()?.spanContext().traceId;
+      },
+    });
+
+    await handler.queue!(
+      createBatch([createMessage("m1", { _traceparent: PRODUCER_A })]),
+      {},
+      executionContext,
+    );
+
+    expect(traceId).toBe("0af7651916cd43dd8448eb211c80319c");
+  });
+});
+
+describe("forEachTracedMessage", () => {
+  let processor: SimpleSpanProcessor;
+
+  beforeEach(() => {
+    initTracing();
+    processor = new SimpleSpanProcessor();
+    setSpanProcessor(processor);
+  });
+
+  afterEach(() => {
+    setSpanProcessor(null);
+  });
+
+  it("creates a CONSUMER span per message, parented by its producer", async () => {
+    const batch = createBatch([
+      createMessage("m1", { _traceparent: PRODUCER_A, _baggage: "tenant.id=acme" }, 2),
+      createMessage("m2", { _traceparent: PRODUCER_B }),
+    ]);
+    const tenants: (string | undefined)[] = [];
+
+    const batchSpan = trace.getTracer("test").startSpan("batch");
+    await context.with(trace.setSpan(context.active(), batchSpan), () =>
+      forEachTracedMessage(batch, (message) => {
+        tenants.push(propagation.getBaggage(context.active())?.getEntry("tenant.id")?.value);
+        message.ack();
+      }),
+    );
+
+    const spans = processor.getSpans();
+    expect(spans.map((span) => span.name)).toEqual([
+      "queue:orders process message",
+      "queue:orders process message",
+    ]);
+    expect(spans[0].spanContext().traceId).toBe("0af7651916cd43dd8448eb211c80319c");
+    expect(spans[0].parentSpanId).toBe("b7ad6b7169203331");
+    expect(spans[1].spanContext().traceId).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(spans[0].links[0].context.spanId).toBe(batchSpan.spanContext().spanId);
+    expect(spans[0].attributes).toMatchObject({
+      "messaging.message.id": "m1",
+      "messaging.cloudflare.message.attempts": 2,
+      "messaging.batch.message_count": 2,
+      "messaging.destination.name": "orders",
+    });
+    expect(tenants).toEqual(["acme", undefined]);
+    expect(batch.messages[1].ack).toHaveBeenCalled();
+  });
+
+  it("parents messages without trace context on the batch span", async () => {
+    const batch = createBatch([
+      createMessage("m1", { _traceparent: PRODUCER_A }),
+      createMessage("m2", {}),
+    ]);
+    const tenants: (string | undefined)[] = [];
+
+    const batchSpan = trace.getTracer("test").startSpan("batch");
+    const batchContext = propagation.setBaggage(
+      trace.setSpan(context.active(), batchSpan),
+      propagation.createBaggage({ "tenant.id": { value: "acme" } }),
+    );
+    await context.with(batchContext, () =>
+      forEachTracedMessage(batch, () => {
+        tenants.push(propagation.getBaggage(context.active())?.getEntry("tenant.id")?.value);
+      }),
+    );
+
+    const [producerSpan, orphanSpan] = processor.getSpans();
+    const batchSpanContext = batchSpan.spanContext();
+    expect(producerSpan.spanContext().traceId).toBe("0af7651916cd43dd8448eb211c80319c");
+    expect(producerSpan.links).toHaveLength(1);
+    expect(orphanSpan.spanContext().traceId).toBe(batchSpanContext.traceId);
+    expect(orphanSpan.parentSpanId).toBe(batchSpanContext.spanId);
+    expect(orphanSpan.links).toEqual([]);
+    expect(tenants).toEqual(["acme", "acme"]);
+  });
+
+  it("marks the message's span as failed and rethrows", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const batch = createBatch([createMessage("m1", {}), createMessage("m2", {})]);
+
+    await expect(
+      forEachTracedMessage(batch, () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+
+    const spans = processor.getSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].status.code).toBe(SpanStatusCode.ERROR);
+    vi.restoreAllMocks();
+  });
+});
@@ -11,11 +11,37 @@ import {
   SpanStatusCode,
   type SpanContext,
   type Span,
+  type SpanOptions,
+  type Link,
 } from "@opentelemetry/api";
-import { spanContextFromTraceparent, getTraceparent } from "./provider.js";
+import { getTraceparent, type SpanLimits } from "./provider.js";
+import type { Sampler, TailSamplingPolicy } from "./sampler.js";
 import { getLogger } from "./logger.js";
 import { getOTLPConfigFromEnv, type OTLPExporterConfig } from "./otlp.js";
-import { initOTLP } from "./flush.js";
+import { initOTLP, type InitOTLPOptions } from "./flush.js";
+import { isSDKDisabled } from "./env.js";
+import type { ResourceDetector } from "./resource.js";
+import { runWithSettings } from "./settings.js";
+import {
+  createPropagator,
+  extractFromHeaders,
+  extractFromMessage,
+  injectIntoMessage,
+  type TextMapPropagator,
+} from "./propagation.js";
+import { getCfAttributes, type CfCaptureOptions } from "./cf.js";
+import { matchRoute, runWithServerSpan, type RouteOptions } from "./route.js";
+import {
+  getBodyCapturePolicy,
+  getHeaderCapturePolicy,
+  getHeaderAttributes,
+  shouldCaptureBody,
+  readBodyStream,
+  redactBody,
+  type BodyCapturePolicy,
+  type BodyDirection,
+  type HeaderCapturePolicy,
+} from "./capture.js";
 
 // ============================================
 // Helper Functions
@@ -41,73 +67,64 @@ function formatDuration(ms: number): string {
   return `${(ms / 60000).toFixed(1)}m`;
 }
 
-const MAX_BODY_LOG_SIZE = 8192;
-
-/** Content types that are safe to log */
-const LOGGABLE_CONTENT_TYPES = [
-  "application/json",
-  "application/x-www-form-urlencoded",
-  "text/plain",
-  "text/xml",
-  "application/xml",
-];
-
 /**
- * Check if content type is loggable (text-based, excluding HTML)
+ * Record request.cf metadata on the span if enabled
  */
-function isLoggableContentType(contentType: string | null): boolean {
-  if (!contentType) return false;
-  const base = contentType.split(";")[0].trim().toLowerCase();
-  return LOGGABLE_CONTENT_TYPES.includes(base);
+async function captureCfAttributes(
+  span: Span,
+  request: Request,
+  captureCf: boolean | CfCaptureOptions | undefined,
+): Promise<void> {
+  if (!captureCf) return;
+  span.setAttributes(
+    await getCfAttributes(request, captureCf === true ? {} : captureCf),
+  );
 }
 
 /**
- * Read body from stream with truncation (max 2048 bytes)
- * Only reads if content type is text-based (json, form, text)
- * Returns [truncatedBody, originalOrTeedStream]
+ * Read body from stream according to the body capture policy, redacted
+ * Returns [capturedBody, originalOrTeedStream]
  */
 async function readBodyWithTruncate(
   body: ReadableStream<Uint8Array> | null,
   contentType: string | null,
+  direction: BodyDirection,
+  url: URL,
 ): Promise<[string, ReadableStream<Uint8Array> | null]> {
   if (!body) return ["", null];
 
-  // Skip binary content (images, files, etc.)
-  if (!isLoggableContentType(contentType)) {
+  // Skip binary content (images, files, etc.) and excluded routes
+  const policy = getBodyCapturePolicy();
+  if (!policy || !shouldCaptureBody(policy, direction, url, contentType)) {
     return ["", body];
   }
 
   const [stream1, stream2] = body.tee();
-  const reader = stream1.getReader();
-  const decoder = new TextDecoder();
-  let result = "";
-
-  try {
-    while (result.length < MAX_BODY_LOG_SIZE) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      result += decoder.decode(value, { stream: true });
-    }
-
-    if (result.length > MAX_BODY_LOG_SIZE) {
-      result = result.slice(0, MAX_BODY_LOG_SIZE) + "...[truncated]";
-    }
-  } finally {
-    reader.cancel();
-  }
-
-  return [result, stream2];
+  const text = await readBodyStream(stream1, policy);
+  return [redactBody(text, contentType, policy.redaction), stream2];
 }
 
 // ============================================
 // Types
 // ============================================
 
+/**
+ * Trace context fields carried in queue message bodies
+ */
+export interface MessageTraceContext {
+  /** W3C traceparent of the producer */
+  _traceparent?: string;
+  /** W3C tracestate of the producer */
+  _tracestate?: string;
+  /** W3C baggage of the producer */
+  _baggage?: string;
+}
+
 /**
  * Message with optional trace context for propagation
  */
 export interface TracedMessage<T = unknown> {
-  body: T & { _traceparent?: string };
+  body: T & MessageTraceContext;
   id: string;
   timestamp: Date;
   ack(): void;
@@ -140,14 +157,32 @@ export interface InstrumentOptionsObject {
    *
    * - If not provided (default), auto-detects from env vars:
    *   - OTEL_EXPORTER_OTLP_ENDPOINT: Base OTLP endpoint
-   *   - OTEL_EXPORTER_OTLP_HEADERS: Headers in "Authorization=Basic xxx" format
+   *   - OTEL_EXPORTER_OTLP_HEADERS: URL-encoded "key1=value1,key2=value2" list
+   *     (e.g. "Authorization=Basic%20xxx"), optional for unauthenticated collectors
    *   - Or: GRAFANA_INSTANCE_ID + GRAFANA_OTLP_TOKEN for Grafana Cloud
+   *   - OTEL_EXPORTER_OTLP_PROTOCOL: "http/json" (default) or "http/protobuf"
+   *   - OTEL_EXPORTER_OTLP_COMPRESSION: "gzip" or "none" (default)
+   *   - OTEL_EXPORTER_OTLP_TRACES_ENDPOINT / OTEL_EXPORTER_OTLP_LOGS_ENDPOINT:
+   *     Per-signal URLs, used as-is
+   *   - OTEL_EXPORTER_OTLP_TRACES_HEADERS / OTEL_EXPORTER_OTLP_LOGS_HEADERS:
+   *     Per-signal headers
    *
    * - If explicitly provided, uses the given config
    *
+   * - A list of configs fans out to every exporter, each with its own
+   *   `signals`, `spanFilter` and `logFilter`
+   *
    * - If env vars not set and no explicit config, spans/logs are not exported
+   *
+   * @example
+   * instrument(handler, {
+   *   exporter: [
+   *     { endpoint: "https://tempo.example.com", headers: {}, signals: ["trace"] },
+   *     { endpoint: "https://loki.example.com", headers: {}, signals: ["log"] },
+   *   ],
+   * })
    */
-  exporter?: OTLPExporterConfig;
+  exporter?: OTLPExporterConfig | OTLPExporterConfig[];
 
   /**
    * Disable OTLP export entirely (even if env vars are set)
@@ -182,6 +217,173 @@ export interface InstrumentOptionsObject {
    * })
    */
   ignoreUrls?: (string | RegExp)[];
+
+  /**
+   * Head sampler deciding which traces are recorded and exported
+   *
+   * - If not provided (default), uses OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG
+   *   from env, falling back to ParentBased with an AlwaysOn root
+   *
+   * Dropped spans are non-recording: they still carry trace context for
+   * logs and propagation, but are never exported.
+   *
+   * @example
+   * // Keep 10% of new traces, follow the caller's decision otherwise
+   * instrument(handler, {
+   *   sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(0.1) }),
+   * })
+   */
+  sampler?: Sampler;
+
+  /**
+   * Tail sampling policy applied when telemetry is flushed
+   *
+   * Keeps every trace with an error or a slow root span, and samples the
+   * rest at the given ratio. Logs follow their trace's decision.
+   *
+   * @example
+   * instrument(handler, {
+   *   tailSampling: { ratio: 0.05, latencyThresholdMs: 2000, keepLogLevel: "warn" },
+   * })
+   */
+  tailSampling?: TailSamplingPolicy;
+
+  /**
+   * Limits on attributes, events and links per span
+   * Overrides the OTEL_*_LIMIT env vars. Counts default to 128.
+   *
+   * @example
+   * instrument(handler, {
+   *   spanLimits: { attributeValueLengthLimit: 4096, eventCountLimit: 32 },
+   * })
+   */
+  spanLimits?: SpanLimits;
+
+  /**
+   * Name of the Durable Object binding for TelemetryBufferDurableObject
+   *
+   * When set, exports that still fail after retries (collector down,
+   * rate limited) are stored in the Durable Object and replayed later.
+   *
+   * @example
+   * export { TelemetryBufferDurableObject } from '@tigorlazuardi/otel-cloudflare';
+   * export default instrument(handler, { telemetryBuffer: "OTEL_BUFFER" });
+   */
+  telemetryBuffer?: string;
+
+  /**
+   * Name of a Cloudflare Queue binding used as export transport
+   *
+   * Built OTLP requests are enqueued instead of POSTed to the collector,
+   * keeping collector latency and availability out of the request path.
+   * Consume the queue with createOTLPQueueConsumer() in a worker that is
+   * not wrapped with instrument().
+   *
+   * @example
+   * export default instrument(handler, { exportQueue: "OTLP_QUEUE" });
+   */
+  exportQueue?: string;
+
+  /**
+   * Additional resource detectors
+   *
+   * cloud.*, faas.*, service.version (from the CF_VERSION_METADATA binding),
+   * deployment.environment.name and telemetry.sdk.* are detected automatically.
+   * Later detectors override earlier ones; OTEL_RESOURCE_ATTRIBUTES
+   * overrides all of them.
+   *
+   * @example
+   * export default instrument(handler, {
+   *   resourceDetectors: [{ detect: () => ({ attributes: { "team": "payments" } }) }],
+   * });
+   */
+  resourceDetectors?: ResourceDetector[];
+
+  /**
+   * Record Cloudflare request metadata on the SERVER span (fetch handler only)
+   *
+   * Adds cloudflare.ray_id, cloudflare.colo, cloudflare.asn,
+   * cloudflare.bot_score, geo.*, network.protocol.*, tls.protocol.* and
+   * client.address (from cf-connecting-ip). IP addresses are hashed by
+   * default; pass `{ ip: "include" }` or `{ ip: "omit" }` to change that.
+   *
+   * Default: false
+   *
+   * @example
+   * instrument(handler, {
+   *   captureCf: { ip: "hash", ipHashSalt: env.IP_SALT },
+   * })
+   */
+  captureCf?: boolean | CfCaptureOptions;
+
+  /**
+   * Route templates for SERVER span names (fetch handler only)
+   *
+   * A matching request is named `${method} ${route}` and gets http.route,
+   * so `/users/123` and `/users/456` share one span name. Unmatched requests
+   * keep `${method} ${pathname}`. Routes resolved later by a framework
+   * router can be set with setHttpRoute().
+   *
+   * @example
+   * instrument(handler, {
+   *   routes: ["/users/:id", "/files/*", new URLPattern({ pathname: "/orgs/:org/repos" })],
+   * })
+   */
+  routes?: RouteOptions;
+
+  /**
+   * Which request/response bodies are logged, and how they are redacted
+   *
+   * Applies to the SERVER span's request log and to outgoing fetch()
+   * calls. By default JSON, form, text and XML bodies up to 8KB are
+   * captured with passwords, tokens, secrets and card numbers redacted.
+   * Pass false to never capture bodies.
+   *
+   * @example
+   * instrument(handler, {
+   *   bodyCapture: {
+   *     response: false,
+   *     denyPaths: [/^\/auth\//],
+   *     redaction: { paths: ["user.ssn", "cards.*.number"] },
+   *   },
+   * })
+   */
+  bodyCapture?: BodyCapturePolicy | false;
+
+  /**
+   * Headers recorded as http.request.header.<name> /
+   * http.response.header.<name> span attributes
+   *
+   * Applies to the SERVER span and to outgoing fetch() calls. Nothing is
+   * recorded unless allowlisted. Credentials and cookies are redacted in
+   * span attributes and in the fetch() request log.
+   *
+   * @example
+   * instrument(handler, {
+   *   headerCapture: { request: ["user-agent", "x-request-id"], response: ["content-type"] },
+   * })
+   */
+  headerCapture?: HeaderCapturePolicy;
+
+  /**
+   * Baggage keys copied into span and log attributes, "*" for all
+   * (default: none)
+   *
+   * @example
+   * instrument(handler, { baggageAttributes: ["tenant.id", "user.id"] })
+   */
+  baggageAttributes?: string[];
+
+  /**
+   * Propagators for incoming requests, outgoing fetch() calls, queue
+   * messages and workflows, by name or instance (overrides OTEL_PROPAGATORS)
+   * Names: tracecontext, baggage, b3, b3multi, jaeger, xray, gcp, none and
+   * names added with registerPropagator (default: tracecontext, baggage)
+   *
+   * @example
+   * instrument(handler, { propagators: ["tracecontext", "baggage", "b3multi"] })
+   */
+  propagators?: Array<string | TextMapPropagator>;
 }
 
 /**
@@ -251,20 +453,28 @@ interface ExecutionContext<Props = unknown> {
  */
 export const TRACE_CONTEXT_KEY = "_traceparent";
 
+/**
+ * Key for tracestate in queue message body
+ */
+export const TRACE_STATE_KEY = "_tracestate";
+
+/**
+ * Key for baggage in queue message body
+ */
+export const BAGGAGE_KEY = "_baggage";
+
 /**
  * Helper to inject trace context into a message body for queue propagation
+ * Fields come from the configured propagator, stored as "_" + header name
+ * (_traceparent, _tracestate and _baggage by default)
  *
  * @example
  * await env.QUEUE.send(withTraceContext({ orderId: 123 }));
  */
 export function withTraceContext<T extends Record<string, unknown>>(
   body: T,
-): T & { _traceparent?: string } {
-  const traceparent = getTraceparent();
-  if (traceparent) {
-    return { ...body, [TRACE_CONTEXT_KEY]: traceparent };
-  }
-  return body;
+): T & MessageTraceContext {
+  return { ...body, ...injectIntoMessage() };
 }
 
 /**
@@ -299,7 +509,7 @@ interface TracedQueue<T extends Record<string, unknown>> {
  * // Creates PRODUCER span and injects _traceparent automatically
  */
 export function wrapQueue<T extends Record<string, unknown>>(
-  queue: Queue<T & { _traceparent?: string }>,
+  queue: Queue<T & MessageTraceContext>,
   queueName: string,
 ): TracedQueue<T> {
   const tracer = trace.getTracer("otel-cloudflare");
@@ -370,21 +580,104 @@ export function wrapQueue<T extends Record<string, unknown>>(
   };
 }
 
+// ============================================
+// Queue Consumer
+// ============================================
+
+/** messaging.system of Cloudflare Queues spans */
+const MESSAGING_SYSTEM = "cloudflare_queues";
+
 /**
- * Extract SpanContext from queue message body
+ * Span links to the producer trace of each message that carries one
  */
-function extractSpanContextFromMessage(body: unknown): SpanContext | null {
-  if (
-    typeof body === "object" &&
-    body !== null &&
-    TRACE_CONTEXT_KEY in body &&
-    typeof (body as Record<string, unknown>)[TRACE_CONTEXT_KEY] === "string"
-  ) {
-    return spanContextFromTraceparent(
-      (body as Record<string, string>)[TRACE_CONTEXT_KEY],
+function getMessageLinks(messages: readonly Message[]): Link[] {
+  const activeSpanContext = trace.getSpanContext(context.active());
+  const links: Link[] = [];
+  for (const message of messages) {
+    const spanContext = trace.getSpanContext(extractFromMessage(message.body));
+    // Unchanged means the message carried no trace context
+    if (spanContext && spanContext !== activeSpanContext) {
+      links.push({
+        context: spanContext,
+        attributes: { "messaging.message.id": message.id },
+      });
+    }
+  }
+  return links;
+}
+
+/**
+ * Process each message of a queue batch in its own CONSUMER span
+ *
+ * Each span is a child of the message's producer trace (with its baggage)
+ * and links back to the batch span; messages without trace context are
+ * children of the batch span. Messages are processed one at a time; an
+ * error marks the message's span as failed and is rethrown.
+ *
+ * @example
+ * export default instrument({
+ *   async queue(batch, env) {
+ *     await forEachTracedMessage(batch, async (message) => {
+ *       await handleOrder(message.body);
+ *       message.ack();
+ *     });
+ *   },
+ * });
+ */
+export async function forEachTracedMessage<T>(
+  batch: MessageBatch<T>,
+  fn: (message: Message<T>) => void | Promise<void>,
+): Promise<void> {
+  const tracer = trace.getTracer("otel-cloudflare");
+  const batchSpanContext = trace.getActiveSpan()?.spanContext();
+  const batchLinks: Link[] =
+    batchSpanContext && trace.isSpanContextValid(batchSpanContext)
+      ? [{ context: batchSpanContext }]
+      : [];
+
+  for (const message of batch.messages) {
+    const parentContext = extractFromMessage(message.body);
+    // Without a producer trace the batch span is already the parent
+    const fromProducer =
+      trace.getSpanContext(parentContext) !== batchSpanContext;
+    await tracer.startActiveSpan(
+      `queue:${batch.queue} process message`,
+      {
+        kind: SpanKind.CONSUMER,
+        links: fromProducer ? batchLinks : [],
+        attributes: {
+          "messaging.system": MESSAGING_SYSTEM,
+          "messaging.operation.type": "process",
+          "messaging.destination.name": batch.queue,
+          "messaging.batch.message_count": batch.messages.length,
+          "messaging.message.id": message.id,
+          "messaging.cloudflare.message.attempts": message.attempts,
+        },
+      },
+      parentContext,
+      async (span) => {
+        try {
+          await fn(message);
+          span.end();
+        } catch (error) {
+          getLogger().error("Error processing queue message", {
+            queue: batch.queue,
+            messageId: message.id,
+            error: (error as Error).message,
+            stack: (error as Error).stack,
+          });
+
+          span.recordException(error as Error);
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: (error as Error).message,
+          });
+          span.end();
+          throw error;
+        }
+      },
     );
   }
-  return null;
 }
 
 /**
@@ -427,6 +720,72 @@ export interface TraceHandlerOptions {
    * Same format as InstrumentOptionsObject.ignoreUrls
    */
   ignoreUrls?: (string | RegExp)[];
+
+  /**
+   * Head sampler for this request
+   * Same behavior as InstrumentOptionsObject.sampler
+   */
+  sampler?: Sampler;
+
+  /**
+   * Tail sampling policy applied when telemetry is flushed
+   * Same behavior as InstrumentOptionsObject.tailSampling
+   */
+  tailSampling?: TailSamplingPolicy;
+
+  /**
+   * Durable Object binding name for buffering failed exports
+   * Same behavior as InstrumentOptionsObject.telemetryBuffer
+   */
+  telemetryBuffer?: string;
+
+  /**
+   * Queue binding name used as export transport
+   * Same behavior as InstrumentOptionsObject.exportQueue
+   */
+  exportQueue?: string;
+
+  /**
+   * Additional resource detectors
+   * Same behavior as InstrumentOptionsObject.resourceDetectors
+   */
+  resourceDetectors?: ResourceDetector[];
+
+  /**
+   * Record Cloudflare request metadata on the SERVER span
+   * Same behavior as InstrumentOptionsObject.captureCf
+   */
+  captureCf?: boolean | CfCaptureOptions;
+
+  /**
+   * Route templates for the SERVER span name
+   * Same behavior as InstrumentOptionsObject.routes
+   */
+  routes?: RouteOptions;
+
+  /**
+   * Body capture policy for request logs and outgoing fetch() calls
+   * Same behavior as InstrumentOptionsObject.bodyCapture
+   */
+  bodyCapture?: BodyCapturePolicy | false;
+
+  /**
+   * Header capture policy for the SERVER span and outgoing fetch() calls
+   * Same behavior as InstrumentOptionsObject.headerCapture
+   */
+  headerCapture?: HeaderCapturePolicy;
+
+  /**
+   * Baggage keys copied into span and log attributes
+   * Same behavior as InstrumentOptionsObject.baggageAttributes
+   */
+  baggageAttributes?: string[];
+
+  /**
+   * Propagators for the request and outgoing fetch() calls
+   * Same behavior as InstrumentOptionsObject.propagators
+   */
+  propagators?: Array<string | TextMapPropagator>;
 }
 
 /**
@@ -436,7 +795,7 @@ export interface TraceHandlerOptions {
  * It provides the same functionality as the instrumented fetch handler:
  * - Creates SERVER span with HTTP semantic convention attributes
  * - Extracts traceparent from request headers for distributed tracing
- * - Captures request/response body (truncated to 8KB, text-based content only)
+ * - Captures request/response body per the body capture policy (redacted, 8KB by default)
  * - Logs request summary with method, path, status, size, and duration
  * - Adds traceparent header to response for downstream correlation
  * - Automatically initializes OTLP and flushes telemetry via ctx.waitUntil
@@ -476,168 +835,195 @@ export async function traceHandler(
   options?: TraceHandlerOptions,
 ): Promise<Response> {
   // Initialize OTLP
-  const flushCtx = initOTLP(options?.env, options?.serviceName ?? "unknown");
+  const flushCtx = initOTLP(
+    options?.env,
+    options?.serviceName ?? "unknown",
+    undefined,
+    {
+      tailSampling: options?.tailSampling,
+      telemetryBuffer: options?.telemetryBuffer,
+      exportQueue: options?.exportQueue,
+      resourceDetectors: options?.resourceDetectors,
+    },
+  );
 
   try {
-    // Skip tracing for ignored URLs - pass a no-op span
-    if (shouldIgnoreUrl(request, options?.ignoreUrls)) {
-      const noopSpan = trace.getTracer("otel-cloudflare").startSpan("noop");
-      noopSpan.end();
-      return await handler(noopSpan);
-    }
-
-    // Extract traceparent from request headers
-    const incomingTraceparent = request.headers.get("traceparent");
-    const parentSpanContext = incomingTraceparent
-      ? spanContextFromTraceparent(incomingTraceparent)
-      : null;
-
-    const tracer = trace.getTracer("otel-cloudflare");
-    const url = new URL(request.url);
-    const spanName = `${request.method} ${url.pathname}`;
-
-    // Set up parent context
-    let parentContext = context.active();
-    if (parentSpanContext) {
-      const parentSpan = trace.wrapSpanContext(parentSpanContext);
-      parentContext = trace.setSpan(context.active(), parentSpan);
-    }
-
-    return await context.with(parentContext, () => {
-      return tracer.startActiveSpan(
-        spanName,
-        {
-          kind: SpanKind.SERVER,
-          attributes: {
-            "http.request.method": request.method,
-            "url.full": request.url,
-            "url.scheme": url.protocol.replace(":", ""),
-            "url.path": url.pathname,
-            "url.query": url.search ? url.search.slice(1) : undefined,
-            "server.address": url.hostname,
-            "server.port": url.port
-              ? parseInt(url.port, 10)
-              : url.protocol === "https:"
-                ? 443
-                : 80,
-          },
-        },
-        async (span) => {
-          // Get traceparent for response header
-          const traceparent = getTraceparent();
-          const startTime = Date.now();
-          const userAgent = request.headers.get("user-agent");
-
-          // Capture request body (truncated, only for text-based content)
-          // Note: We only capture for logging, the handler receives the original request
-          // For SvelteKit, the body is usually not consumed before resolve()
-          const requestContentType = request.headers.get("content-type");
-          const [requestBody, _requestBodyStream] = await readBodyWithTruncate(
-            request.body,
-            requestContentType,
-          );
+    // Bind this request's collectors and options so concurrent requests stay isolated
+    return await flushCtx.run(() =>
+      applyOptions(options ?? {}, () => traceHandlerInner(request, handler, options)),
+    );
+  } finally {
+    // Always flush telemetry via waitUntil (non-blocking)
+    ctx.waitUntil(flushCtx.flush());
+  }
+}
 
-          try {
-            const response = await handler(span);
-            const duration = Date.now() - startTime;
-
-            // Capture response body (truncated, only for text-based content)
-            const responseContentType = response.headers.get("content-type");
-            const [responseBody, responseBodyStream] =
-              await readBodyWithTruncate(response.body, responseContentType);
-
-            // Get response size from Content-Length header or actual body length
-            const contentLength = response.headers.get("content-length");
-            const bytes = contentLength
-              ? parseInt(contentLength, 10)
-              : responseBody.length;
-
-            // Record status code and set error status if >= 400
-            span.setAttribute("http.response.status_code", response.status);
-            if (response.status >= 400) {
-              span.setStatus({
-                code: SpanStatusCode.ERROR,
-                message: `HTTP ${response.status}`,
-              });
-            }
+/**
+ * traceHandler body, run inside the request's FlushContext
+ */
+async function traceHandlerInner(
+  request: Request,
+  handler: (span: Span) => Promise<Response>,
+  options?: TraceHandlerOptions,
+): Promise<Response> {
+  // Skip tracing for ignored URLs - pass a no-op span
+  if (shouldIgnoreUrl(request, options?.ignoreUrls)) {
+    const noopSpan = trace.getTracer("otel-cloudflare").startSpan("noop");
+    noopSpan.end();
+    return await handler(noopSpan);
+  }
 
-            span.end();
+  // Extract trace context and baggage from request headers
+  const parentContext = extractFromHeaders(request.headers);
 
-            // Log request summary with bodies
-            const logMessage = `${request.method} ${url.pathname} - ${response.status} - ${formatBytes(bytes)} - ${formatDuration(duration)}`;
-            const logAttrs: Record<string, unknown> = {};
-            if (userAgent) {
-              logAttrs.userAgent = userAgent;
-            }
-            if (requestBody) {
-              logAttrs.requestBody = requestBody;
-            }
-            if (responseBody) {
-              logAttrs.responseBody = responseBody;
-            }
-
-            if (response.status >= 400) {
-              getLogger().error(logMessage, logAttrs);
-            } else {
-              getLogger().info(logMessage, logAttrs);
-            }
-
-            // Build response with traceparent header
-            const headers = new Headers(response.headers);
-            if (traceparent) {
-              headers.set("traceparent", traceparent);
-            }
-
-            return new Response(responseBodyStream, {
-              status: response.status,
-              statusText: response.statusText,
-              headers,
-            });
-          } catch (error) {
-            const traceId = span.spanContext().traceId;
-            const duration = Date.now() - startTime;
+  const tracer = trace.getTracer("otel-cloudflare");
+  const url = new URL(request.url);
+  const route = matchRoute(request, options?.routes);
+  const spanName = `${request.method} ${route ?? url.pathname}`;
+
+  return await context.with(parentContext, () => {
+    return tracer.startActiveSpan(
+      spanName,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          "http.request.method": request.method,
+          "url.full": request.url,
+          "url.scheme": url.protocol.replace(":", ""),
+          "url.path": url.pathname,
+          "url.query": url.search ? url.search.slice(1) : undefined,
+          "http.route": route,
+          "server.address": url.hostname,
+          "server.port": url.port
+            ? parseInt(url.port, 10)
+            : url.protocol === "https:"
+              ? 443
+              : 80,
+        },
+      },
+      async (span) => {
+        // Get traceparent for response header
+        const traceparent = getTraceparent();
+        const startTime = Date.now();
+        const userAgent = request.headers.get("user-agent");
+        await captureCfAttributes(span, request, options?.captureCf);
+        span.setAttributes(
+          getHeaderAttributes(request.headers, "request", getHeaderCapturePolicy()),
+        );
 
-            // Log the error
-            getLogger().error(
-              `${request.method} ${url.pathname} - 500 - ${formatDuration(duration)}`,
-              {
-                error: (error as Error).message,
-                stack: (error as Error).stack,
-                userAgent,
-              },
-            );
+        // Capture request body (truncated, only for text-based content)
+        // Note: We only capture for logging, the handler receives the original request
+        // For SvelteKit, the body is usually not consumed before resolve()
+        const requestContentType = request.headers.get("content-type");
+        const [requestBody, _requestBodyStream] = await readBodyWithTruncate(
+          request.body,
+          requestContentType,
+          "request",
+          url,
+        );
 
-            span.recordException(error as Error);
-            span.setAttribute("http.response.status_code", 500);
+        try {
+          const response = await runWithServerSpan(span, request.method, () =>
+            handler(span),
+          );
+          const duration = Date.now() - startTime;
+
+          // Capture response body (truncated, only for text-based content)
+          const responseContentType = response.headers.get("content-type");
+          const [responseBody, responseBodyStream] =
+            await readBodyWithTruncate(response.body, responseContentType, "response", url);
+
+          // Get response size from Content-Length header or actual body length
+          const contentLength = response.headers.get("content-length");
+          const bytes = contentLength
+            ? parseInt(contentLength, 10)
+            : responseBody.length;
+
+          // Record status code and set error status if >= 400
+          span.setAttribute("http.response.status_code", response.status);
+          span.setAttributes(
+            getHeaderAttributes(response.headers, "response", getHeaderCapturePolicy()),
+          );
+          if (response.status >= 400) {
             span.setStatus({
               code: SpanStatusCode.ERROR,
-              message: (error as Error).message,
+              message: `HTTP ${response.status}`,
             });
-            span.end();
+          }
 
-            // Return error response with Request ID (trace ID)
-            const errorHeaders: Record<string, string> = {
-              "Content-Type": "text/plain",
-            };
-            if (traceparent) {
-              errorHeaders["traceparent"] = traceparent;
-            }
+          span.end();
 
-            return new Response(
-              `Internal Server Error\nRequest ID: ${traceId}`,
-              {
-                status: 500,
-                headers: errorHeaders,
-              },
-            );
+          // Log request summary with bodies
+          const logMessage = `${request.method} ${url.pathname} - ${response.status} - ${formatBytes(bytes)} - ${formatDuration(duration)}`;
+          const logAttrs: Record<string, unknown> = {};
+          if (userAgent) {
+            logAttrs.userAgent = userAgent;
           }
-        },
-      );
-    });
-  } finally {
-    // Always flush telemetry via waitUntil (non-blocking)
-    ctx.waitUntil(flushCtx.flush());
-  }
+          if (requestBody) {
+            logAttrs.requestBody = requestBody;
+          }
+          if (responseBody) {
+            logAttrs.responseBody = responseBody;
+          }
+
+          if (response.status >= 400) {
+            getLogger().error(logMessage, logAttrs);
+          } else {
+            getLogger().info(logMessage, logAttrs);
+          }
+
+          // Build response with traceparent header
+          const headers = new Headers(response.headers);
+          if (traceparent) {
+            headers.set("traceparent", traceparent);
+          }
+
+          return new Response(responseBodyStream, {
+            status: response.status,
+            statusText: response.statusText,
+            headers,
+          });
+        } catch (error) {
+          const traceId = span.spanContext().traceId;
+          const duration = Date.now() - startTime;
+
+          // Log the error
+          getLogger().error(
+            `${request.method} ${url.pathname} - 500 - ${formatDuration(duration)}`,
+            {
+              error: (error as Error).message,
+              stack: (error as Error).stack,
+              userAgent,
+            },
+          );
+
+          span.recordException(error as Error);
+          span.setAttribute("http.response.status_code", 500);
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: (error as Error).message,
+          });
+          span.end();
+
+          // Return error response with Request ID (trace ID)
+          const errorHeaders: Record<string, string> = {
+            "Content-Type": "text/plain",
+          };
+          if (traceparent) {
+            errorHeaders["traceparent"] = traceparent;
+          }
+
+          return new Response(
+            `Internal Server Error\nRequest ID: ${traceId}`,
+            {
+              status: 500,
+              headers: errorHeaders,
+            },
+          );
+        }
+      },
+    );
+  });
 }
 
 /**
@@ -690,7 +1076,7 @@ function shouldIgnoreUrl(
 function getExporterConfig(
   opts: InstrumentOptionsObject,
   env: Record<string, unknown>,
-): OTLPExporterConfig | null {
+): OTLPExporterConfig | OTLPExporterConfig[] | null {
   // Explicit disable
   if (opts.disableExport) {
     return null;
@@ -699,10 +1085,13 @@ function getExporterConfig(
   // Explicit config takes priority
   if (opts.exporter) {
     // Merge serviceName from options if not in exporter config
-    return {
-      ...opts.exporter,
-      serviceName: opts.exporter.serviceName ?? opts.serviceName,
-    };
+    const withServiceName = (exporter: OTLPExporterConfig) => ({
+      ...exporter,
+      serviceName: exporter.serviceName ?? opts.serviceName,
+    });
+    return Array.isArray(opts.exporter)
+      ? opts.exporter.map(withServiceName)
+      : withServiceName(opts.exporter);
   }
 
   // Auto-detect from env
@@ -714,12 +1103,68 @@ function getExporterConfig(
   return config;
 }
 
+/**
+ * Get flush behavior (sampling, buffering, transport) from instrument options
+ */
+function getFlushOptions(opts: InstrumentOptionsObject): InitOTLPOptions {
+  return {
+    tailSampling: opts.tailSampling,
+    telemetryBuffer: opts.telemetryBuffer,
+    // disableExport also disables the queue transport
+    exportQueue: opts.disableExport ? undefined : opts.exportQueue,
+    resourceDetectors: opts.resourceDetectors,
+  };
+}
+
+/** Propagators built from handler options, reused across invocations */
+const propagatorCache = new WeakMap<
+  Array<string | TextMapPropagator>,
+  TextMapPropagator
+>();
+
+/**
+ * Run fn with the handler's options; they take priority over env vars and
+ * apply only to this invocation, not to other handlers in the isolate
+ */
+function applyOptions<T>(
+  opts: Pick<
+    InstrumentOptionsObject,
+    | "sampler"
+    | "spanLimits"
+    | "bodyCapture"
+    | "headerCapture"
+    | "baggageAttributes"
+    | "propagators"
+  >,
+  fn: () => T,
+): T {
+  let propagator: TextMapPropagator | undefined;
+  if (opts.propagators) {
+    propagator = propagatorCache.get(opts.propagators);
+    if (!propagator) {
+      propagator = createPropagator(opts.propagators);
+      propagatorCache.set(opts.propagators, propagator);
+    }
+  }
+  return runWithSettings(
+    {
+      sampler: opts.sampler,
+      spanLimits: opts.spanLimits,
+      bodyCapture: opts.bodyCapture,
+      headerCapture: opts.headerCapture,
+      baggageAttributes: opts.baggageAttributes,
+      propagator,
+    },
+    fn,
+  );
+}
+
 /**
  * Run handler with a new span, using standard OpenTelemetry context API
  */
 function runWithSpan<T>(
   name: string,
-  kind: SpanKind,
+  options: SpanOptions,
   parentSpanContext: SpanContext | null,
   fn: () => T,
 ): T {
@@ -734,7 +1179,7 @@ function runWithSpan<T>(
 
   // Use standard OpenTelemetry API
   return context.with(parentContext, () => {
-    return tracer.startActiveSpan(name, { kind }, (span) => {
+    return tracer.startActiveSpan(name, options, (span) => {
       try {
         const result = fn();
 
@@ -785,8 +1230,9 @@ function runWithSpan<T>(
 /**
  * Wrap a Cloudflare Workers handler with automatic tracing
  *
- * - fetch: extracts traceparent from request headers, or creates root span
- * - queue: extracts traceparent from message body (_traceparent field), or creates root span
+ * - fetch: extracts trace context and baggage from request headers (see propagators), or creates root span
+ * - queue: a `queue:<name> process` span linked to every message's producer trace (_traceparent/_tracestate fields),
+ *   parented by it for single-message batches; see forEachTracedMessage for per-message spans
  * - scheduled: generates new root span for each invocation
  *
  * @example
@@ -828,6 +1274,11 @@ export function instrument<Env, QueueMessage = unknown>(
       env: Env,
       ctx: ExecutionContext,
     ): Promise<Response> => {
+      // OTEL_SDK_DISABLED=true bypasses instrumentation entirely
+      if (isSDKDisabled(env as Record<string, unknown>)) {
+        return originalFetch(request, env, ctx);
+      }
+
       const opts = resolveOptions(options, env);
 
       // Skip tracing for ignored URLs (e.g., health checks)
@@ -846,151 +1297,160 @@ export function instrument<Env, QueueMessage = unknown>(
         env as Record<string, unknown>,
         serviceName,
         exporterConfig,
+        getFlushOptions(opts),
       );
 
-      // Extract traceparent from request headers
-      const traceparent = request.headers.get("traceparent");
-      const parentSpanContext = traceparent
-        ? spanContextFromTraceparent(traceparent)
-        : null;
-
       const tracer = trace.getTracer("otel-cloudflare");
       const url = new URL(request.url);
-      const spanName = `${request.method} ${url.pathname}`;
-
-      // Set up parent context
-      let parentContext = context.active();
-      if (parentSpanContext) {
-        const parentSpan = trace.wrapSpanContext(parentSpanContext);
-        parentContext = trace.setSpan(context.active(), parentSpan);
-      }
-
-      const result = await context.with(parentContext, () => {
-        return tracer.startActiveSpan(
-          spanName,
-          {
-            kind: SpanKind.SERVER,
-            attributes: {
-              "http.request.method": request.method,
-              "url.full": request.url,
-              "url.scheme": url.protocol.replace(":", ""),
-              "url.path": url.pathname,
-              "url.query": url.search ? url.search.slice(1) : undefined,
-              "server.address": url.hostname,
-              "server.port": url.port
-                ? parseInt(url.port, 10)
-                : url.protocol === "https:"
-                  ? 443
-                  : 80,
-            },
-          },
-          async (span) => {
-            // Get traceparent for response header
-            const traceparent = getTraceparent();
-            const startTime = Date.now();
-            const userAgent = request.headers.get("user-agent");
-
-            // Capture request body (truncated, only for text-based content)
-            const requestContentType = request.headers.get("content-type");
-            const [requestBody, requestBodyStream] = await readBodyWithTruncate(
-              request.body,
-              requestContentType,
-            );
-            const tracedRequest = requestBodyStream
-              ? new Request(request, { body: requestBodyStream })
-              : request;
-
-            try {
-              const response = await originalFetch(tracedRequest, env, ctx);
-              const duration = Date.now() - startTime;
-
-              // Capture response body (truncated, only for text-based content)
-              const responseContentType = response.headers.get("content-type");
-              const [responseBody, responseBodyStream] =
-                await readBodyWithTruncate(response.body, responseContentType);
-
-              // Get response size from Content-Length header or actual body length
-              const contentLength = response.headers.get("content-length");
-              const bytes = contentLength
-                ? parseInt(contentLength, 10)
-                : responseBody.length;
-
-              // Record status code and set error status if >= 400
-              span.setAttribute("http.response.status_code", response.status);
-              if (response.status >= 400) {
-                span.setStatus({
-                  code: SpanStatusCode.ERROR,
-                  message: `HTTP ${response.status}`,
-                });
-              }
-
-              span.end();
-
-              // Log request summary with bodies
-              const logMessage = `${request.method} ${url.pathname} - ${response.status} - ${formatBytes(bytes)} - ${formatDuration(duration)}`;
-              const logAttrs: Record<string, unknown> = {};
-              if (userAgent) {
-                logAttrs.userAgent = userAgent;
-              }
-              if (requestBody) {
-                logAttrs.requestBody = requestBody;
-              }
-              if (responseBody) {
-                logAttrs.responseBody = responseBody;
-              }
-
-              if (response.status >= 400) {
-                getLogger().error(logMessage, logAttrs);
-              } else {
-                getLogger().info(logMessage, logAttrs);
-              }
-
-              // Build response with traceparent header
-              const headers = new Headers(response.headers);
-              if (traceparent) {
-                headers.set("traceparent", traceparent);
-              }
-
-              return new Response(responseBodyStream, {
-                status: response.status,
-                statusText: response.statusText,
-                headers,
-              });
-            } catch (error) {
-              const traceId = span.spanContext().traceId;
-
-              // Log the error
-              getLogger().error("Unhandled error in fetch handler", {
-                error: (error as Error).message,
-                stack: (error as Error).stack,
-              });
-
-              span.recordException(error as Error);
-              span.setAttribute("http.response.status_code", 500);
-              span.setStatus({
-                code: SpanStatusCode.ERROR,
-                message: (error as Error).message,
-              });
-              span.end();
-
-              // Return error response with Request ID (trace ID)
-              const errorHeaders: Record<string, string> = {
-                "Content-Type": "text/plain",
-              };
-              if (traceparent) {
-                errorHeaders["traceparent"] = traceparent;
-              }
-              return new Response(
-                `Internal Server Error\nRequest ID: ${traceId}`,
-                {
-                  status: 500,
-                  headers: errorHeaders,
+      const route = matchRoute(request, opts.routes);
+      const spanName = `${request.method} ${route ?? url.pathname}`;
+
+      // Bind this request's collectors and options so concurrent requests stay isolated
+      const result = await flushCtx.run(() =>
+        applyOptions(opts, () => {
+          // Extract trace context and baggage from request headers
+          const parentContext = extractFromHeaders(request.headers);
+
+          return context.with(parentContext, () => {
+            return tracer.startActiveSpan(
+              spanName,
+              {
+                kind: SpanKind.SERVER,
+                attributes: {
+                  "http.request.method": request.method,
+                  "url.full": request.url,
+                  "url.scheme": url.protocol.replace(":", ""),
+                  "url.path": url.pathname,
+                  "url.query": url.search ? url.search.slice(1) : undefined,
+                  "http.route": route,
+                  "server.address": url.hostname,
+                  "server.port": url.port
+                    ? parseInt(url.port, 10)
+                    : url.protocol === "https:"
+                      ? 443
+                      : 80,
                 },
-              );
-            }
-          },
-        );
-      });
+              },
+              async (span) => {
+                // Get traceparent for response header
+                const traceparent = getTraceparent();
+                const startTime = Date.now();
+                const userAgent = request.headers.get("user-agent");
+                await captureCfAttributes(span, request, opts.captureCf);
+                span.setAttributes(
+                  getHeaderAttributes(request.headers, "request", getHeaderCapturePolicy()),
+                );
+
+                // Capture request body (truncated, only for text-based content)
+                const requestContentType = request.headers.get("content-type");
+                const [requestBody, requestBodyStream] = await readBodyWithTruncate(
+                  request.body,
+                  requestContentType,
+                  "request",
+                  url,
+                );
+                const tracedRequest = requestBodyStream
+                  ? new Request(request, { body: requestBodyStream })
+                  : request;
+
+                try {
+                  const response = await runWithServerSpan(span, request.method, () =>
+                    originalFetch(tracedRequest, env, ctx),
+                  );
+                  const duration = Date.now() - startTime;
+
+                  // Capture response body (truncated, only for text-based content)
+                  const responseContentType = response.headers.get("content-type");
+                  const [responseBody, responseBodyStream] =
+                    await readBodyWithTruncate(response.body, responseContentType, "response", url);
+
+                  // Get response size from Content-Length header or actual body length
+                  const contentLength = response.headers.get("content-length");
+                  const bytes = contentLength
+                    ? parseInt(contentLength, 10)
+                    : responseBody.length;
+
+                  // Record status code and set error status if >= 400
+                  span.setAttribute("http.response.status_code", response.status);
+                  span.setAttributes(
+                    getHeaderAttributes(response.headers, "response", getHeaderCapturePolicy()),
+                  );
+                  if (response.status >= 400) {
+                    span.setStatus({
+                      code: SpanStatusCode.ERROR,
+                      message: `HTTP ${response.status}`,
+                    });
+                  }
+
+                  span.end();
+
+                  // Log request summary with bodies
+                  const logMessage = `${request.method} ${url.pathname} - ${response.status} - ${formatBytes(bytes)} - ${formatDuration(duration)}`;
+                  const logAttrs: Record<string, unknown> = {};
+                  if (userAgent) {
+                    logAttrs.userAgent = userAgent;
+                  }
+                  if (requestBody) {
+                    logAttrs.requestBody = requestBody;
+                  }
+                  if (responseBody) {
+                    logAttrs.responseBody = responseBody;
+                  }
+
+                  if (response.status >= 400) {
+                    getLogger().error(logMessage, logAttrs);
+                  } else {
+                    getLogger().info(logMessage, logAttrs);
+                  }
+
+                  // Build response with traceparent header
+                  const headers = new Headers(response.headers);
+                  if (traceparent) {
+                    headers.set("traceparent", traceparent);
+                  }
+
+                  return new Response(responseBodyStream, {
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers,
+                  });
+                } catch (error) {
+                  const traceId = span.spanContext().traceId;
+
+                  // Log the error
+                  getLogger().error("Unhandled error in fetch handler", {
+                    error: (error as Error).message,
+                    stack: (error as Error).stack,
+                  });
+
+                  span.recordException(error as Error);
+                  span.setAttribute("http.response.status_code", 500);
+                  span.setStatus({
+                    code: SpanStatusCode.ERROR,
+                    message: (error as Error).message,
+                  });
+                  span.end();
+
+                  // Return error response with Request ID (trace ID)
+                  const errorHeaders: Record<string, string> = {
+                    "Content-Type": "text/plain",
+                  };
+                  if (traceparent) {
+                    errorHeaders["traceparent"] = traceparent;
+                  }
+                  return new Response(
+                    `Internal Server Error\nRequest ID: ${traceId}`,
+                    {
+                      status: 500,
+                      headers: errorHeaders,
+                    },
+                  );
+                }
+              },
+            );
+          });
+        }),
+      );
 
       // Export via waitUntil (flush handles cleanup)
       ctx.waitUntil(flushCtx.flush());
@@ -1007,6 +1467,11 @@ export function instrument<Env, QueueMessage = unknown>(
       env: Env,
       ctx: ExecutionContext,
     ): Promise<void> => {
+      // OTEL_SDK_DISABLED=true bypasses instrumentation entirely
+      if (isSDKDisabled(env as Record<string, unknown>)) {
+        return originalQueue(batch, env, ctx);
+      }
+
       const opts = resolveOptions(options, env);
       const serviceName = opts.serviceName ?? "cloudflare-worker";
       const exporterConfig = getExporterConfig(
@@ -1019,23 +1484,43 @@ export function instrument<Env, QueueMessage = unknown>(
         env as Record<string, unknown>,
         serviceName,
         exporterConfig,
+        getFlushOptions(opts),
       );
 
-      // Extract trace from first message
-      const firstMessage = batch.messages[0];
-      const parentSpanContext = firstMessage
-        ? extractSpanContextFromMessage(firstMessage.body)
-        : null;
-
-      await runWithSpan(
-        `queue:${batch.queue}`,
-        SpanKind.CONSUMER,
-        parentSpanContext,
-        () => originalQueue(batch, env, ctx),
-      );
-
-      // Export via waitUntil (flush handles cleanup)
-      ctx.waitUntil(flushCtx.flush());
+      try {
+        await flushCtx.run(() =>
+          applyOptions(opts, () => {
+            // Link every message's producer trace; a single message also
+            // parents the batch span (with its baggage) so the trace continues
+            const links = getMessageLinks(batch.messages);
+            const parentContext =
+              batch.messages.length === 1
+                ? extractFromMessage(batch.messages[0].body)
+                : context.active();
+
+            return context.with(parentContext, () =>
+              runWithSpan(
+                `queue:${batch.queue} process`,
+                {
+                  kind: SpanKind.CONSUMER,
+                  links,
+                  attributes: {
+                    "messaging.system": MESSAGING_SYSTEM,
+                    "messaging.operation.type": "process",
+                    "messaging.destination.name": batch.queue,
+                    "messaging.batch.message_count": batch.messages.length,
+                  },
+                },
+                null,
+                () => originalQueue(batch, env, ctx),
+              ),
+            );
+          }),
+        );
+      } finally {
+        // Always export via waitUntil, even if the handler throws
+        ctx.waitUntil(flushCtx.flush());
+      }
     };
   }
 
@@ -1047,6 +1532,11 @@ export function instrument<Env, QueueMessage = unknown>(
       env: Env,
       ctx: ExecutionContext,
     ): Promise<void> => {
+      // OTEL_SDK_DISABLED=true bypasses instrumentation entirely
+      if (isSDKDisabled(env as Record<string, unknown>)) {
+        return originalScheduled(controller, env, ctx);
+      }
+
       const opts = resolveOptions(options, env);
       const serviceName = opts.serviceName ?? "cloudflare-worker";
       const exporterConfig = getExporterConfig(
@@ -1059,18 +1549,25 @@ export function instrument<Env, QueueMessage = unknown>(
         env as Record<string, unknown>,
         serviceName,
         exporterConfig,
+        getFlushOptions(opts),
       );
 
-      // Scheduled always gets a new root span (no parent)
-      await runWithSpan(
-        `scheduled:${controller.cron}`,
-        SpanKind.INTERNAL,
-        null,
-        () => originalScheduled(controller, env, ctx),
-      );
-
-      // Export via waitUntil (flush handles cleanup)
-      ctx.waitUntil(flushCtx.flush());
+      try {
+        // Scheduled always gets a new root span (no parent)
+        await flushCtx.run(() =>
+          applyOptions(opts, () =>
+            runWithSpan(
+              `scheduled:${controller.cron}`,
+              { kind: SpanKind.INTERNAL },
+              null,
+              () => originalScheduled(controller, env, ctx),
+            ),
+          ),
+        );
+      } finally {
+        // Always export via waitUntil, even if the handler throws
+        ctx.waitUntil(flushCtx.flush());
+      }
     };
   }
 
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ConsoleLogHandler, Logger, type LogEntry, type LogHandler } from "./logger.js";
+import { buildLogExportRequest } from "./otlp.js";
+
+function collect() {
+  const entries: LogEntry[] = [];
+  const handler: LogHandler = { handle: (entry) => entries.push(entry) };
+  return { entries, logger: new Logger({ handler }) };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("Logger structured bodies", () => {
+  it("keeps the body and serializes it as the message", () => {
+    const { entries, logger } = collect();
+
+    logger.info({ event: "order", total: 3 });
+
+    expect(entries[0].body).toEqual({ event: "order", total: 3 });
+    expect(entries[0].message).toBe('{"event":"order","total":3}');
+  });
+
+  it("does not throw on BigInts and circular references", () => {
+    const { entries, logger } = collect();
+    const order: Record<string, unknown> = { id: 10n, items: [{ sku: "a" }] };
+    order.self = order;
+
+    expect(() => logger.info(order)).not.toThrow();
+
+    expect(entries[0].message).toBe('{"id":"10","items":[{"sku":"a"}],"self":"[Circular]"}');
+    expect(entries[0].body).toBe(order);
+    const [record] = buildLogExportRequest(entries, "svc").resourceLogs[0].scopeLogs[0]
+      .logRecords;
+    expect(record.body.kvlistValue?.values).toContainEqual({
+      key: "self",
+      value: { stringValue: "[Circular]" },
+    });
+  });
+
+  it("keeps repeated non-circular references", () => {
+    const { entries, logger } = collect();
+    const address = { city: "Jakarta" };
+
+    logger.info({ billing: address, shipping: address });
+
+    expect(entries[0].message).toBe(
+      '{"billing":{"city":"Jakarta"},"shipping":{"city":"Jakarta"}}',
+    );
+  });
+
+  it("prints BigInt attributes to the console", () => {
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    new Logger({ handler: new ConsoleLogHandler() }).info("paid", { amount: 5n });
+
+    expect(JSON.parse(info.mock.calls[0][0] as string)).toMatchObject({
+      msg: "paid",
+      amount: "5",
+    });
+  });
+});
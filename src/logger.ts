@@ -1,6 +1,7 @@
 import { AsyncLocalStorage } from "node:async_hooks";
 import { trace, context } from "@opentelemetry/api";
 import { CallerInfo } from "./caller.js";
+import { getBaggageAttributes } from "./baggage.js";
 
 /** Storage for logger instance */
 const loggerStorage = new AsyncLocalStorage<Logger>();
@@ -50,22 +51,67 @@ export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal";
 export interface LogOptions {
   /** Override caller info */
   caller?: CallerInfo;
+  /** When the event occurred, if earlier than the log call (default: now) */
+  timestamp?: Date;
+  /** OTLP event name, identifies the class of event (e.g. "browser.page_view") */
+  eventName?: string;
 }
 
 export interface LogEntry {
   level: LogLevel;
+  /** Message text, JSON for structured bodies */
   message: string;
+  /** Structured body, exported as kvlistValue instead of the message */
+  body?: Record<string, unknown>;
   timestamp: Date;
+  /** When the log call happened */
+  observedTimestamp?: Date;
   attributes: Record<string, unknown>;
   traceId?: string;
   spanId?: string;
+  /** W3C trace flags of the active span */
+  traceFlags?: number;
+  /** OTLP event name */
+  eventName?: string;
+  /** Instrumentation scope name (default: "otel-cloudflare") */
+  scope?: string;
   caller?: CallerInfo;
 }
 
+/**
+ * Log message: a string, or an object exported as a structured (kvlist) body
+ */
+export type LogMessage = string | Record<string, unknown>;
+
 export interface LogHandler {
   handle(entry: LogEntry): void;
 }
 
+/**
+ * JSON.stringify that never throws on log data
+ * BigInts become strings and circular references "[Circular]", as the OTLP
+ * kvlist encoder accepts both
+ */
+function safeStringify(value: unknown): string {
+  const ancestors: unknown[] = [];
+  try {
+    return JSON.stringify(value, function (this: unknown, _key, val: unknown) {
+      if (typeof val === "bigint") return val.toString();
+      if (typeof val !== "object" || val === null) return val;
+      // Drop objects that are no longer on the path to this value
+      while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+        ancestors.pop();
+      }
+      if (ancestors.includes(val)) return "[Circular]";
+      ancestors.push(val);
+      return val;
+    });
+  } catch {
+    // e.g. a throwing toJSON()
+    return String(value);
+  }
+}
+
 /**
  * Console log handler - outputs structured JSON to console
  * Prefixes message with trace ID for easy searching in Cloudflare dashboard
@@ -94,7 +140,7 @@ export class ConsoleLogHandler implements LogHandler {
       output.caller = entry.caller.toString();
     }
 
-    const json = JSON.stringify(output);
+    const json = safeStringify(output);
 
     switch (entry.level) {
       case "trace":
@@ -160,12 +206,15 @@ export class CompositeLogHandler implements LogHandler {
   }
 }
 
-/** Active OTLP log handler for collecting logs */
+/** Isolate-wide fallback OTLP log handler */
 let activeLogHandler: OTLPLogHandler | null = null;
 
+/** Storage for the request-scoped OTLP log handler */
+const otlpHandlerStorage = new AsyncLocalStorage<OTLPLogHandler>();
+
 /**
- * Set the active OTLP log handler
- * Called internally by instrument() or can be set manually for custom setups
+ * Set the isolate-wide fallback OTLP log handler
+ * Receives logs written outside runWithOTLPLogHandler()
  */
 export function setOTLPLogHandler(handler: OTLPLogHandler | null): void {
   activeLogHandler = handler;
@@ -173,11 +222,30 @@ export function setOTLPLogHandler(handler: OTLPLogHandler | null): void {
 
 /**
  * Get the active OTLP log handler
+ * Returns the request-scoped handler if inside runWithOTLPLogHandler(),
+ * otherwise the isolate-wide fallback
  */
 export function getOTLPLogHandler(): OTLPLogHandler | null {
+  return otlpHandlerStorage.getStore() ?? activeLogHandler;
+}
+
+/**
+ * Get the isolate-wide fallback OTLP log handler, ignoring any request scope
+ */
+export function getFallbackOTLPLogHandler(): OTLPLogHandler | null {
   return activeLogHandler;
 }
 
+/**
+ * Run a function with a request-scoped OTLP log handler
+ */
+export function runWithOTLPLogHandler<T>(
+  handler: OTLPLogHandler,
+  fn: () => T,
+): T {
+  return otlpHandlerStorage.run(handler, fn);
+}
+
 /**
  * Pretty log handler - outputs human-readable colored logs for local development
  */
@@ -204,7 +272,7 @@ export class PrettyLogHandler implements LogHandler {
     // Add attributes if any
     const attrKeys = Object.keys(entry.attributes);
     if (attrKeys.length > 0) {
-      line += ` ${DIM}${JSON.stringify(entry.attributes)}${RESET}`;
+      line += ` ${DIM}${safeStringify(entry.attributes)}${RESET}`;
     }
 
     switch (entry.level) {
@@ -232,21 +300,33 @@ export class PrettyLogHandler implements LogHandler {
 export class Logger {
   private handler: LogHandler;
   private baseAttrs: Record<string, unknown>;
+  private scope?: string;
 
+  /**
+   * @param opts.scope - Instrumentation scope name, exported logs are grouped
+   *   per scope (default: "otel-cloudflare")
+   */
   constructor(
-    opts: { handler?: LogHandler; attrs?: Record<string, unknown> } = {},
+    opts: {
+      handler?: LogHandler;
+      attrs?: Record<string, unknown>;
+      scope?: string;
+    } = {},
   ) {
     this.handler = opts.handler ?? new ConsoleLogHandler();
     this.baseAttrs = opts.attrs ?? {};
+    this.scope = opts.scope;
   }
 
   /**
    * Create a child logger with additional base attributes
+   * The child keeps this logger's scope
    */
   child(attrs: Record<string, unknown>): Logger {
     return new Logger({
       handler: this.handler,
       attrs: { ...this.baseAttrs, ...attrs },
+      scope: this.scope,
     });
   }
 
@@ -259,7 +339,7 @@ export class Logger {
 
   private log(
     level: LogLevel,
-    msg: string,
+    msg: LogMessage,
     attrs?: Record<string, unknown>,
     opts?: LogOptions,
   ): void {
@@ -270,21 +350,28 @@ export class Logger {
     const span = trace.getSpan(context.active());
     const spanContext = span?.spanContext();
 
-    // Merge attributes: base -> context -> call-site
+    // Merge attributes: base -> baggage -> context -> call-site
     const contextAttrs = getAttrs();
     const mergedAttrs = {
       ...this.baseAttrs,
+      ...getBaggageAttributes(),
       ...contextAttrs,
       ...attrs,
     };
 
+    const now = new Date();
     const entry: LogEntry = {
       level,
-      message: msg,
-      timestamp: new Date(),
+      message: typeof msg === "string" ? msg : safeStringify(msg),
+      body: typeof msg === "string" ? undefined : msg,
+      timestamp: opts?.timestamp ?? now,
+      observedTimestamp: now,
       attributes: mergedAttrs,
       traceId: spanContext?.traceId,
       spanId: spanContext?.spanId,
+      traceFlags: spanContext?.traceFlags,
+      eventName: opts?.eventName,
+      scope: this.scope,
       caller,
     };
 
@@ -292,32 +379,33 @@ export class Logger {
     this.handler.handle(entry);
 
     // Also send to OTLP handler if one is active (for export)
-    if (activeLogHandler) {
-      activeLogHandler.handle(entry);
+    const otlpHandler = getOTLPLogHandler();
+    if (otlpHandler) {
+      otlpHandler.handle(entry);
     }
   }
 
-  trace(msg: string, attrs?: Record<string, unknown>, opts?: LogOptions): void {
+  trace(msg: LogMessage, attrs?: Record<string, unknown>, opts?: LogOptions): void {
     this.log("trace", msg, attrs, opts);
   }
 
-  debug(msg: string, attrs?: Record<string, unknown>, opts?: LogOptions): void {
+  debug(msg: LogMessage, attrs?: Record<string, unknown>, opts?: LogOptions): void {
     this.log("debug", msg, attrs, opts);
   }
 
-  info(msg: string, attrs?: Record<string, unknown>, opts?: LogOptions): void {
+  info(msg: LogMessage, attrs?: Record<string, unknown>, opts?: LogOptions): void {
     this.log("info", msg, attrs, opts);
   }
 
-  warn(msg: string, attrs?: Record<string, unknown>, opts?: LogOptions): void {
+  warn(msg: LogMessage, attrs?: Record<string, unknown>, opts?: LogOptions): void {
     this.log("warn", msg, attrs, opts);
   }
 
-  error(msg: string, attrs?: Record<string, unknown>, opts?: LogOptions): void {
+  error(msg: LogMessage, attrs?: Record<string, unknown>, opts?: LogOptions): void {
     this.log("error", msg, attrs, opts);
   }
 
-  fatal(msg: string, attrs?: Record<string, unknown>, opts?: LogOptions): void {
+  fatal(msg: LogMessage, attrs?: Record<string, unknown>, opts?: LogOptions): void {
     this.log("fatal", msg, attrs, opts);
   }
 }
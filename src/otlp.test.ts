@@ -0,0 +1,426 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { SpanKind } from "@opentelemetry/api";
+import {
+  exportTraces,
+  exportLogs,
+  getOTLPConfigFromEnv,
+  parseOTLPHeaders,
+  spanToOTLP,
+  logToOTLP,
+  buildLogExportRequest,
+  type ExportableSpan,
+  type OTLPExporterConfig,
+} from "./otlp.js";
+import type { LogEntry } from "./logger.js";
+
+const span: ExportableSpan = {
+  spanContext: () => ({
+    traceId: "0af7651916cd43dd8448eb211c80319c",
+    spanId: "b7ad6b7169203331",
+  }),
+  name: "span",
+  kind: SpanKind.INTERNAL,
+  startTime: 1000,
+  endTime: 1100,
+  attributes: {},
+  status: { code: 0 },
+  events: [],
+  links: [],
+};
+
+const log: LogEntry = {
+  level: "info",
+  message: "hello",
+  timestamp: new Date(1000),
+  attributes: {},
+};
+
+/** Stub fetch and record the requests it receives */
+function mockFetch(response: () => Response = () => new Response("{}")) {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return response();
+    }),
+  );
+  return calls;
+}
+
+/** Gunzip a request body */
+async function gunzip(body: BodyInit): Promise<string> {
+  const stream = new Blob([body as Uint8Array])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Response(stream).text();
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ============================================
+// Attribute Encoding
+// ============================================
+
+describe("attribute encoding", () => {
+  it("encodes arrays as arrayValue and bytes as bytesValue", () => {
+    const encoded = spanToOTLP({
+      ...span,
+      attributes: { ids: [1, 2], raw: new Uint8Array([104, 105]) } as never,
+    });
+    expect(encoded.attributes).toEqual([
+      {
+        key: "ids",
+        value: { arrayValue: { values: [{ intValue: "1" }, { intValue: "2" }] } },
+      },
+      { key: "raw", value: { bytesValue: "aGk=" } },
+    ]);
+  });
+
+  it("flattens nested log attributes by default", () => {
+    const record = logToOTLP({ ...log, attributes: { user: { id: 7 } } });
+    expect(record.attributes).toEqual([{ key: "user.id", value: { intValue: "7" } }]);
+  });
+
+  it("keeps nested log attributes as kvlistValue in structured mode", () => {
+    const record = logToOTLP(
+      { ...log, attributes: { user: { id: 7, roles: [{ name: "admin" }] } } },
+      0,
+      "structured",
+    );
+    expect(record.attributes).toEqual([
+      {
+        key: "user",
+        value: {
+          kvlistValue: {
+            values: [
+              { key: "id", value: { intValue: "7" } },
+              {
+                key: "roles",
+                value: {
+                  arrayValue: {
+                    values: [
+                      {
+                        kvlistValue: {
+                          values: [{ key: "name", value: { stringValue: "admin" } }],
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            ],
+          },
+        },
+      },
+    ]);
+  });
+
+  it("applies the exporter's attributeMode to log exports", async () => {
+    const calls = mockFetch();
+    await exportLogs(
+      { endpoint: "https://otlp.example.com", headers: {}, attributeMode: "structured" },
+      [{ ...log, attributes: { user: { id: 7 } } }],
+      "svc",
+    );
+    const body = JSON.parse(calls[0].init.body as string);
+    const [attr] = body.resourceLogs[0].scopeLogs[0].logRecords[0].attributes;
+    expect(attr.key).toBe("user");
+    expect(attr.value.kvlistValue).toBeDefined();
+  });
+});
+
+// ============================================
+// Log Records
+// ============================================
+
+describe("log record mapping", () => {
+  it("exports structured bodies as kvlistValue", () => {
+    const record = logToOTLP({ ...log, message: "{}", body: { orderId: "o-1" } });
+    expect(record.body).toEqual({
+      kvlistValue: { values: [{ key: "orderId", value: { stringValue: "o-1" } }] },
+    });
+  });
+
+  it("maps observed time, event name and trace flags", () => {
+    const record = logToOTLP({
+      ...log,
+      observedTimestamp: new Date(2000),
+      eventName: "user.signup",
+      traceFlags: 1,
+    });
+    expect(record.timeUnixNano).toBe("1000000000");
+    expect(record.observedTimeUnixNano).toBe("2000000000");
+    expect(record.eventName).toBe("user.signup");
+    expect(record.flags).toBe(1);
+  });
+
+  it("groups logs into one scopeLogs per logger scope", () => {
+    const request = buildLogExportRequest(
+      [log, { ...log, scope: "billing" }, { ...log, message: "again" }],
+      "svc",
+    );
+    const scopeLogs = request.resourceLogs[0].scopeLogs;
+    expect(scopeLogs.map((s) => s.scope.name)).toEqual(["otel-cloudflare", "billing"]);
+    expect(scopeLogs[0].logRecords).toHaveLength(2);
+    expect(scopeLogs[1].scope.version).toBeUndefined();
+  });
+});
+
+// ============================================
+// Compression
+// ============================================
+
+describe("export compression", () => {
+  const base: OTLPExporterConfig = {
+    endpoint: "https://otlp.example.com",
+    headers: { Authorization: "Basic xxx" },
+  };
+
+  it("sends uncompressed JSON by default", async () => {
+    const calls = mockFetch();
+    await exportTraces(base, [span], "svc");
+
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers["Content-Encoding"]).toBeUndefined();
+    expect(JSON.parse(calls[0].init.body as string).resourceSpans).toHaveLength(1);
+  });
+
+  it("gzips trace and log payloads when compression is gzip", async () => {
+    const calls = mockFetch();
+    const config = { ...base, compression: "gzip" as const };
+    await exportTraces(config, [span], "svc");
+    await exportLogs(config, [log], "svc");
+
+    for (const call of calls) {
+      const headers = call.init.headers as Record<string, string>;
+      expect(headers["Content-Encoding"]).toBe("gzip");
+      expect(headers["Content-Type"]).toBe("application/json");
+      expect(headers.Authorization).toBe("Basic xxx");
+    }
+    expect(JSON.parse(await gunzip(calls[0].init.body!)).resourceSpans).toHaveLength(1);
+    expect(JSON.parse(await gunzip(calls[1].init.body!)).resourceLogs).toHaveLength(1);
+  });
+});
+
+// ============================================
+// Retry
+// ============================================
+
+describe("export retry", () => {
+  const base: OTLPExporterConfig = {
+    endpoint: "https://otlp.example.com",
+    headers: {},
+    retry: { initialBackoffMs: 1, maxBackoffMs: 1 },
+  };
+
+  /** Respond with each response in order, repeating the last one */
+  function sequence(...responses: Array<() => Response>) {
+    let i = 0;
+    return () => responses[Math.min(i++, responses.length - 1)]();
+  }
+
+  it("retries retryable status codes until success", async () => {
+    const calls = mockFetch(
+      sequence(
+        () => new Response("", { status: 503 }),
+        () => new Response("", { status: 429, headers: { "Retry-After": "0" } }),
+        () => new Response("{}"),
+      ),
+    );
+
+    const result = await exportTraces(base, [span], "svc");
+
+    expect(calls).toHaveLength(3);
+    expect(result).toMatchObject({ success: true, attempts: 3, statusCode: 200 });
+  });
+
+  it("does not retry non-retryable status codes", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const calls = mockFetch(() => new Response("bad", { status: 400 }));
+
+    const result = await exportLogs(base, [log], "svc");
+
+    expect(calls).toHaveLength(1);
+    expect(result).toMatchObject({ success: false, attempts: 1, statusCode: 400 });
+    error.mockRestore();
+  });
+
+  it("gives up after maxAttempts and on network errors", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const calls = mockFetch(() => {
+      throw new TypeError("network down");
+    });
+
+    const result = await exportTraces(base, [span], "svc");
+
+    expect(calls).toHaveLength(3);
+    expect(result.success).toBe(false);
+    expect(result.errorMessage).toContain("network down");
+    error.mockRestore();
+  });
+
+  it("stops when Retry-After exceeds the time budget", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const calls = mockFetch(
+      () => new Response("", { status: 503, headers: { "Retry-After": "60" } }),
+    );
+
+    const result = await exportTraces(base, [span], "svc");
+
+    expect(calls).toHaveLength(1);
+    expect(result.success).toBe(false);
+    error.mockRestore();
+  });
+
+  it("sends once when retry is disabled", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const calls = mockFetch(() => new Response("", { status: 503 }));
+
+    await exportTraces({ ...base, retry: false }, [span], "svc");
+
+    expect(calls).toHaveLength(1);
+    error.mockRestore();
+  });
+
+  it("surfaces JSON partial success", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFetch(
+      () =>
+        new Response(
+          JSON.stringify({
+            partialSuccess: { rejectedLogRecords: "2", errorMessage: "too old" },
+          }),
+          { headers: { "Content-Type": "application/json" } },
+        ),
+    );
+
+    const result = await exportLogs(base, [log], "svc");
+
+    expect(result).toMatchObject({ success: true, rejected: 2, errorMessage: "too old" });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("surfaces protobuf partial success", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    // partial_success { rejected_spans: 3, error_message: "x" }
+    const body = new Uint8Array([0x0a, 0x05, 0x08, 0x03, 0x12, 0x01, 0x78]);
+    mockFetch(
+      () =>
+        new Response(body, {
+          headers: { "Content-Type": "application/x-protobuf" },
+        }),
+    );
+
+    const result = await exportTraces(
+      { ...base, protocol: "http/protobuf" },
+      [span],
+      "svc",
+    );
+
+    expect(result).toMatchObject({ success: true, rejected: 3, errorMessage: "x" });
+    warn.mockRestore();
+  });
+});
+
+// ============================================
+// getOTLPConfigFromEnv
+// ============================================
+
+describe("getOTLPConfigFromEnv", () => {
+  const env = {
+    OTEL_EXPORTER_OTLP_ENDPOINT: "https://otlp.example.com/",
+    OTEL_EXPORTER_OTLP_HEADERS: "Authorization=Basic xxx",
+  };
+
+  it("reads protocol and compression", () => {
+    const config = getOTLPConfigFromEnv({
+      ...env,
+      OTEL_EXPORTER_OTLP_PROTOCOL: "http/protobuf",
+      OTEL_EXPORTER_OTLP_COMPRESSION: "gzip",
+    });
+    expect(config?.endpoint).toBe("https://otlp.example.com");
+    expect(config?.protocol).toBe("http/protobuf");
+    expect(config?.compression).toBe("gzip");
+  });
+
+  it("reads per-signal endpoints and headers", () => {
+    const config = getOTLPConfigFromEnv({
+      ...env,
+      OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: "https://tempo.example.com/v1/traces",
+      OTEL_EXPORTER_OTLP_LOGS_HEADERS: "Authorization=Bearer logs",
+    });
+    expect(config?.tracesEndpoint).toBe("https://tempo.example.com/v1/traces");
+    expect(config?.logsEndpoint).toBeUndefined();
+    expect(config?.logsHeaders).toEqual({ Authorization: "Bearer logs" });
+    expect(config?.signals).toBeUndefined();
+  });
+
+  it("only exports signals with an endpoint when the base endpoint is unset", () => {
+    const config = getOTLPConfigFromEnv({
+      OTEL_EXPORTER_OTLP_LOGS_ENDPOINT: "https://loki.example.com/otlp/v1/logs",
+      OTEL_EXPORTER_OTLP_HEADERS: "Authorization=Basic xxx",
+    });
+    expect(config?.signals).toEqual(["log"]);
+    expect(config?.logsEndpoint).toBe("https://loki.example.com/otlp/v1/logs");
+  });
+
+  it("parses every header, URL-decoding keys and values", () => {
+    const config = getOTLPConfigFromEnv({
+      OTEL_EXPORTER_OTLP_ENDPOINT: "https://api.honeycomb.io",
+      OTEL_EXPORTER_OTLP_HEADERS:
+        "x-honeycomb-team=abc123, x-honeycomb-dataset=my%20dataset,Authorization=Basic%20eHh4Og==",
+    });
+    expect(config?.headers).toEqual({
+      "x-honeycomb-team": "abc123",
+      "x-honeycomb-dataset": "my dataset",
+      Authorization: "Basic eHh4Og==",
+    });
+  });
+
+  it("allows endpoints without auth headers", () => {
+    const config = getOTLPConfigFromEnv({
+      OTEL_EXPORTER_OTLP_ENDPOINT: "http://localhost:4318",
+    });
+    expect(config?.endpoint).toBe("http://localhost:4318");
+    expect(config?.headers).toEqual({});
+  });
+
+  it("falls back to Grafana credentials without an Authorization header", () => {
+    const config = getOTLPConfigFromEnv({
+      OTEL_EXPORTER_OTLP_ENDPOINT: "https://otlp-gateway.grafana.net/otlp",
+      GRAFANA_INSTANCE_ID: "123",
+      GRAFANA_OTLP_TOKEN: "token",
+    });
+    expect(config?.headers.Authorization).toBe(`Basic ${btoa("123:token")}`);
+  });
+
+  it("ignores unsupported compression values", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const config = getOTLPConfigFromEnv({
+      ...env,
+      OTEL_EXPORTER_OTLP_COMPRESSION: "brotli",
+    });
+    expect(config?.compression).toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("parseOTLPHeaders", () => {
+  it("skips malformed entries", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseOTLPHeaders("api-key=abc,broken,=nokey,bad=%E0%A4%A,,")).toEqual({
+      "api-key": "abc",
+    });
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+
+  it("returns an empty object for unset values", () => {
+    expect(parseOTLPHeaders(undefined)).toEqual({});
+  });
+});
@@ -1,32 +1,157 @@
 /**
- * OTLP/HTTP JSON Exporter for Cloudflare Workers
+ * OTLP/HTTP Exporter for Cloudflare Workers
  *
- * Implements OTLP protocol using native fetch() for exporting
- * traces and logs to Grafana Cloud or any OTLP-compatible backend.
+ * Implements OTLP protocol (JSON or protobuf) using native fetch() for
+ * exporting traces and logs to Grafana Cloud or any OTLP-compatible backend.
  */
 
-import { SpanKind, SpanStatusCode, type Attributes, type Link } from "@opentelemetry/api";
+import {
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Link,
+  type TraceState,
+} from "@opentelemetry/api";
 import type { LogEntry, LogLevel } from "./logger.js";
 import { getOriginalFetch } from "./fetch.js";
+import { getPresetConfigFromEnv } from "./presets.js";
+import { getSDKConfigFromEnv } from "./env.js";
+import { VERSION } from "./version.js";
+import {
+  encodeTraceExportRequest,
+  encodeLogExportRequest,
+  decodePartialSuccess,
+} from "./protobuf.js";
 
 // ============================================
 // Types
 // ============================================
 
+/** OTLP/HTTP payload encoding */
+export type OTLPProtocol = "http/json" | "http/protobuf";
+
+/** OTLP/HTTP payload compression */
+export type OTLPCompression = "gzip" | "none";
+
+/** Telemetry signal carried by an OTLP export */
+export type OTLPSignal = "trace" | "log";
+
+/**
+ * How nested objects in log attributes are encoded
+ * - "flatten": dot-notation keys, { a: { b: 1 } } -> { "a.b": 1 }
+ * - "structured": kept as kvlistValue
+ */
+export type OTLPAttributeMode = "flatten" | "structured";
+
 export interface OTLPExporterConfig {
+  /**
+   * Identifies the exporter, so the telemetry buffer can resolve its
+   * credentials on replay (presets use the vendor name)
+   */
+  name?: string;
   /** Base OTLP endpoint (e.g., https://otlp-gateway.grafana.net/otlp) */
   endpoint: string;
   /** Headers to send with requests (e.g., Authorization) */
   headers: Record<string, string>;
   /** Service name from OTEL_SERVICE_NAME */
   serviceName?: string;
-  /** Resource attributes from OTEL_RESOURCE_ATTRIBUTES */
-  resourceAttributes?: Record<string, string>;
+  /**
+   * Resource attributes from OTEL_RESOURCE_ATTRIBUTES, override detected ones
+   * (see resourceDetectors)
+   */
+  resourceAttributes?: Attributes;
+  /** Payload encoding from OTEL_EXPORTER_OTLP_PROTOCOL (default: "http/json") */
+  protocol?: OTLPProtocol;
+  /** Payload compression from OTEL_EXPORTER_OTLP_COMPRESSION (default: "none") */
+  compression?: OTLPCompression;
+  /**
+   * Retry policy for retryable failures (429, 502, 503, 504, network errors)
+   * Pass false to send each export once. Defaults to 3 attempts within 10s.
+   */
+  retry?: OTLPRetryConfig | false;
+  /**
+   * Full traces URL from OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, used as-is
+   * (default: `${endpoint}/v1/traces`)
+   */
+  tracesEndpoint?: string;
+  /**
+   * Full logs URL from OTEL_EXPORTER_OTLP_LOGS_ENDPOINT, used as-is
+   * (default: `${endpoint}/v1/logs`)
+   */
+  logsEndpoint?: string;
+  /** Extra headers for trace exports, override `headers` */
+  tracesHeaders?: Record<string, string>;
+  /** Extra headers for log exports, override `headers` */
+  logsHeaders?: Record<string, string>;
+  /** Signals sent to this exporter (default: all) */
+  signals?: OTLPSignal[];
+  /** Only spans matching this predicate are sent to this exporter */
+  spanFilter?: (span: ExportableSpan) => boolean;
+  /** Only logs matching this predicate are sent to this exporter */
+  logFilter?: (log: LogEntry) => boolean;
+  /** Timeout per export attempt from OTEL_EXPORTER_OTLP_TIMEOUT (default: 10000) */
+  timeoutMs?: number;
+  /**
+   * Encoding of nested objects in log attributes (default: "flatten")
+   * Span attributes are always flattened, as the spec only allows
+   * primitives and arrays there.
+   */
+  attributeMode?: OTLPAttributeMode;
+}
+
+/**
+ * Retry policy for OTLP exports
+ * The time budget should fit inside ctx.waitUntil (30s after the response)
+ */
+export interface OTLPRetryConfig {
+  /** Maximum number of attempts, including the first (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each attempt (default: 500) */
+  initialBackoffMs?: number;
+  /** Upper bound for a single backoff delay (default: 5000) */
+  maxBackoffMs?: number;
+  /** Give up when the next attempt would start after this budget (default: 10000) */
+  timeBudgetMs?: number;
+}
+
+/**
+ * Outcome of an OTLP export
+ */
+export interface ExportResult {
+  /** Whether the collector accepted the request (possibly partially) */
+  success: boolean;
+  /** Number of HTTP attempts made */
+  attempts: number;
+  /** HTTP status of the last attempt, if any response was received */
+  statusCode?: number;
+  /** Rejected spans or log records reported by a partial success response */
+  rejected?: number;
+  /** Error message from the collector or the last failure */
+  errorMessage?: string;
+  /**
+   * The serialized request, set when the export failed with a retryable
+   * error so it can be deferred (e.g. to TelemetryBufferDurableObject)
+   */
+  request?: SerializedExportRequest;
+}
+
+/**
+ * A fully serialized OTLP export request, ready to be (re)sent
+ */
+export interface SerializedExportRequest {
+  signal: OTLPSignal;
+  /** Full URL including the /v1/traces or /v1/logs path */
+  url: string;
+  /** Content-Type, Content-Encoding and exporter headers */
+  headers: Record<string, string>;
+  body: string | Uint8Array;
+  /** Name of the exporter the request was built for, if it has one */
+  exporter?: string;
 }
 
 /** Span data needed for OTLP export */
 export interface ExportableSpan {
-  spanContext(): { traceId: string; spanId: string };
+  spanContext(): { traceId: string; spanId: string; traceState?: TraceState };
   name: string;
   kind: SpanKind;
   parentSpanId?: string;
@@ -34,28 +159,40 @@ export interface ExportableSpan {
   endTime?: number;
   attributes: Attributes;
   status: { code: number; message?: string };
-  events: Array<{ name: string; timestamp: number; attributes?: Attributes }>;
+  events: Array<{
+    name: string;
+    timestamp: number;
+    attributes?: Attributes;
+    droppedAttributesCount?: number;
+  }>;
   links: Link[];
+  /** Counts of data dropped by span limits */
+  droppedAttributesCount?: number;
+  droppedEventsCount?: number;
+  droppedLinksCount?: number;
 }
 
-// OTLP JSON types
-interface OTLPKeyValue {
+// OTLP JSON types (also the input of the protobuf encoder)
+export interface OTLPKeyValue {
   key: string;
   value: OTLPAnyValue;
 }
 
-interface OTLPAnyValue {
+export interface OTLPAnyValue {
   stringValue?: string;
   intValue?: string;
   doubleValue?: number;
   boolValue?: boolean;
   arrayValue?: { values: OTLPAnyValue[] };
   kvlistValue?: { values: OTLPKeyValue[] };
+  /** Base64 encoded, as in the OTLP JSON mapping */
+  bytesValue?: string;
 }
 
-interface OTLPSpan {
+export interface OTLPSpan {
   traceId: string;
   spanId: string;
+  traceState?: string;
   parentSpanId?: string;
   name: string;
   kind: number;
@@ -70,37 +207,42 @@ interface OTLPSpan {
   status: OTLPStatus;
 }
 
-interface OTLPEvent {
+export interface OTLPEvent {
   timeUnixNano: string;
   name: string;
   attributes: OTLPKeyValue[];
   droppedAttributesCount: number;
 }
 
-interface OTLPLink {
+export interface OTLPLink {
   traceId: string;
   spanId: string;
+  traceState?: string;
   attributes: OTLPKeyValue[];
   droppedAttributesCount: number;
 }
 
-interface OTLPStatus {
+export interface OTLPStatus {
   code: number;
   message?: string;
 }
 
-interface OTLPLogRecord {
+export interface OTLPLogRecord {
   timeUnixNano: string;
+  observedTimeUnixNano?: string;
   severityNumber: number;
   severityText: string;
   body: OTLPAnyValue;
   attributes: OTLPKeyValue[];
   droppedAttributesCount: number;
+  /** Lower 8 bits are the W3C trace flags */
+  flags?: number;
   traceId?: string;
   spanId?: string;
+  eventName?: string;
 }
 
-interface ExportTraceServiceRequest {
+export interface ExportTraceServiceRequest {
   resourceSpans: Array<{
     resource: { attributes: OTLPKeyValue[] };
     scopeSpans: Array<{
@@ -110,7 +252,7 @@ interface ExportTraceServiceRequest {
   }>;
 }
 
-interface ExportLogsServiceRequest {
+export interface ExportLogsServiceRequest {
   resourceLogs: Array<{
     resource: { attributes: OTLPKeyValue[] };
     scopeLogs: Array<{
@@ -179,6 +321,17 @@ function logLevelToSeverity(level: LogLevel): number {
   }
 }
 
+/** Whether a value is a plain nested object (not an array, date or bytes) */
+function isNestedObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof Uint8Array)
+  );
+}
+
 /**
  * Flatten nested objects to dot-notation keys
  * { request: { body: "..." } } -> { "request.body": "..." }
@@ -193,14 +346,9 @@ function flattenAttributes(
   for (const [key, value] of Object.entries(obj)) {
     const newKey = prefix ? `${prefix}.${key}` : key;
 
-    if (
-      value !== null &&
-      typeof value === "object" &&
-      !Array.isArray(value) &&
-      !(value instanceof Date)
-    ) {
+    if (isNestedObject(value)) {
       // Recursively flatten nested objects
-      Object.assign(result, flattenAttributes(value as Record<string, unknown>, newKey));
+      Object.assign(result, flattenAttributes(value, newKey));
     } else {
       result[newKey] = value;
     }
@@ -209,8 +357,26 @@ function flattenAttributes(
   return result;
 }
 
-/** Convert a value to OTLP AnyValue */
-function toOTLPValue(value: unknown): OTLPAnyValue {
+/** Encode bytes as base64, the OTLP JSON form of bytesValue */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) {
+    binary += String.fromCharCode(b);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Convert a value to OTLP AnyValue
+ * Nested objects become kvlistValue in structured mode and a JSON string
+ * otherwise (attributes are flattened first, so this only affects objects
+ * inside arrays). Circular references become "[Circular]".
+ */
+function toOTLPValue(
+  value: unknown,
+  structured = false,
+  ancestors: object[] = [],
+): OTLPAnyValue {
   if (value === null || value === undefined) {
     return { stringValue: "" };
   }
@@ -226,28 +392,51 @@ function toOTLPValue(value: unknown): OTLPAnyValue {
   if (typeof value === "boolean") {
     return { boolValue: value };
   }
+  if (typeof value === "bigint") {
+    return { intValue: value.toString() };
+  }
+  if (typeof value === "object" && ancestors.includes(value)) {
+    return { stringValue: "[Circular]" };
+  }
   if (Array.isArray(value)) {
-    // Convert arrays to JSON string for better compatibility
-    return { stringValue: JSON.stringify(value) };
+    const path = [...ancestors, value];
+    return {
+      arrayValue: { values: value.map((item) => toOTLPValue(item, structured, path)) },
+    };
+  }
+  if (value instanceof Uint8Array) {
+    return { bytesValue: bytesToBase64(value) };
   }
   if (value instanceof Date) {
     return { stringValue: value.toISOString() };
   }
-  // Objects should already be flattened, but handle edge cases
   if (typeof value === "object") {
+    if (structured) {
+      const values = attributesToOTLP(value as Record<string, unknown>, "structured", [
+        ...ancestors,
+        value,
+      ]);
+      return { kvlistValue: { values } };
+    }
     return { stringValue: JSON.stringify(value) };
   }
   return { stringValue: String(value) };
 }
 
-/** Convert attributes to OTLP KeyValue array with flattening */
-function attributesToOTLP(attrs: Attributes | Record<string, unknown>): OTLPKeyValue[] {
-  // Flatten nested objects to dot-notation
-  const flattened = flattenAttributes(attrs as Record<string, unknown>);
+/** Convert attributes to OTLP KeyValue array, flattening unless structured */
+function attributesToOTLP(
+  attrs: Attributes | Record<string, unknown>,
+  mode: OTLPAttributeMode = "flatten",
+  ancestors: object[] = [],
+): OTLPKeyValue[] {
+  const structured = mode === "structured";
+  const entries = structured
+    ? (attrs as Record<string, unknown>)
+    : flattenAttributes(attrs as Record<string, unknown>);
 
-  return Object.entries(flattened).map(([key, value]) => ({
+  return Object.entries(entries).map(([key, value]) => ({
     key,
-    value: toOTLPValue(value),
+    value: toOTLPValue(value, structured, ancestors),
   }));
 }
 
@@ -262,27 +451,29 @@ export function spanToOTLP(span: ExportableSpan): OTLPSpan {
   return {
     traceId: ctx.traceId,
     spanId: ctx.spanId,
+    traceState: ctx.traceState?.serialize() || undefined,
     parentSpanId: span.parentSpanId,
     name: span.name,
     kind: spanKindToOTLP(span.kind),
     startTimeUnixNano: msToNanoString(span.startTime),
     endTimeUnixNano: msToNanoString(span.endTime ?? Date.now()),
     attributes: attributesToOTLP(span.attributes),
-    droppedAttributesCount: 0,
+    droppedAttributesCount: span.droppedAttributesCount ?? 0,
     events: span.events.map((e) => ({
       timeUnixNano: msToNanoString(e.timestamp),
       name: e.name,
       attributes: attributesToOTLP(e.attributes ?? {}),
-      droppedAttributesCount: 0,
+      droppedAttributesCount: e.droppedAttributesCount ?? 0,
     })),
-    droppedEventsCount: 0,
+    droppedEventsCount: span.droppedEventsCount ?? 0,
     links: span.links.map((l) => ({
       traceId: l.context.traceId,
       spanId: l.context.spanId,
+      traceState: l.context.traceState?.serialize() || undefined,
       attributes: attributesToOTLP(l.attributes ?? {}),
-      droppedAttributesCount: 0,
+      droppedAttributesCount: l.droppedAttributesCount ?? 0,
     })),
-    droppedLinksCount: 0,
+    droppedLinksCount: span.droppedLinksCount ?? 0,
     status: {
       code: statusCodeToOTLP(span.status.code),
       message: span.status.message,
@@ -290,31 +481,44 @@ export function spanToOTLP(span: ExportableSpan): OTLPSpan {
   };
 }
 
-/** Build ExportTraceServiceRequest */
-export function buildTraceExportRequest(
-  spans: ExportableSpan[],
-  serviceName: string,
-  resourceAttributes?: Record<string, string>,
-  version = "5.3.0",
-): ExportTraceServiceRequest {
+/** Default instrumentation scope for spans and logs */
+const DEFAULT_SCOPE = "otel-cloudflare";
+
+/**
+ * Convert resource attributes (detected and OTEL_RESOURCE_ATTRIBUTES) to OTLP
+ * The service name always wins over a service.name attribute
+ */
+function resourceToOTLP(serviceName: string, resourceAttributes?: Attributes): OTLPKeyValue[] {
   const attrs: OTLPKeyValue[] = [
     { key: "service.name", value: { stringValue: serviceName } },
   ];
 
-  // Add resource attributes from OTEL_RESOURCE_ATTRIBUTES
   if (resourceAttributes) {
     for (const [key, value] of Object.entries(resourceAttributes)) {
-      attrs.push({ key, value: { stringValue: value } });
+      if (key === "service.name" || value === undefined) continue;
+      attrs.push({ key, value: toOTLPValue(value) });
     }
   }
 
+  return attrs;
+}
+
+/** Build ExportTraceServiceRequest */
+export function buildTraceExportRequest(
+  spans: ExportableSpan[],
+  serviceName: string,
+  resourceAttributes?: Attributes,
+  version = VERSION,
+): ExportTraceServiceRequest {
+  const attrs = resourceToOTLP(serviceName, resourceAttributes);
+
   return {
     resourceSpans: [
       {
         resource: { attributes: attrs },
         scopeSpans: [
           {
-            scope: { name: "otel-cloudflare", version },
+            scope: { name: DEFAULT_SCOPE, version },
             spans: spans.map(spanToOTLP),
           },
         ],
@@ -337,8 +541,12 @@ function msToNanoStringWithOffset(ms: number, offsetMicros: number = 0): string
 }
 
 /** Convert a log entry to OTLP format */
-export function logToOTLP(entry: LogEntry, offsetMicros: number = 0): OTLPLogRecord {
-  const attrs = attributesToOTLP(entry.attributes);
+export function logToOTLP(
+  entry: LogEntry,
+  offsetMicros: number = 0,
+  attributeMode: OTLPAttributeMode = "flatten",
+): OTLPLogRecord {
+  const attrs = attributesToOTLP(entry.attributes, attributeMode);
 
   // Add caller info as attribute if present
   if (entry.caller && !entry.caller.isEmpty()) {
@@ -363,45 +571,57 @@ export function logToOTLP(entry: LogEntry, offsetMicros: number = 0): OTLPLogRec
   return {
     // Add microsecond offset to preserve log ordering
     timeUnixNano: msToNanoStringWithOffset(entry.timestamp.getTime(), offsetMicros),
+    observedTimeUnixNano: msToNanoStringWithOffset(
+      (entry.observedTimestamp ?? entry.timestamp).getTime(),
+      offsetMicros,
+    ),
     severityNumber: logLevelToSeverity(entry.level),
     severityText: entry.level.toUpperCase(),
-    body: { stringValue: entry.message },
+    // Structured bodies are always kept as kvlistValue
+    body: entry.body ? toOTLPValue(entry.body, true) : { stringValue: entry.message },
     attributes: attrs,
     droppedAttributesCount: 0,
+    flags: entry.traceFlags,
     traceId: entry.traceId,
     spanId: entry.spanId,
+    eventName: entry.eventName,
   };
 }
 
-/** Build ExportLogsServiceRequest */
+/**
+ * Build ExportLogsServiceRequest
+ * Logs are grouped into one scopeLogs per logger scope
+ */
 export function buildLogExportRequest(
   logs: LogEntry[],
   serviceName: string,
-  resourceAttributes?: Record<string, string>,
-  version = "5.3.0",
+  resourceAttributes?: Attributes,
+  version = VERSION,
+  attributeMode: OTLPAttributeMode = "flatten",
 ): ExportLogsServiceRequest {
-  const attrs: OTLPKeyValue[] = [
-    { key: "service.name", value: { stringValue: serviceName } },
-  ];
+  const attrs = resourceToOTLP(serviceName, resourceAttributes);
 
-  // Add resource attributes from OTEL_RESOURCE_ATTRIBUTES
-  if (resourceAttributes) {
-    for (const [key, value] of Object.entries(resourceAttributes)) {
-      attrs.push({ key, value: { stringValue: value } });
+  const scopes = new Map<string, OTLPLogRecord[]>();
+  logs.forEach((log, index) => {
+    const scope = log.scope ?? DEFAULT_SCOPE;
+    let records = scopes.get(scope);
+    if (!records) {
+      records = [];
+      scopes.set(scope, records);
     }
-  }
+    // Add 1 microsecond offset per log entry to preserve ordering
+    records.push(logToOTLP(log, index, attributeMode));
+  });
 
   return {
     resourceLogs: [
       {
         resource: { attributes: attrs },
-        scopeLogs: [
-          {
-            scope: { name: "otel-cloudflare", version },
-            // Add 1 microsecond offset per log entry to preserve ordering
-            logRecords: logs.map((log, index) => logToOTLP(log, index)),
-          },
-        ],
+        scopeLogs: [...scopes].map(([name, logRecords]) => ({
+          // Only the library's own scope carries its version
+          scope: name === DEFAULT_SCOPE ? { name, version } : { name },
+          logRecords,
+        })),
       },
     ],
   };
@@ -411,85 +631,349 @@ export function buildLogExportRequest(
 // Export Functions
 // ============================================
 
+/**
+ * Gzip a payload using the Workers-native CompressionStream
+ */
+async function gzip(data: string | Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Serialize an export request according to the configured protocol,
+ * compressing it if configured
+ * Returns the request body and the headers describing it
+ */
+async function serializeExportRequest<T>(
+  config: OTLPExporterConfig,
+  request: T,
+  encodeProtobuf: (request: T) => Uint8Array,
+): Promise<{ body: string | Uint8Array; headers: Record<string, string> }> {
+  const isProtobuf = config.protocol === "http/protobuf";
+  const payload = isProtobuf ? encodeProtobuf(request) : JSON.stringify(request);
+  const headers: Record<string, string> = {
+    "Content-Type": isProtobuf ? "application/x-protobuf" : "application/json",
+  };
+
+  if (config.compression === "gzip") {
+    headers["Content-Encoding"] = "gzip";
+    return { body: await gzip(payload), headers };
+  }
+  return { body: payload, headers };
+}
+
+/** HTTP status codes the OTLP spec marks as retryable */
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+
+/** Default timeout per export attempt, as in OTEL_EXPORTER_OTLP_TIMEOUT */
+const DEFAULT_EXPORT_TIMEOUT_MS = 10_000;
+
+const DEFAULT_RETRY: Required<OTLPRetryConfig> = {
+  maxAttempts: 3,
+  initialBackoffMs: 500,
+  maxBackoffMs: 5000,
+  timeBudgetMs: 10_000,
+};
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) to milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Exponential backoff with jitter for the given attempt (1-based)
+ */
+function backoffDelay(attempt: number, retry: Required<OTLPRetryConfig>): number {
+  const base = Math.min(
+    retry.maxBackoffMs,
+    retry.initialBackoffMs * 2 ** (attempt - 1),
+  );
+  // Jitter between 50% and 100% of the base delay
+  return base * (0.5 + Math.random() / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse the partial success part of an export response
+ * Handles both JSON and protobuf response bodies
+ */
+async function parsePartialSuccess(
+  response: Response,
+  rejectedField: "rejectedSpans" | "rejectedLogRecords",
+): Promise<{ rejected: number; errorMessage?: string } | undefined> {
+  try {
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("protobuf")) {
+      const partial = decodePartialSuccess(
+        new Uint8Array(await response.arrayBuffer()),
+      );
+      return partial.rejected > 0 || partial.errorMessage ? partial : undefined;
+    }
+
+    const text = await response.text();
+    if (!text) return undefined;
+    const partial = (JSON.parse(text) as {
+      partialSuccess?: Record<string, string | number | undefined>;
+    }).partialSuccess;
+    if (!partial) return undefined;
+
+    const rejected = Number(partial[rejectedField] ?? 0);
+    const errorMessage = partial.errorMessage as string | undefined;
+    return rejected > 0 || errorMessage ? { rejected, errorMessage } : undefined;
+  } catch {
+    // Unparseable bodies are treated as full success
+    return undefined;
+  }
+}
+
+/**
+ * POST a serialized export request, retrying retryable failures within the
+ * time budget
+ * Never throws - failures are logged to console and reported in the result
+ */
+export async function sendExportRequest(
+  request: SerializedExportRequest,
+  retryConfig?: OTLPRetryConfig | false,
+  timeoutMs = DEFAULT_EXPORT_TIMEOUT_MS,
+): Promise<ExportResult> {
+  const { signal, url, headers, body } = request;
+  const retry =
+    retryConfig === false
+      ? { ...DEFAULT_RETRY, maxAttempts: 1 }
+      : { ...DEFAULT_RETRY, ...retryConfig };
+  const deadline = Date.now() + retry.timeBudgetMs;
+
+  // Use original fetch to avoid infinite recursion when global fetch is patched
+  const fetchFn = getOriginalFetch() ?? globalThis.fetch;
+
+  let attempt = 0;
+  while (true) {
+    attempt++;
+    let retryAfterMs: number | undefined;
+    let failure: string;
+    let statusCode: number | undefined;
+
+    try {
+      const response = await fetchFn(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      statusCode = response.status;
+
+      if (response.ok) {
+        const partial = await parsePartialSuccess(
+          response,
+          signal === "trace" ? "rejectedSpans" : "rejectedLogRecords",
+        );
+        if (partial) {
+          console.warn(
+            `[otel-cloudflare] OTLP ${signal} export partially rejected: ${partial.rejected} rejected`,
+            partial.errorMessage ?? "",
+          );
+        }
+        return {
+          success: true,
+          attempts: attempt,
+          statusCode,
+          rejected: partial?.rejected,
+          errorMessage: partial?.errorMessage,
+        };
+      }
+
+      const text = await response.text().catch(() => "");
+      failure = `${response.status} ${response.statusText} ${text}`.trim();
+
+      if (!RETRYABLE_STATUS_CODES.includes(response.status)) {
+        console.error(
+          `[otel-cloudflare] OTLP ${signal} export failed: ${failure}`,
+        );
+        return {
+          success: false,
+          attempts: attempt,
+          statusCode,
+          errorMessage: failure,
+        };
+      }
+      retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+    } catch (error) {
+      // Network errors are retryable
+      failure = String(error);
+    }
+
+    const delay = retryAfterMs ?? backoffDelay(attempt, retry);
+    if (attempt >= retry.maxAttempts || Date.now() + delay > deadline) {
+      console.error(
+        `[otel-cloudflare] OTLP ${signal} export failed after ${attempt} attempt(s): ${failure}`,
+      );
+      return {
+        success: false,
+        attempts: attempt,
+        statusCode,
+        errorMessage: failure,
+        request,
+      };
+    }
+    await sleep(delay);
+  }
+}
+
+/** Normalize a single exporter or a list of exporters to a list */
+export function toExporterList(
+  config: OTLPExporterConfig | OTLPExporterConfig[] | null,
+): OTLPExporterConfig[] {
+  if (!config) return [];
+  return Array.isArray(config) ? config : [config];
+}
+
+/**
+ * Full export URL of an exporter for a signal
+ */
+export function getExportUrl(config: OTLPExporterConfig, signal: OTLPSignal): string {
+  return signal === "trace"
+    ? (config.tracesEndpoint ?? `${config.endpoint}/v1/traces`)
+    : (config.logsEndpoint ?? `${config.endpoint}/v1/logs`);
+}
+
+/**
+ * Exporter headers (e.g. Authorization) for a signal, per-signal ones win
+ */
+export function getExporterHeaders(
+  config: OTLPExporterConfig,
+  signal: OTLPSignal,
+): Record<string, string> {
+  return {
+    ...config.headers,
+    ...(signal === "trace" ? config.tracesHeaders : config.logsHeaders),
+  };
+}
+
 /**
  * Export traces to OTLP endpoint
  * Uses originalFetch if available to avoid tracing the export request itself
+ * Never throws - the outcome is returned as an ExportResult
  */
 export async function exportTraces(
   config: OTLPExporterConfig,
   spans: ExportableSpan[],
   serviceName: string,
-): Promise<void> {
-  if (spans.length === 0) return;
+): Promise<ExportResult> {
+  if (config.spanFilter) {
+    spans = spans.filter(config.spanFilter);
+  }
+  if (spans.length === 0) return { success: true, attempts: 0 };
 
-  const url = `${config.endpoint}/v1/traces`;
-  const body = buildTraceExportRequest(
+  const request = buildTraceExportRequest(
     spans,
     config.serviceName ?? serviceName,
     config.resourceAttributes,
   );
+  return exportTraceRequest(config, request);
+}
 
-  // Use original fetch to avoid infinite recursion when global fetch is patched
-  const fetchFn = getOriginalFetch() ?? globalThis.fetch;
+/**
+ * Export an already built trace request to OTLP endpoint
+ * Never throws - the outcome is returned as an ExportResult
+ */
+export async function exportTraceRequest(
+  config: OTLPExporterConfig,
+  request: ExportTraceServiceRequest,
+): Promise<ExportResult> {
+  if (config.signals && !config.signals.includes("trace")) {
+    return { success: true, attempts: 0 };
+  }
 
-  try {
-    const response = await fetchFn(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...config.headers,
-      },
-      body: JSON.stringify(body),
-    });
+  const { body, headers } = await serializeExportRequest(
+    config,
+    request,
+    encodeTraceExportRequest,
+  );
 
-    if (!response.ok) {
-      console.error(
-        `OTLP trace export failed: ${response.status} ${response.statusText}`,
-      );
-    }
-  } catch (error) {
-    console.error("OTLP trace export error:", error);
-  }
+  return sendExportRequest(
+    {
+      signal: "trace",
+      url: getExportUrl(config, "trace"),
+      headers: { ...headers, ...getExporterHeaders(config, "trace") },
+      body,
+      exporter: config.name,
+    },
+    config.retry,
+    config.timeoutMs,
+  );
 }
 
 /**
  * Export logs to OTLP endpoint
  * Uses originalFetch if available to avoid tracing the export request itself
+ * Never throws - the outcome is returned as an ExportResult
  */
 export async function exportLogs(
   config: OTLPExporterConfig,
   logs: LogEntry[],
   serviceName: string,
-): Promise<void> {
-  if (logs.length === 0) return;
+): Promise<ExportResult> {
+  if (config.logFilter) {
+    logs = logs.filter(config.logFilter);
+  }
+  if (logs.length === 0) return { success: true, attempts: 0 };
 
-  const url = `${config.endpoint}/v1/logs`;
   const effectiveServiceName = config.serviceName ?? serviceName;
-  const body = buildLogExportRequest(logs, effectiveServiceName, config.resourceAttributes);
+  const request = buildLogExportRequest(
+    logs,
+    effectiveServiceName,
+    config.resourceAttributes,
+    undefined,
+    config.attributeMode,
+  );
+  return exportLogRequest(config, request);
+}
 
-  // Use original fetch to avoid infinite recursion when global fetch is patched
-  const fetchFn = getOriginalFetch() ?? globalThis.fetch;
+/**
+ * Export an already built log request to OTLP endpoint
+ * Never throws - the outcome is returned as an ExportResult
+ */
+export async function exportLogRequest(
+  config: OTLPExporterConfig,
+  request: ExportLogsServiceRequest,
+): Promise<ExportResult> {
+  if (config.signals && !config.signals.includes("log")) {
+    return { success: true, attempts: 0 };
+  }
 
-  try {
-    const response = await fetchFn(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...config.headers,
-      },
-      body: JSON.stringify(body),
-    });
+  const { body, headers } = await serializeExportRequest(
+    config,
+    request,
+    encodeLogExportRequest,
+  );
 
-    if (!response.ok) {
-      const text = await response.text();
-      console.error(
-        `[otel-cloudflare] OTLP log export failed: ${response.status} ${response.statusText}`,
-        text,
-      );
-    }
-  } catch (error) {
-    console.error("[otel-cloudflare] OTLP log export error:", error);
-  }
+  return sendExportRequest(
+    {
+      signal: "log",
+      url: getExportUrl(config, "log"),
+      headers: { ...headers, ...getExporterHeaders(config, "log") },
+      body,
+      exporter: config.name,
+    },
+    config.retry,
+    config.timeoutMs,
+  );
 }
 
 // ============================================
@@ -515,56 +999,179 @@ function parseResourceAttributes(
   return result;
 }
 
+/**
+ * Parse OTEL_EXPORTER_OTLP_PROTOCOL env var
+ * Only the HTTP protocols are supported; gRPC falls back to JSON
+ */
+function parseProtocol(protocol: string | undefined): OTLPProtocol | undefined {
+  if (!protocol) return undefined;
+  const value = protocol.trim().toLowerCase();
+  if (value === "http/protobuf" || value === "http/json") {
+    return value;
+  }
+  console.warn(
+    `[otel-cloudflare] unsupported OTEL_EXPORTER_OTLP_PROTOCOL "${protocol}", using http/json`,
+  );
+  return undefined;
+}
+
+/**
+ * Parse OTEL_EXPORTER_OTLP_COMPRESSION env var
+ */
+function parseCompression(
+  compression: string | undefined,
+): OTLPCompression | undefined {
+  if (!compression) return undefined;
+  const value = compression.trim().toLowerCase();
+  if (value === "gzip" || value === "none") {
+    return value;
+  }
+  console.warn(
+    `[otel-cloudflare] unsupported OTEL_EXPORTER_OTLP_COMPRESSION "${compression}", using none`,
+  );
+  return undefined;
+}
+
+/**
+ * Parse an OTLP headers env var (OTEL_EXPORTER_OTLP_HEADERS and per-signal variants)
+ * Format: "key1=value1,key2=value2" with URL-encoded keys and values
+ */
+export function parseOTLPHeaders(
+  headersEnv: string | undefined,
+): Record<string, string> {
+  if (!headersEnv) return {};
+
+  const result: Record<string, string> = {};
+  for (const pair of headersEnv.split(",")) {
+    if (!pair.trim()) continue;
+
+    const separator = pair.indexOf("=");
+    if (separator <= 0) {
+      console.warn(`[otel-cloudflare] invalid OTLP header "${pair.trim()}", skipped`);
+      continue;
+    }
+
+    try {
+      const key = decodeURIComponent(pair.slice(0, separator).trim());
+      const value = decodeURIComponent(pair.slice(separator + 1).trim());
+      if (key) result[key] = value;
+    } catch {
+      console.warn(`[otel-cloudflare] invalid OTLP header "${pair.trim()}", skipped`);
+    }
+  }
+  return result;
+}
+
 /**
  * Get OTLP config from environment variables
- * Returns null if OTLP is not configured
+ * Returns null if no OTLP endpoint is configured, OTEL_SDK_DISABLED is true,
+ * or OTEL_TRACES_EXPORTER / OTEL_LOGS_EXPORTER select no OTLP signal
+ *
+ * OTEL_EXPORTER_OTLP_TRACES_ENDPOINT / OTEL_EXPORTER_OTLP_LOGS_ENDPOINT and
+ * OTEL_EXPORTER_OTLP_TRACES_HEADERS / OTEL_EXPORTER_OTLP_LOGS_HEADERS
+ * override the shared variables per signal. When only per-signal endpoints
+ * are set, the other signal is not exported. Endpoints without any auth
+ * header (e.g. a local collector) are allowed. Without any OTLP endpoint,
+ * vendor env vars are detected via getPresetConfigFromEnv.
  */
 export function getOTLPConfigFromEnv(
   env: Record<string, unknown>,
+): OTLPExporterConfig | null {
+  const sdk = getSDKConfigFromEnv(env);
+  if (sdk.disabled) return null;
+
+  const config = detectOTLPConfig(env);
+  if (!config) return null;
+
+  // OTEL_TRACES_EXPORTER / OTEL_LOGS_EXPORTER decide which signals use OTLP
+  const available = config.signals ?? (["trace", "log"] as OTLPSignal[]);
+  const signals = available.filter((signal) =>
+    (signal === "trace" ? sdk.tracesExporters : sdk.logsExporters).includes("otlp"),
+  );
+  if (signals.length === 0) return null;
+
+  return {
+    ...config,
+    signals: signals.length < available.length ? signals : config.signals,
+    timeoutMs: sdk.exportTimeoutMs,
+  };
+}
+
+/**
+ * Detect endpoint, headers and encoding from OTEL_EXPORTER_OTLP_* and vendor env vars
+ */
+function detectOTLPConfig(
+  env: Record<string, unknown>,
 ): OTLPExporterConfig | null {
   const endpoint = env.OTEL_EXPORTER_OTLP_ENDPOINT as string | undefined;
-  if (!endpoint) {
-    return null;
-  }
+  const tracesEndpoint = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT as string | undefined;
+  const logsEndpoint = env.OTEL_EXPORTER_OTLP_LOGS_ENDPOINT as string | undefined;
 
-  // Try to get auth header from various sources
-  let authHeader: string | undefined;
+  // Parse service name and resource attributes
+  const serviceName = env.OTEL_SERVICE_NAME as string | undefined;
+  const resourceAttributes = parseResourceAttributes(
+    env.OTEL_RESOURCE_ATTRIBUTES as string | undefined,
+  );
+  const protocol = parseProtocol(env.OTEL_EXPORTER_OTLP_PROTOCOL as string | undefined);
+  const compression = parseCompression(
+    env.OTEL_EXPORTER_OTLP_COMPRESSION as string | undefined,
+  );
 
-  // Option 1: Direct headers env var (format: "Authorization=Basic xxx")
-  const headersEnv = env.OTEL_EXPORTER_OTLP_HEADERS as string | undefined;
-  if (headersEnv) {
-    const match = headersEnv.match(/Authorization=(.+)/i);
-    if (match) {
-      authHeader = match[1];
-    }
+  if (!endpoint && !tracesEndpoint && !logsEndpoint) {
+    // Fall back to vendor-specific env vars (HONEYCOMB_API_KEY, DD_API_KEY, ...)
+    const preset = getPresetConfigFromEnv(env);
+    if (!preset) return null;
+    return {
+      ...preset,
+      serviceName,
+      resourceAttributes,
+      protocol: protocol ?? preset.protocol,
+      compression: compression ?? preset.compression,
+    };
   }
 
-  // Option 2: Grafana-specific env vars
-  if (!authHeader) {
+  // Headers from env (format: "key1=value1,key2=value2")
+  const headers = parseOTLPHeaders(
+    env.OTEL_EXPORTER_OTLP_HEADERS as string | undefined,
+  );
+  const tracesHeaders = parseOTLPHeaders(
+    env.OTEL_EXPORTER_OTLP_TRACES_HEADERS as string | undefined,
+  );
+  const logsHeaders = parseOTLPHeaders(
+    env.OTEL_EXPORTER_OTLP_LOGS_HEADERS as string | undefined,
+  );
+
+  // Grafana-specific env vars, unless an Authorization header is already set
+  const hasAuthorization = Object.keys(headers).some(
+    (key) => key.toLowerCase() === "authorization",
+  );
+  if (!hasAuthorization) {
     const instanceId = env.GRAFANA_INSTANCE_ID as string | undefined;
     const token = env.GRAFANA_OTLP_TOKEN as string | undefined;
     if (instanceId && token) {
-      authHeader = `Basic ${btoa(`${instanceId}:${token}`)}`;
+      headers.Authorization = `Basic ${btoa(`${instanceId}:${token}`)}`;
     }
   }
 
-  // No auth configured - can't export
-  if (!authHeader) {
-    return null;
-  }
-
-  // Parse service name and resource attributes
-  const serviceName = env.OTEL_SERVICE_NAME as string | undefined;
-  const resourceAttributes = parseResourceAttributes(
-    env.OTEL_RESOURCE_ATTRIBUTES as string | undefined,
-  );
+  // Without a base endpoint, only signals with their own endpoint are sent
+  const signals: OTLPSignal[] | undefined = endpoint
+    ? undefined
+    : [
+        ...(tracesEndpoint ? (["trace"] as const) : []),
+        ...(logsEndpoint ? (["log"] as const) : []),
+      ];
 
   return {
-    endpoint: endpoint.replace(/\/$/, ""), // Remove trailing slash
-    headers: {
-      Authorization: authHeader,
-    },
+    endpoint: (endpoint ?? "").replace(/\/$/, ""), // Remove trailing slash
+    headers,
     serviceName,
     resourceAttributes,
+    protocol,
+    compression,
+    tracesEndpoint,
+    logsEndpoint,
+    tracesHeaders: Object.keys(tracesHeaders).length > 0 ? tracesHeaders : undefined,
+    logsHeaders: Object.keys(logsHeaders).length > 0 ? logsHeaders : undefined,
+    signals,
   };
 }
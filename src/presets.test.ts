@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { presets, getPresetConfigFromEnv } from "./presets.js";
+import { getOTLPConfigFromEnv } from "./otlp.js";
+
+describe("presets", () => {
+  it("honeycomb sets team and dataset headers", () => {
+    const config = presets.honeycomb({ apiKey: "key", dataset: "workers" });
+    expect(config.endpoint).toBe("https://api.honeycomb.io");
+    expect(config.headers).toEqual({
+      "x-honeycomb-team": "key",
+      "x-honeycomb-dataset": "workers",
+    });
+    expect(config.protocol).toBe("http/protobuf");
+  });
+
+  it("axiom uses a bearer token and dataset header", () => {
+    const config = presets.axiom({ token: "xaat", dataset: "logs" });
+    expect(config.headers).toEqual({
+      Authorization: "Bearer xaat",
+      "X-Axiom-Dataset": "logs",
+    });
+  });
+
+  it("newrelic picks the endpoint by region", () => {
+    expect(presets.newrelic({ licenseKey: "k" }).endpoint).toBe("https://otlp.nr-data.net");
+    expect(presets.newrelic({ licenseKey: "k", region: "eu" }).endpoint).toBe(
+      "https://otlp.eu01.nr-data.net",
+    );
+    expect(presets.newrelic({ licenseKey: "k" }).headers).toEqual({ "api-key": "k" });
+  });
+
+  it("datadog builds the endpoint from the site", () => {
+    const config = presets.datadog({ apiKey: "dd", site: "datadoghq.eu" });
+    expect(config.endpoint).toBe("https://otlp.datadoghq.eu");
+    expect(config.headers).toEqual({ "dd-api-key": "dd" });
+  });
+
+  it("grafana encodes basic auth", () => {
+    const config = presets.grafana({
+      instanceId: "123",
+      token: "tok",
+      endpoint: "https://otlp-gateway.grafana.net/otlp/",
+    });
+    expect(config.endpoint).toBe("https://otlp-gateway.grafana.net/otlp");
+    expect(config.headers.Authorization).toBe(`Basic ${btoa("123:tok")}`);
+  });
+});
+
+describe("getPresetConfigFromEnv", () => {
+  it("returns null without vendor env vars", () => {
+    expect(getPresetConfigFromEnv({})).toBeNull();
+  });
+
+  it("detects vendors from their conventional env vars", () => {
+    expect(getPresetConfigFromEnv({ HONEYCOMB_API_KEY: "k" })?.endpoint).toBe(
+      "https://api.honeycomb.io",
+    );
+    expect(
+      getPresetConfigFromEnv({ AXIOM_TOKEN: "t", AXIOM_DATASET: "d" })?.endpoint,
+    ).toBe("https://api.axiom.co");
+    expect(
+      getPresetConfigFromEnv({ NEW_RELIC_LICENSE_KEY: "k", NEW_RELIC_REGION: "EU" })
+        ?.endpoint,
+    ).toBe("https://otlp.eu01.nr-data.net");
+    expect(getPresetConfigFromEnv({ DD_API_KEY: "k" })?.headers).toEqual({
+      "dd-api-key": "k",
+    });
+    expect(getPresetConfigFromEnv({ BASELIME_API_KEY: "k" })?.headers).toEqual({
+      "x-api-key": "k",
+    });
+  });
+
+  it("detects Grafana Cloud from its own endpoint variable", () => {
+    const config = getOTLPConfigFromEnv({
+      GRAFANA_INSTANCE_ID: "123",
+      GRAFANA_OTLP_TOKEN: "token",
+      GRAFANA_OTLP_ENDPOINT: "https://otlp-gateway-prod-eu-west-0.grafana.net/otlp",
+    });
+    expect(config?.endpoint).toBe("https://otlp-gateway-prod-eu-west-0.grafana.net/otlp");
+    expect(config?.headers).toEqual({ Authorization: `Basic ${btoa("123:token")}` });
+  });
+
+  it("is used by getOTLPConfigFromEnv when no OTLP endpoint is set", () => {
+    const config = getOTLPConfigFromEnv({
+      HONEYCOMB_API_KEY: "k",
+      OTEL_SERVICE_NAME: "svc",
+      OTEL_EXPORTER_OTLP_PROTOCOL: "http/json",
+    });
+    expect(config?.endpoint).toBe("https://api.honeycomb.io");
+    expect(config?.serviceName).toBe("svc");
+    expect(config?.protocol).toBe("http/json");
+  });
+
+  it("prefers an explicit OTLP endpoint over vendor env vars", () => {
+    const config = getOTLPConfigFromEnv({
+      OTEL_EXPORTER_OTLP_ENDPOINT: "http://localhost:4318",
+      HONEYCOMB_API_KEY: "k",
+    });
+    expect(config?.endpoint).toBe("http://localhost:4318");
+  });
+});
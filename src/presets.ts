@@ -0,0 +1,215 @@
+/**
+ * Vendor presets for OTLP exporter configuration
+ *
+ * Each preset fills in the endpoint, auth and dataset headers and the
+ * preferred protocol for a backend. Spread the result to override anything.
+ *
+ * @example
+ * instrument(handler, {
+ *   exporter: presets.honeycomb({ apiKey: env.HONEYCOMB_API_KEY, dataset: "workers" }),
+ * })
+ */
+
+import type { OTLPExporterConfig } from "./otlp.js";
+
+// ============================================
+// Preset Options
+// ============================================
+
+export interface HoneycombPresetOptions {
+  apiKey: string;
+  /** Dataset for logs and classic environments */
+  dataset?: string;
+  /** API host (default: https://api.honeycomb.io, use https://api.eu1.honeycomb.io for EU) */
+  endpoint?: string;
+}
+
+export interface AxiomPresetOptions {
+  /** API token with ingest permission */
+  token: string;
+  dataset: string;
+  /** API host (default: https://api.axiom.co) */
+  endpoint?: string;
+}
+
+export interface NewRelicPresetOptions {
+  licenseKey: string;
+  /** Data center region (default: "us") */
+  region?: "us" | "eu";
+  /** Override the OTLP endpoint (e.g. FedRAMP) */
+  endpoint?: string;
+}
+
+export interface DatadogPresetOptions {
+  apiKey: string;
+  /** Datadog site (default: "datadoghq.com") */
+  site?: string;
+  /** Override the OTLP endpoint (e.g. an agent or collector) */
+  endpoint?: string;
+}
+
+export interface BaselimePresetOptions {
+  apiKey: string;
+  dataset?: string;
+  /** Override the OTLP endpoint */
+  endpoint?: string;
+}
+
+export interface GrafanaPresetOptions {
+  instanceId: string;
+  token: string;
+  /** Stack OTLP gateway, e.g. https://otlp-gateway-prod-us-east-0.grafana.net/otlp */
+  endpoint: string;
+}
+
+// ============================================
+// Presets
+// ============================================
+
+function honeycomb(options: HoneycombPresetOptions): OTLPExporterConfig {
+  return {
+    name: "honeycomb",
+    endpoint: options.endpoint ?? "https://api.honeycomb.io",
+    headers: {
+      "x-honeycomb-team": options.apiKey,
+      ...(options.dataset ? { "x-honeycomb-dataset": options.dataset } : {}),
+    },
+    protocol: "http/protobuf",
+  };
+}
+
+function axiom(options: AxiomPresetOptions): OTLPExporterConfig {
+  return {
+    name: "axiom",
+    endpoint: options.endpoint ?? "https://api.axiom.co",
+    headers: {
+      Authorization: `Bearer ${options.token}`,
+      "X-Axiom-Dataset": options.dataset,
+    },
+    protocol: "http/protobuf",
+  };
+}
+
+function newrelic(options: NewRelicPresetOptions): OTLPExporterConfig {
+  const endpoint =
+    options.endpoint ??
+    (options.region === "eu"
+      ? "https://otlp.eu01.nr-data.net"
+      : "https://otlp.nr-data.net");
+  return {
+    name: "newrelic",
+    endpoint,
+    headers: { "api-key": options.licenseKey },
+    protocol: "http/protobuf",
+    compression: "gzip",
+  };
+}
+
+function datadog(options: DatadogPresetOptions): OTLPExporterConfig {
+  return {
+    name: "datadog",
+    endpoint: options.endpoint ?? `https://otlp.${options.site ?? "datadoghq.com"}`,
+    headers: { "dd-api-key": options.apiKey },
+    protocol: "http/protobuf",
+  };
+}
+
+function baselime(options: BaselimePresetOptions): OTLPExporterConfig {
+  return {
+    name: "baselime",
+    endpoint: options.endpoint ?? "https://otel.baselime.io",
+    headers: {
+      "x-api-key": options.apiKey,
+      ...(options.dataset ? { "x-baselime-dataset": options.dataset } : {}),
+    },
+  };
+}
+
+function grafana(options: GrafanaPresetOptions): OTLPExporterConfig {
+  return {
+    name: "grafana",
+    endpoint: options.endpoint.replace(/\/$/, ""),
+    headers: {
+      Authorization: `Basic ${btoa(`${options.instanceId}:${options.token}`)}`,
+    },
+  };
+}
+
+/**
+ * Preset registry, each producing an OTLPExporterConfig
+ */
+export const presets = {
+  honeycomb,
+  axiom,
+  newrelic,
+  datadog,
+  baselime,
+  grafana,
+};
+
+// ============================================
+// Environment Detection
+// ============================================
+
+/**
+ * Detect a vendor preset from its conventional env vars
+ * Returns null if no vendor is configured
+ *
+ * Checked in order:
+ * - HONEYCOMB_API_KEY (+ HONEYCOMB_DATASET, HONEYCOMB_API_ENDPOINT)
+ * - AXIOM_TOKEN + AXIOM_DATASET (+ AXIOM_URL)
+ * - NEW_RELIC_LICENSE_KEY (+ NEW_RELIC_REGION)
+ * - DD_API_KEY (+ DD_SITE)
+ * - BASELIME_API_KEY (+ BASELIME_DATASET)
+ * - GRAFANA_INSTANCE_ID + GRAFANA_OTLP_TOKEN + GRAFANA_OTLP_ENDPOINT
+ *
+ * getOTLPConfigFromEnv only falls back to these without any
+ * OTEL_EXPORTER_OTLP_*ENDPOINT, so each vendor has its own endpoint variable
+ */
+export function getPresetConfigFromEnv(
+  env: Record<string, unknown>,
+): OTLPExporterConfig | null {
+  const get = (key: string) => (env[key] as string | undefined) || undefined;
+
+  const honeycombKey = get("HONEYCOMB_API_KEY");
+  if (honeycombKey) {
+    return honeycomb({
+      apiKey: honeycombKey,
+      dataset: get("HONEYCOMB_DATASET"),
+      endpoint: get("HONEYCOMB_API_ENDPOINT"),
+    });
+  }
+
+  const axiomToken = get("AXIOM_TOKEN");
+  const axiomDataset = get("AXIOM_DATASET");
+  if (axiomToken && axiomDataset) {
+    return axiom({ token: axiomToken, dataset: axiomDataset, endpoint: get("AXIOM_URL") });
+  }
+
+  const newRelicKey = get("NEW_RELIC_LICENSE_KEY");
+  if (newRelicKey) {
+    return newrelic({
+      licenseKey: newRelicKey,
+      region: get("NEW_RELIC_REGION")?.toLowerCase() === "eu" ? "eu" : "us",
+    });
+  }
+
+  const datadogKey = get("DD_API_KEY");
+  if (datadogKey) {
+    return datadog({ apiKey: datadogKey, site: get("DD_SITE") });
+  }
+
+  const baselimeKey = get("BASELIME_API_KEY");
+  if (baselimeKey) {
+    return baselime({ apiKey: baselimeKey, dataset: get("BASELIME_DATASET") });
+  }
+
+  const instanceId = get("GRAFANA_INSTANCE_ID");
+  const token = get("GRAFANA_OTLP_TOKEN");
+  const endpoint = get("GRAFANA_OTLP_ENDPOINT");
+  if (instanceId && token && endpoint) {
+    return grafana({ instanceId, token, endpoint });
+  }
+
+  return null;
+}
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  trace,
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  TraceFlags,
+  type Context,
+  type SpanContext,
+  type TextMapPropagator,
+} from "@opentelemetry/api";
+import {
+  W3CTraceContextPropagator,
+  B3Propagator,
+  JaegerPropagator,
+  AWSXRayPropagator,
+  CloudTracePropagator,
+  createPropagator,
+  registerPropagator,
+  registerGlobalPropagator,
+  setPropagator,
+  extractFromHeaders,
+  injectIntoHeaders,
+  extractFromMessage,
+  headersGetter,
+  headersSetter,
+} from "./propagation.js";
+import { initTracing } from "./provider.js";
+import { withTraceContext } from "./instrument.js";
+import { withWorkflowTrace } from "./workflow.js";
+
+const traceId = "0af7651916cd43dd8448eb211c80319c";
+const spanId = "b7ad6b7169203331";
+
+const remote: SpanContext = {
+  traceId,
+  spanId,
+  traceFlags: TraceFlags.SAMPLED,
+  isRemote: true,
+};
+
+function inject(propagator: TextMapPropagator, spanContext = remote): Headers {
+  const headers = new Headers();
+  propagator.inject(trace.setSpanContext(ROOT_CONTEXT, spanContext), headers, headersSetter);
+  return headers;
+}
+
+function extract(propagator: TextMapPropagator, headers: Record<string, string>): Context {
+  return propagator.extract(ROOT_CONTEXT, new Headers(headers), headersGetter);
+}
+
+beforeEach(() => {
+  initTracing();
+});
+
+afterEach(() => {
+  setPropagator(null);
+  vi.restoreAllMocks();
+});
+
+// ============================================
+// Built-in propagators
+// ============================================
+
+describe("built-in propagators", () => {
+  it("round-trips W3C trace context with tracestate", () => {
+    const propagator = new W3CTraceContextPropagator();
+    const ctx = extract(propagator, {
+      traceparent: `00-${traceId}-${spanId}-00`,
+      tracestate: "congo=1",
+    });
+    const headers = inject(propagator, trace.getSpanContext(ctx)!);
+
+    expect(headers.get("traceparent")).toBe(`00-${traceId}-${spanId}-00`);
+    expect(headers.get("tracestate")).toBe("congo=1");
+  });
+
+  it("extracts B3 single and multi headers, padding 64-bit trace IDs", () => {
+    const propagator = new B3Propagator();
+    expect(
+      trace.getSpanContext(extract(propagator, { b3: `${traceId}-${spanId}-0` })),
+    ).toMatchObject({ traceId, spanId, traceFlags: TraceFlags.NONE });
+
+    expect(
+      trace.getSpanContext(
+        extract(propagator, {
+          "x-b3-traceid": "8448eb211c80319c",
+          "x-b3-spanid": spanId,
+          "x-b3-flags": "1",
+        }),
+      ),
+    ).toMatchObject({ traceId: "00000000000000008448eb211c80319c", traceFlags: 1 });
+
+    expect(trace.getSpanContext(extract(propagator, { b3: "0" }))).toBeUndefined();
+  });
+
+  it("injects B3 in the configured encoding", () => {
+    expect(inject(new B3Propagator()).get("b3")).toBe(`${traceId}-${spanId}-1`);
+
+    const multi = inject(new B3Propagator({ injectEncoding: "multi" }));
+    expect(multi.get("x-b3-traceid")).toBe(traceId);
+    expect(multi.get("x-b3-spanid")).toBe(spanId);
+    expect(multi.get("x-b3-sampled")).toBe("1");
+  });
+
+  it("round-trips Jaeger trace IDs and uberctx baggage", () => {
+    const propagator = new JaegerPropagator();
+    const ctx = extract(propagator, {
+      "uber-trace-id": `8448eb211c80319c%3A${spanId}%3A0%3A1`,
+      "uberctx-tenant": "acme%20corp",
+    });
+
+    expect(trace.getSpanContext(ctx)).toMatchObject({
+      traceId: "00000000000000008448eb211c80319c",
+      spanId,
+      traceFlags: TraceFlags.SAMPLED,
+    });
+    expect(propagation.getBaggage(ctx)?.getEntry("tenant")?.value).toBe("acme corp");
+
+    const headers = new Headers();
+    propagator.inject(ctx, headers, headersSetter);
+    expect(headers.get("uber-trace-id")).toBe(
+      `00000000000000008448eb211c80319c:${spanId}:0:01`,
+    );
+    expect(headers.get("uberctx-tenant")).toBe("acme%20corp");
+  });
+
+  it("round-trips AWS X-Ray headers", () => {
+    const propagator = new AWSXRayPropagator();
+    const header = `Root=1-${traceId.slice(0, 8)}-${traceId.slice(8)};Parent=${spanId};Sampled=0`;
+    const ctx = extract(propagator, { "x-amzn-trace-id": header });
+
+    expect(trace.getSpanContext(ctx)).toMatchObject({ traceId, spanId, traceFlags: 0 });
+    expect(inject(propagator, trace.getSpanContext(ctx)!).get("x-amzn-trace-id")).toBe(header);
+    expect(
+      trace.getSpanContext(extract(propagator, { "x-amzn-trace-id": "Root=1-abc" })),
+    ).toBeUndefined();
+  });
+
+  it("round-trips Google Cloud Trace headers with decimal span IDs", () => {
+    const propagator = new CloudTracePropagator();
+    const decimal = BigInt(`0x${spanId}`).toString(10);
+    const ctx = extract(propagator, { "x-cloud-trace-context": `${traceId}/${decimal};o=1` });
+
+    expect(trace.getSpanContext(ctx)).toMatchObject({ traceId, spanId, traceFlags: 1 });
+    expect(inject(propagator).get("x-cloud-trace-context")).toBe(`${traceId}/${decimal};o=1`);
+  });
+});
+
+// ============================================
+// Registry
+// ============================================
+
+describe("propagator registry", () => {
+  it("extracts with every propagator of a composite, later ones winning", () => {
+    const propagator = createPropagator(["tracecontext", "baggage", "b3multi"]);
+    const ctx = extract(propagator, {
+      traceparent: `00-${"1".repeat(32)}-${"2".repeat(16)}-01`,
+      baggage: "tenant.id=acme",
+      "x-b3-traceid": traceId,
+      "x-b3-spanid": spanId,
+    });
+
+    expect(trace.getSpanContext(ctx)?.traceId).toBe(traceId);
+    expect(propagation.getBaggage(ctx)?.getEntry("tenant.id")?.value).toBe("acme");
+
+    const headers = new Headers();
+    propagator.inject(ctx, headers, headersSetter);
+    expect(headers.get("traceparent")).toBe(`00-${traceId}-${spanId}-01`);
+    expect(headers.get("x-b3-traceid")).toBe(traceId);
+    expect(headers.get("baggage")).toBe("tenant.id=acme");
+  });
+
+  it("supports custom propagators and warns on unknown names", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    registerPropagator("custom", () => new AWSXRayPropagator());
+
+    expect(createPropagator(["custom", "unknown"]).fields()).toEqual(["x-amzn-trace-id"]);
+    expect(warn).toHaveBeenCalledWith('[otel-cloudflare] unknown propagator "unknown", ignoring');
+  });
+
+  it("uses the active propagator for headers, queue messages and workflows", () => {
+    setPropagator(createPropagator(["b3"]));
+    const ctx = extractFromHeaders(new Headers({ b3: `${traceId}-${spanId}-1` }));
+    expect(trace.getSpanContext(ctx)?.traceId).toBe(traceId);
+
+    context.with(ctx, () => {
+      const headers = new Headers();
+      injectIntoHeaders(headers);
+      expect(headers.get("b3")).toBe(`${traceId}-${spanId}-1`);
+      expect(headers.has("traceparent")).toBe(false);
+
+      const body = withTraceContext({ orderId: 1 });
+      expect(body).toEqual({ orderId: 1, _b3: `${traceId}-${spanId}-1` });
+      expect(trace.getSpanContext(extractFromMessage(body))?.spanId).toBe(spanId);
+
+      expect(withWorkflowTrace({ id: "1" })).toEqual({
+        id: "1",
+        _b3: `${traceId}-${spanId}-1`,
+      });
+    });
+  });
+
+  it("backs the global propagation API", () => {
+    registerGlobalPropagator();
+    setPropagator(createPropagator(["xray"]));
+
+    const carrier: Record<string, string> = {};
+    propagation.inject(trace.setSpanContext(ROOT_CONTEXT, remote), carrier);
+    expect(carrier["x-amzn-trace-id"]).toContain(`Parent=${spanId}`);
+  });
+});
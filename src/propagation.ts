@@ -0,0 +1,617 @@
+/**
+ * Pluggable context propagation
+ *
+ * instrument(), traceHandler(), tracedFetch(), wrapQueue()/withTraceContext()
+ * and the workflow decorator extract and inject context through the
+ * configured TextMapPropagator. Built-in propagators: W3C Trace Context,
+ * W3C Baggage, B3 (single and multi header), Jaeger, AWS X-Ray and
+ * Google Cloud Trace. The propagator is also registered with the global
+ * `propagation` API of @opentelemetry/api.
+ *
+ * @example
+ * // Accept B3 from Envoy, keep emitting W3C headers as well
+ * setPropagator(createPropagator(["tracecontext", "baggage", "b3multi"]));
+ */
+
+import {
+  trace,
+  context,
+  propagation,
+  isSpanContextValid,
+  TraceFlags,
+  type Context,
+  type SpanContext,
+  type TextMapGetter,
+  type TextMapPropagator,
+  type TextMapSetter,
+} from "@opentelemetry/api";
+import { spanContextFromTraceparent, toTraceparent } from "./provider.js";
+import { parseBaggage, serializeBaggage } from "./baggage.js";
+import { getEnvSettings, getScopedSettings } from "./settings.js";
+
+export type { TextMapPropagator };
+
+// ============================================
+// Carriers
+// ============================================
+
+/**
+ * Getter for Fetch API Headers
+ */
+export const headersGetter: TextMapGetter<Headers> = {
+  keys: (headers) => Array.from(headers.keys()),
+  get: (headers, key) => headers.get(key) ?? undefined,
+};
+
+/**
+ * Setter for Fetch API Headers
+ */
+export const headersSetter: TextMapSetter<Headers> = {
+  set: (headers, key, value) => headers.set(key, value),
+};
+
+/**
+ * Getter for queue message bodies and workflow params
+ * Fields are stored under "_" + header name, e.g. "_traceparent"
+ */
+export const messageGetter: TextMapGetter<Record<string, unknown>> = {
+  keys: (body) =>
+    Object.keys(body)
+      .filter((key) => key.startsWith("_"))
+      .map((key) => key.slice(1)),
+  get: (body, key) => {
+    const value = body[`_${key}`];
+    return typeof value === "string" ? value : undefined;
+  },
+};
+
+/**
+ * Setter for queue message bodies and workflow params
+ */
+export const messageSetter: TextMapSetter<Record<string, unknown>> = {
+  set: (body, key, value) => {
+    body[`_${key}`] = value;
+  },
+};
+
+/**
+ * Read a single carrier value, joining repeated values with ","
+ */
+function getValue<Carrier>(
+  getter: TextMapGetter<Carrier>,
+  carrier: Carrier,
+  key: string,
+): string | undefined {
+  const value = getter.get(carrier, key);
+  return Array.isArray(value) ? value.join(",") : value;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Left-pad a hex ID (64-bit B3/Jaeger trace IDs become 128-bit)
+ */
+function padId(id: string, length: number): string {
+  return id.padStart(length, "0").toLowerCase();
+}
+
+/**
+ * Set a remote span context if it is valid
+ */
+function withRemoteSpanContext(ctx: Context, spanContext: SpanContext): Context {
+  return isSpanContextValid(spanContext) ? trace.setSpanContext(ctx, spanContext) : ctx;
+}
+
+/**
+ * Span context to inject, or undefined when there is none
+ */
+function injectableSpanContext(ctx: Context): SpanContext | undefined {
+  const spanContext = trace.getSpanContext(ctx);
+  return spanContext && isSpanContextValid(spanContext) ? spanContext : undefined;
+}
+
+function isSampled(spanContext: SpanContext): boolean {
+  return (spanContext.traceFlags & TraceFlags.SAMPLED) === TraceFlags.SAMPLED;
+}
+
+// ============================================
+// W3C
+// ============================================
+
+/**
+ * W3C Trace Context: traceparent and tracestate headers
+ * @see https://www.w3.org/TR/trace-context/
+ */
+export class W3CTraceContextPropagator implements TextMapPropagator {
+  inject(ctx: Context, carrier: unknown, setter: TextMapSetter): void {
+    const spanContext = injectableSpanContext(ctx);
+    if (!spanContext) return;
+    setter.set(carrier, "traceparent", toTraceparent(spanContext));
+    const tracestate = spanContext.traceState?.serialize();
+    if (tracestate) {
+      setter.set(carrier, "tracestate", tracestate);
+    }
+  }
+
+  extract(ctx: Context, carrier: unknown, getter: TextMapGetter): Context {
+    const traceparent = getValue(getter, carrier, "traceparent");
+    if (!traceparent) return ctx;
+    const spanContext = spanContextFromTraceparent(
+      traceparent.trim(),
+      getValue(getter, carrier, "tracestate"),
+    );
+    return spanContext ? withRemoteSpanContext(ctx, spanContext) : ctx;
+  }
+
+  fields(): string[] {
+    return ["traceparent", "tracestate"];
+  }
+}
+
+/**
+ * W3C Baggage: baggage header
+ * @see https://www.w3.org/TR/baggage/
+ */
+export class W3CBaggagePropagator implements TextMapPropagator {
+  inject(ctx: Context, carrier: unknown, setter: TextMapSetter): void {
+    const baggage = propagation.getBaggage(ctx);
+    const value = baggage && serializeBaggage(baggage);
+    if (value) {
+      setter.set(carrier, "baggage", value);
+    }
+  }
+
+  extract(ctx: Context, carrier: unknown, getter: TextMapGetter): Context {
+    const baggage = parseBaggage(getValue(getter, carrier, "baggage"));
+    return baggage ? propagation.setBaggage(ctx, baggage) : ctx;
+  }
+
+  fields(): string[] {
+    return ["baggage"];
+  }
+}
+
+// ============================================
+// B3
+// ============================================
+
+const B3_TRACE_ID = /^([0-9a-f]{16}|[0-9a-f]{32})$/i;
+const B3_SPAN_ID = /^[0-9a-f]{16}$/i;
+
+/**
+ * Map a B3 sampling state to trace flags
+ * "1" and debug ("d", X-B3-Flags: 1) are sampled, "0" is not; a missing
+ * (deferred) state is treated as sampled
+ */
+function b3TraceFlags(sampled: string | undefined, debug?: string): TraceFlags {
+  if (debug === "1" || sampled === "d") return TraceFlags.SAMPLED;
+  if (sampled === "0" || sampled === "false") return TraceFlags.NONE;
+  return TraceFlags.SAMPLED;
+}
+
+/**
+ * Options for B3Propagator
+ */
+export interface B3PropagatorOptions {
+  /**
+   * Header format used when injecting (default: "single")
+   * Both formats are always accepted when extracting
+   */
+  injectEncoding?: "single" | "multi";
+}
+
+/**
+ * Zipkin B3, as the single `b3` header or the multi X-B3-* headers
+ * @see https://github.com/openzipkin/b3-propagation
+ */
+export class B3Propagator implements TextMapPropagator {
+  private readonly multi: boolean;
+
+  constructor(options: B3PropagatorOptions = {}) {
+    this.multi = options.injectEncoding === "multi";
+  }
+
+  inject(ctx: Context, carrier: unknown, setter: TextMapSetter): void {
+    const spanContext = injectableSpanContext(ctx);
+    if (!spanContext) return;
+    const sampled = isSampled(spanContext) ? "1" : "0";
+
+    if (this.multi) {
+      setter.set(carrier, "x-b3-traceid", spanContext.traceId);
+      setter.set(carrier, "x-b3-spanid", spanContext.spanId);
+      setter.set(carrier, "x-b3-sampled", sampled);
+    } else {
+      setter.set(carrier, "b3", `${spanContext.traceId}-${spanContext.spanId}-${sampled}`);
+    }
+  }
+
+  extract(ctx: Context, carrier: unknown, getter: TextMapGetter): Context {
+    const single = getValue(getter, carrier, "b3");
+    if (single) {
+      // {traceId}-{spanId}[-{sampled}[-{parentSpanId}]], or only {sampled}
+      const [traceId, spanId, sampled] = single.trim().split("-");
+      if (!spanId || !B3_TRACE_ID.test(traceId) || !B3_SPAN_ID.test(spanId)) return ctx;
+      return withRemoteSpanContext(ctx, {
+        traceId: padId(traceId, 32),
+        spanId: spanId.toLowerCase(),
+        traceFlags: b3TraceFlags(sampled),
+        isRemote: true,
+      });
+    }
+
+    const traceId = getValue(getter, carrier, "x-b3-traceid")?.trim();
+    const spanId = getValue(getter, carrier, "x-b3-spanid")?.trim();
+    if (!traceId || !spanId || !B3_TRACE_ID.test(traceId) || !B3_SPAN_ID.test(spanId)) {
+      return ctx;
+    }
+    return withRemoteSpanContext(ctx, {
+      traceId: padId(traceId, 32),
+      spanId: spanId.toLowerCase(),
+      traceFlags: b3TraceFlags(
+        getValue(getter, carrier, "x-b3-sampled")?.trim(),
+        getValue(getter, carrier, "x-b3-flags")?.trim(),
+      ),
+      isRemote: true,
+    });
+  }
+
+  fields(): string[] {
+    return this.multi
+      ? ["x-b3-traceid", "x-b3-spanid", "x-b3-sampled", "x-b3-flags", "x-b3-parentspanid"]
+      : ["b3"];
+  }
+}
+
+// ============================================
+// Jaeger
+// ============================================
+
+const UBER_TRACE_ID = "uber-trace-id";
+const UBER_BAGGAGE_PREFIX = "uberctx-";
+
+/**
+ * Jaeger: uber-trace-id header, and uberctx-* headers for baggage
+ * @see https://www.jaegertracing.io/docs/1.21/client-libraries/#propagation-format
+ */
+export class JaegerPropagator implements TextMapPropagator {
+  inject(ctx: Context, carrier: unknown, setter: TextMapSetter): void {
+    const spanContext = injectableSpanContext(ctx);
+    if (spanContext) {
+      const flags = isSampled(spanContext) ? "01" : "00";
+      setter.set(carrier, UBER_TRACE_ID, `${spanContext.traceId}:${spanContext.spanId}:0:${flags}`);
+    }
+
+    const baggage = propagation.getBaggage(ctx);
+    for (const [key, entry] of baggage?.getAllEntries() ?? []) {
+      setter.set(carrier, `${UBER_BAGGAGE_PREFIX}${key}`, encodeURIComponent(entry.value));
+    }
+  }
+
+  extract(ctx: Context, carrier: unknown, getter: TextMapGetter): Context {
+    let result = ctx;
+
+    const header = getValue(getter, carrier, UBER_TRACE_ID);
+    if (header) {
+      let value = header;
+      try {
+        value = decodeURIComponent(header);
+      } catch {
+        // Keep the raw value
+      }
+      // {traceId}:{spanId}:{parentSpanId}:{flags}
+      const [traceId, spanId, , flags] = value.trim().split(":");
+      if (
+        /^[0-9a-f]{1,32}$/i.test(traceId) &&
+        /^[0-9a-f]{1,16}$/i.test(spanId ?? "") &&
+        /^[0-9a-f]{1,2}$/i.test(flags ?? "")
+      ) {
+        result = withRemoteSpanContext(result, {
+          traceId: padId(traceId, 32),
+          spanId: padId(spanId, 16),
+          traceFlags: parseInt(flags, 16) & TraceFlags.SAMPLED,
+          isRemote: true,
+        });
+      }
+    }
+
+    let baggage = propagation.getBaggage(result);
+    for (const key of getter.keys(carrier)) {
+      const name = key.toLowerCase();
+      if (!name.startsWith(UBER_BAGGAGE_PREFIX)) continue;
+      const raw = getValue(getter, carrier, key);
+      if (raw === undefined) continue;
+      let value = raw;
+      try {
+        value = decodeURIComponent(raw);
+      } catch {
+        // Keep the raw value
+      }
+      baggage = (baggage ?? propagation.createBaggage()).setEntry(
+        name.slice(UBER_BAGGAGE_PREFIX.length),
+        { value },
+      );
+    }
+    return baggage ? propagation.setBaggage(result, baggage) : result;
+  }
+
+  fields(): string[] {
+    return [UBER_TRACE_ID];
+  }
+}
+
+// ============================================
+// AWS X-Ray
+// ============================================
+
+const XRAY_HEADER = "x-amzn-trace-id";
+
+/**
+ * AWS X-Ray: X-Amzn-Trace-Id header (Root=1-{time}-{id};Parent={spanId};Sampled={0|1})
+ * A missing or deferred ("?") sampling decision is treated as sampled
+ * @see https://docs.aws.amazon.com/xray/latest/devguide/xray-concepts.html#xray-concepts-tracingheader
+ */
+export class AWSXRayPropagator implements TextMapPropagator {
+  inject(ctx: Context, carrier: unknown, setter: TextMapSetter): void {
+    const spanContext = injectableSpanContext(ctx);
+    if (!spanContext) return;
+    const { traceId, spanId } = spanContext;
+    setter.set(
+      carrier,
+      XRAY_HEADER,
+      `Root=1-${traceId.slice(0, 8)}-${traceId.slice(8)};Parent=${spanId};Sampled=${isSampled(spanContext) ? "1" : "0"}`,
+    );
+  }
+
+  extract(ctx: Context, carrier: unknown, getter: TextMapGetter): Context {
+    const header = getValue(getter, carrier, XRAY_HEADER);
+    if (!header) return ctx;
+
+    const parts = new Map<string, string>();
+    for (const part of header.split(";")) {
+      const eq = part.indexOf("=");
+      if (eq !== -1) {
+        parts.set(part.slice(0, eq).trim().toLowerCase(), part.slice(eq + 1).trim());
+      }
+    }
+
+    const root = parts.get("root")?.match(/^1-([0-9a-f]{8})-([0-9a-f]{24})$/i);
+    const parent = parts.get("parent");
+    if (!root || !parent || !/^[0-9a-f]{16}$/i.test(parent)) return ctx;
+
+    return withRemoteSpanContext(ctx, {
+      traceId: `${root[1]}${root[2]}`.toLowerCase(),
+      spanId: parent.toLowerCase(),
+      traceFlags: parts.get("sampled") === "0" ? TraceFlags.NONE : TraceFlags.SAMPLED,
+      isRemote: true,
+    });
+  }
+
+  fields(): string[] {
+    return [XRAY_HEADER];
+  }
+}
+
+// ============================================
+// Google Cloud Trace
+// ============================================
+
+const GCP_HEADER = "x-cloud-trace-context";
+
+/**
+ * Google Cloud Trace: X-Cloud-Trace-Context header ({traceId}/{decimal spanId};o={0|1})
+ * A missing "o" option is treated as sampled
+ * @see https://cloud.google.com/trace/docs/trace-context#legacy-http-header
+ */
+export class CloudTracePropagator implements TextMapPropagator {
+  inject(ctx: Context, carrier: unknown, setter: TextMapSetter): void {
+    const spanContext = injectableSpanContext(ctx);
+    if (!spanContext) return;
+    const spanId = BigInt(`0x${spanContext.spanId}`).toString(10);
+    setter.set(
+      carrier,
+      GCP_HEADER,
+      `${spanContext.traceId}/${spanId};o=${isSampled(spanContext) ? "1" : "0"}`,
+    );
+  }
+
+  extract(ctx: Context, carrier: unknown, getter: TextMapGetter): Context {
+    const header = getValue(getter, carrier, GCP_HEADER);
+    const match = header?.trim().match(/^([0-9a-f]{32})\/(\d{1,20})(?:;o=([01]))?$/i);
+    if (!match) return ctx;
+
+    const spanId = BigInt(match[2]);
+    if (spanId >= 1n << 64n) return ctx;
+
+    return withRemoteSpanContext(ctx, {
+      traceId: match[1].toLowerCase(),
+      spanId: spanId.toString(16).padStart(16, "0"),
+      traceFlags: match[3] === "0" ? TraceFlags.NONE : TraceFlags.SAMPLED,
+      isRemote: true,
+    });
+  }
+
+  fields(): string[] {
+    return [GCP_HEADER];
+  }
+}
+
+// ============================================
+// Composite
+// ============================================
+
+/**
+ * Runs several propagators: injects with all of them, and extracts with
+ * each in order (later propagators override the span context of earlier ones)
+ */
+export class CompositePropagator implements TextMapPropagator {
+  constructor(private readonly propagators: TextMapPropagator[]) {}
+
+  inject(ctx: Context, carrier: unknown, setter: TextMapSetter): void {
+    for (const propagator of this.propagators) {
+      propagator.inject(ctx, carrier, setter);
+    }
+  }
+
+  extract(ctx: Context, carrier: unknown, getter: TextMapGetter): Context {
+    return this.propagators.reduce(
+      (result, propagator) => propagator.extract(result, carrier, getter),
+      ctx,
+    );
+  }
+
+  fields(): string[] {
+    return Array.from(new Set(this.propagators.flatMap((p) => p.fields())));
+  }
+}
+
+// ============================================
+// Registry
+// ============================================
+
+/** Creates a propagator for a registered name */
+export type PropagatorFactory = () => TextMapPropagator;
+
+/** Propagators by OTEL_PROPAGATORS name */
+const registry = new Map<string, PropagatorFactory>([
+  ["tracecontext", () => new W3CTraceContextPropagator()],
+  ["baggage", () => new W3CBaggagePropagator()],
+  ["b3", () => new B3Propagator()],
+  ["b3multi", () => new B3Propagator({ injectEncoding: "multi" })],
+  ["jaeger", () => new JaegerPropagator()],
+  ["xray", () => new AWSXRayPropagator()],
+  ["gcp", () => new CloudTracePropagator()],
+]);
+
+/** Propagators used when nothing is configured */
+const DEFAULT_PROPAGATORS = ["tracecontext", "baggage"];
+
+/**
+ * Register a propagator under a name usable in OTEL_PROPAGATORS and the
+ * propagators option, replacing any propagator with that name
+ */
+export function registerPropagator(name: string, factory: PropagatorFactory): void {
+  registry.set(name.toLowerCase(), factory);
+}
+
+/**
+ * Build a propagator from names and instances
+ * "none" disables propagation; unknown names are skipped with a warning
+ */
+export function createPropagator(
+  propagators: Array<string | TextMapPropagator>,
+): TextMapPropagator {
+  if (propagators.some((p) => typeof p === "string" && p.toLowerCase() === "none")) {
+    return new CompositePropagator([]);
+  }
+
+  const resolved: TextMapPropagator[] = [];
+  for (const p of propagators) {
+    if (typeof p !== "string") {
+      resolved.push(p);
+      continue;
+    }
+    const factory = registry.get(p.toLowerCase());
+    if (factory) {
+      resolved.push(factory());
+    } else {
+      console.warn(`[otel-cloudflare] unknown propagator "${p}", ignoring`);
+    }
+  }
+  return resolved.length === 1 ? resolved[0] : new CompositePropagator(resolved);
+}
+
+/** Default propagator (tracecontext, baggage) */
+const defaultPropagator: TextMapPropagator = createPropagator(DEFAULT_PROPAGATORS);
+
+/** Process-wide propagator, null unless set explicitly */
+let activePropagator: TextMapPropagator | null = null;
+
+/**
+ * Set the propagator used for extraction and injection
+ * Takes priority over OTEL_PROPAGATORS; pass null to fall back to it or to
+ * the default (tracecontext, baggage)
+ */
+export function setPropagator(propagator: TextMapPropagator | null): void {
+  activePropagator = propagator;
+}
+
+/**
+ * Get the propagator of the current handler, else the process-wide one,
+ * else the one from the request's env
+ */
+export function getPropagator(): TextMapPropagator {
+  return (
+    getScopedSettings()?.propagator ??
+    activePropagator ??
+    getEnvSettings()?.propagator ??
+    defaultPropagator
+  );
+}
+
+/** Forwards the global propagation API to the active propagator */
+const globalPropagator: TextMapPropagator = {
+  inject: (ctx, carrier, setter) => getPropagator().inject(ctx, carrier, setter),
+  extract: (ctx, carrier, getter) => getPropagator().extract(ctx, carrier, getter),
+  fields: () => getPropagator().fields(),
+};
+
+let globalPropagatorRegistered = false;
+
+/**
+ * Register the active propagator with the global propagation API
+ * Called by initOTLP; later setPropagator() calls take effect without
+ * registering again
+ */
+export function registerGlobalPropagator(): void {
+  if (!globalPropagatorRegistered) {
+    globalPropagatorRegistered = propagation.setGlobalPropagator(globalPropagator);
+  }
+}
+
+// ============================================
+// Extract / Inject
+// ============================================
+
+/**
+ * Extract context from request headers into a context
+ * (default: the active context)
+ */
+export function extractFromHeaders(
+  headers: Headers,
+  ctx: Context = context.active(),
+): Context {
+  return getPropagator().extract(ctx, headers, headersGetter);
+}
+
+/**
+ * Inject the context (default: the active context) into headers
+ */
+export function injectIntoHeaders(headers: Headers, ctx: Context = context.active()): void {
+  getPropagator().inject(ctx, headers, headersSetter);
+}
+
+/**
+ * Extract context from a queue message body or workflow params
+ * Non-object bodies leave the context unchanged
+ */
+export function extractFromMessage(
+  body: unknown,
+  ctx: Context = context.active(),
+): Context {
+  if (typeof body !== "object" || body === null) {
+    return ctx;
+  }
+  return getPropagator().extract(ctx, body as Record<string, unknown>, messageGetter);
+}
+
+/**
+ * Fields to add to a queue message body or workflow params for the context
+ * (default: the active context)
+ */
+export function injectIntoMessage(ctx: Context = context.active()): Record<string, string> {
+  const fields: Record<string, string> = {};
+  getPropagator().inject(ctx, fields, messageSetter);
+  return fields;
+}
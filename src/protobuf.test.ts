@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import { SpanKind } from "@opentelemetry/api";
+import {
+  encodeTraceExportRequest,
+  encodeLogExportRequest,
+} from "./protobuf.js";
+import {
+  buildTraceExportRequest,
+  buildLogExportRequest,
+  type ExportableSpan,
+} from "./otlp.js";
+import type { LogEntry } from "./logger.js";
+
+// ============================================
+// Minimal wire format decoder for assertions
+// ============================================
+
+type Field = { field: number; wireType: number; value: bigint | Uint8Array };
+
+function readVarint(buf: Uint8Array, pos: number): [bigint, number] {
+  let result = 0n;
+  let shift = 0n;
+  while (true) {
+    const b = buf[pos++];
+    result |= BigInt(b & 0x7f) << shift;
+    if (!(b & 0x80)) return [result, pos];
+    shift += 7n;
+  }
+}
+
+function decode(buf: Uint8Array): Field[] {
+  const fields: Field[] = [];
+  let pos = 0;
+  while (pos < buf.length) {
+    const [tag, next] = readVarint(buf, pos);
+    pos = next;
+    const field = Number(tag >> 3n);
+    const wireType = Number(tag & 7n);
+    if (wireType === 0) {
+      const [v, n] = readVarint(buf, pos);
+      fields.push({ field, wireType, value: v });
+      pos = n;
+    } else if (wireType === 1) {
+      const view = new DataView(buf.buffer, buf.byteOffset + pos, 8);
+      fields.push({ field, wireType, value: view.getBigUint64(0, true) });
+      pos += 8;
+    } else if (wireType === 2) {
+      const [len, n] = readVarint(buf, pos);
+      fields.push({ field, wireType, value: buf.subarray(n, n + Number(len)) });
+      pos = n + Number(len);
+    } else if (wireType === 5) {
+      const view = new DataView(buf.buffer, buf.byteOffset + pos, 4);
+      fields.push({ field, wireType, value: BigInt(view.getUint32(0, true)) });
+      pos += 4;
+    } else {
+      throw new Error(`unexpected wire type ${wireType}`);
+    }
+  }
+  return fields;
+}
+
+/** Get the first field with the given number */
+function get(fields: Field[], field: number): Field["value"] {
+  const found = fields.find((f) => f.field === field);
+  if (!found) throw new Error(`field ${field} not found`);
+  return found.value;
+}
+
+/** Get all embedded messages with the given field number, decoded */
+function messages(fields: Field[], field: number): Field[][] {
+  return fields
+    .filter((f) => f.field === field)
+    .map((f) => decode(f.value as Uint8Array));
+}
+
+const text = (v: Field["value"]) => new TextDecoder().decode(v as Uint8Array);
+const hex = (v: Field["value"]) =>
+  Array.from(v as Uint8Array)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+/** Decode KeyValue list into a plain map of AnyValue field -> value */
+function attrs(fields: Field[], field: number): Record<string, Field[]> {
+  return Object.fromEntries(
+    messages(fields, field).map((kv) => [text(get(kv, 1)), decode(get(kv, 2) as Uint8Array)]),
+  );
+}
+
+// ============================================
+// Tests
+// ============================================
+
+const TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const SPAN_ID = "b7ad6b7169203331";
+const PARENT_ID = "00f067aa0ba902b7";
+
+describe("encodeTraceExportRequest", () => {
+  const span: ExportableSpan = {
+    spanContext: () => ({ traceId: TRACE_ID, spanId: SPAN_ID }),
+    name: "GET /users",
+    kind: SpanKind.SERVER,
+    parentSpanId: PARENT_ID,
+    startTime: 1700000000000,
+    endTime: 1700000000250,
+    attributes: { "http.response.status_code": 200, ok: true, ratio: 0.5, empty: "" },
+    status: { code: 2, message: "boom" },
+    events: [{ name: "exception", timestamp: 1700000000100 }],
+    links: [],
+  };
+
+  const request = buildTraceExportRequest([span], "svc", { env: "prod" });
+  const root = decode(encodeTraceExportRequest(request));
+
+  it("encodes resource and scope", () => {
+    const [resourceSpans] = messages(root, 1);
+    const resource = decode(get(resourceSpans, 1) as Uint8Array);
+    const resourceAttrs = attrs(resource, 1);
+    expect(text(get(resourceAttrs["service.name"], 1))).toBe("svc");
+    expect(text(get(resourceAttrs["env"], 1))).toBe("prod");
+
+    const [scopeSpans] = messages(resourceSpans, 2);
+    const scope = decode(get(scopeSpans, 1) as Uint8Array);
+    expect(text(get(scope, 1))).toBe("otel-cloudflare");
+  });
+
+  it("encodes span fields", () => {
+    const [resourceSpans] = messages(root, 1);
+    const [scopeSpans] = messages(resourceSpans, 2);
+    const [encoded] = messages(scopeSpans, 2);
+
+    expect(hex(get(encoded, 1))).toBe(TRACE_ID);
+    expect(hex(get(encoded, 2))).toBe(SPAN_ID);
+    expect(hex(get(encoded, 4))).toBe(PARENT_ID);
+    expect(text(get(encoded, 5))).toBe("GET /users");
+    expect(get(encoded, 6)).toBe(2n); // SPAN_KIND_SERVER
+    expect(get(encoded, 7)).toBe(1700000000000000000n);
+    expect(get(encoded, 8)).toBe(1700000000250000000n);
+
+    const spanAttrs = attrs(encoded, 9);
+    expect(get(spanAttrs["http.response.status_code"], 3)).toBe(200n);
+    expect(get(spanAttrs["ok"], 2)).toBe(1n);
+    expect(new DataView(new BigUint64Array([get(spanAttrs["ratio"], 4) as bigint]).buffer).getFloat64(0, true)).toBe(0.5);
+    // Empty strings are kept so the value type survives
+    expect(text(get(spanAttrs["empty"], 1))).toBe("");
+
+    const [event] = messages(encoded, 11);
+    expect(text(get(event, 2))).toBe("exception");
+
+    const status = decode(get(encoded, 15) as Uint8Array);
+    expect(text(get(status, 2))).toBe("boom");
+    expect(get(status, 3)).toBe(2n); // STATUS_CODE_ERROR
+  });
+
+  it("encodes negative integers as 64-bit two's complement", () => {
+    const negative = buildTraceExportRequest(
+      [{ ...span, attributes: { n: -1 } }],
+      "svc",
+    );
+    const [resourceSpans] = messages(decode(encodeTraceExportRequest(negative)), 1);
+    const [scopeSpans] = messages(resourceSpans, 2);
+    const [encoded] = messages(scopeSpans, 2);
+    expect(get(attrs(encoded, 9)["n"], 3)).toBe(0xffffffffffffffffn);
+  });
+
+  it("encodes arrays and bytes natively", () => {
+    const native = buildTraceExportRequest(
+      [{ ...span, attributes: { tags: ["a", "b"], raw: new Uint8Array([1, 2, 255]) } }],
+      "svc",
+    );
+    const [resourceSpans] = messages(decode(encodeTraceExportRequest(native)), 1);
+    const [scopeSpans] = messages(resourceSpans, 2);
+    const [encoded] = messages(scopeSpans, 2);
+    const spanAttrs = attrs(encoded, 9);
+
+    const values = messages(decode(get(spanAttrs["tags"], 5) as Uint8Array), 1);
+    expect(values.map((v) => text(get(v, 1)))).toEqual(["a", "b"]);
+    expect(Array.from(get(spanAttrs["raw"], 7) as Uint8Array)).toEqual([1, 2, 255]);
+  });
+});
+
+describe("encodeLogExportRequest", () => {
+  it("encodes log records", () => {
+    const log: LogEntry = {
+      level: "warn",
+      message: "disk almost full",
+      timestamp: new Date(1700000000000),
+      attributes: { disk: "sda" },
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 1,
+      observedTimestamp: new Date(1700000000500),
+      eventName: "disk.usage",
+    };
+    const root = decode(encodeLogExportRequest(buildLogExportRequest([log], "svc")));
+    const [resourceLogs] = messages(root, 1);
+    const [scopeLogs] = messages(resourceLogs, 2);
+    const [record] = messages(scopeLogs, 2);
+
+    expect(get(record, 1)).toBe(1700000000000000000n);
+    expect(get(record, 2)).toBe(13n); // SEVERITY_NUMBER_WARN
+    expect(text(get(record, 3))).toBe("WARN");
+    expect(text(get(decode(get(record, 5) as Uint8Array), 1))).toBe("disk almost full");
+    expect(text(get(attrs(record, 6)["disk"], 1))).toBe("sda");
+    expect(hex(get(record, 9))).toBe(TRACE_ID);
+    expect(hex(get(record, 10))).toBe(SPAN_ID);
+    expect(get(record, 8)).toBe(1n);
+    expect(get(record, 11)).toBe(1700000000500000000n);
+    expect(text(get(record, 12))).toBe("disk.usage");
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * OTLP/HTTP Protobuf Encoder for Cloudflare Workers
+ *
+ * Dependency-free protobuf wire format encoder for ExportTraceServiceRequest
+ * and ExportLogsServiceRequest. Takes the same structures produced by
+ * buildTraceExportRequest/buildLogExportRequest, so the JSON and protobuf
+ * exporters always send identical data.
+ *
+ * Field numbers follow opentelemetry-proto (collector/trace/v1,
+ * collector/logs/v1, trace/v1, logs/v1, common/v1, resource/v1).
+ */
+
+import type {
+  OTLPAnyValue,
+  OTLPKeyValue,
+  OTLPSpan,
+  OTLPEvent,
+  OTLPLink,
+  OTLPLogRecord,
+  ExportTraceServiceRequest,
+  ExportLogsServiceRequest,
+} from "./otlp.js";
+
+// ============================================
+// Wire Format Writer
+// ============================================
+
+/** Protobuf wire types */
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Minimal protobuf writer
+ * Nested messages are encoded into their own writer and appended as bytes,
+ * which keeps the code simple at the cost of one copy per nesting level.
+ */
+class ProtoWriter {
+  private chunks: number[] = [];
+
+  private tag(field: number, wireType: number): void {
+    this.varint((field << 3) | wireType);
+  }
+
+  private varint(value: number): void {
+    let v = value >>> 0;
+    while (v > 0x7f) {
+      this.chunks.push((v & 0x7f) | 0x80);
+      v >>>= 7;
+    }
+    this.chunks.push(v);
+  }
+
+  private varint64(value: bigint): void {
+    let v = BigInt.asUintN(64, value);
+    while (v > 0x7fn) {
+      this.chunks.push(Number(v & 0x7fn) | 0x80);
+      v >>= 7n;
+    }
+    this.chunks.push(Number(v));
+  }
+
+  private raw(bytes: Uint8Array): void {
+    for (const b of bytes) {
+      this.chunks.push(b);
+    }
+  }
+
+  /** uint32 / enum field, omitted when zero */
+  uint32(field: number, value: number | undefined): this {
+    if (!value) return this;
+    this.tag(field, WIRE_VARINT);
+    this.varint(value);
+    return this;
+  }
+
+  /** Varint field, always written (oneof members keep their type when zero) */
+  varintAlways(field: number, value: bigint): this {
+    this.tag(field, WIRE_VARINT);
+    this.varint64(value);
+    return this;
+  }
+
+  /** double field, always written */
+  doubleAlways(field: number, value: number): this {
+    this.tag(field, WIRE_FIXED64);
+    const buf = new DataView(new ArrayBuffer(8));
+    buf.setFloat64(0, value, true);
+    this.raw(new Uint8Array(buf.buffer));
+    return this;
+  }
+
+  /** fixed64 field from a decimal string, omitted when zero */
+  fixed64(field: number, value: string | undefined): this {
+    if (value === undefined) return this;
+    const v = BigInt.asUintN(64, BigInt(value));
+    if (v === 0n) return this;
+    this.tag(field, WIRE_FIXED64);
+    const buf = new DataView(new ArrayBuffer(8));
+    buf.setBigUint64(0, v, true);
+    this.raw(new Uint8Array(buf.buffer));
+    return this;
+  }
+
+  /** fixed32 field, omitted when zero */
+  fixed32(field: number, value: number | undefined): this {
+    if (!value) return this;
+    this.tag(field, WIRE_FIXED32);
+    const buf = new DataView(new ArrayBuffer(4));
+    buf.setUint32(0, value >>> 0, true);
+    this.raw(new Uint8Array(buf.buffer));
+    return this;
+  }
+
+  /** string field, omitted when empty */
+  string(field: number, value: string | undefined): this {
+    if (!value) return this;
+    return this.bytes(field, textEncoder.encode(value));
+  }
+
+  /** string field, always written (oneof members keep their type when empty) */
+  stringAlways(field: number, value: string): this {
+    const bytes = textEncoder.encode(value);
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.varint(bytes.length);
+    this.raw(bytes);
+    return this;
+  }
+
+  /** bytes field, omitted when empty */
+  bytes(field: number, value: Uint8Array | undefined): this {
+    if (!value || value.length === 0) return this;
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.varint(value.length);
+    this.raw(value);
+    return this;
+  }
+
+  /** bytes field from a hex string (trace/span IDs), omitted when empty */
+  hex(field: number, value: string | undefined): this {
+    if (!value) return this;
+    return this.bytes(field, hexToBytes(value));
+  }
+
+  /** Embedded message field, always written (even when empty) */
+  message(field: number, encoded: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.varint(encoded.length);
+    this.raw(encoded);
+    return this;
+  }
+
+  /** Repeated embedded message field */
+  repeated<T>(
+    field: number,
+    items: T[] | undefined,
+    encode: (item: T) => Uint8Array,
+  ): this {
+    if (!items) return this;
+    for (const item of items) {
+      this.message(field, encode(item));
+    }
+    return this;
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+/**
+ * Convert a hex string to bytes
+ */
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Convert a base64 string (the OTLP JSON form of bytes) to bytes
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// ============================================
+// common/v1
+// ============================================
+
+function encodeAnyValue(value: OTLPAnyValue): Uint8Array {
+  const w = new ProtoWriter();
+  // Oneof members are written even when empty or zero so the type is kept
+  if (value.stringValue !== undefined) {
+    w.stringAlways(1, value.stringValue);
+  } else if (value.boolValue !== undefined) {
+    w.varintAlways(2, value.boolValue ? 1n : 0n);
+  } else if (value.intValue !== undefined) {
+    w.varintAlways(3, BigInt(value.intValue));
+  } else if (value.doubleValue !== undefined) {
+    w.doubleAlways(4, value.doubleValue);
+  } else if (value.arrayValue !== undefined) {
+    w.message(
+      5,
+      new ProtoWriter()
+        .repeated(1, value.arrayValue.values, encodeAnyValue)
+        .finish(),
+    );
+  } else if (value.kvlistValue !== undefined) {
+    w.message(
+      6,
+      new ProtoWriter()
+        .repeated(1, value.kvlistValue.values, encodeKeyValue)
+        .finish(),
+    );
+  } else if (value.bytesValue !== undefined) {
+    w.message(7, base64ToBytes(value.bytesValue));
+  }
+  return w.finish();
+}
+
+function encodeKeyValue(kv: OTLPKeyValue): Uint8Array {
+  return new ProtoWriter()
+    .string(1, kv.key)
+    .message(2, encodeAnyValue(kv.value))
+    .finish();
+}
+
+function encodeResource(resource: { attributes: OTLPKeyValue[] }): Uint8Array {
+  return new ProtoWriter()
+    .repeated(1, resource.attributes, encodeKeyValue)
+    .finish();
+}
+
+function encodeScope(scope: { name: string; version?: string }): Uint8Array {
+  return new ProtoWriter()
+    .string(1, scope.name)
+    .string(2, scope.version)
+    .finish();
+}
+
+// ============================================
+// trace/v1
+// ============================================
+
+function encodeEvent(event: OTLPEvent): Uint8Array {
+  return new ProtoWriter()
+    .fixed64(1, event.timeUnixNano)
+    .string(2, event.name)
+    .repeated(3, event.attributes, encodeKeyValue)
+    .uint32(4, event.droppedAttributesCount)
+    .finish();
+}
+
+function encodeLink(link: OTLPLink): Uint8Array {
+  return new ProtoWriter()
+    .hex(1, link.traceId)
+    .hex(2, link.spanId)
+    .string(3, link.traceState)
+    .repeated(4, link.attributes, encodeKeyValue)
+    .uint32(5, link.droppedAttributesCount)
+    .finish();
+}
+
+function encodeSpan(span: OTLPSpan): Uint8Array {
+  return new ProtoWriter()
+    .hex(1, span.traceId)
+    .hex(2, span.spanId)
+    .string(3, span.traceState)
+    .hex(4, span.parentSpanId)
+    .string(5, span.name)
+    .uint32(6, span.kind)
+    .fixed64(7, span.startTimeUnixNano)
+    .fixed64(8, span.endTimeUnixNano)
+    .repeated(9, span.attributes, encodeKeyValue)
+    .uint32(10, span.droppedAttributesCount)
+    .repeated(11, span.events, encodeEvent)
+    .uint32(12, span.droppedEventsCount)
+    .repeated(13, span.links, encodeLink)
+    .uint32(14, span.droppedLinksCount)
+    .message(
+      15,
+      new ProtoWriter()
+        .string(2, span.status.message)
+        .uint32(3, span.status.code)
+        .finish(),
+    )
+    .finish();
+}
+
+/**
+ * Encode ExportTraceServiceRequest as protobuf
+ */
+export function encodeTraceExportRequest(
+  request: ExportTraceServiceRequest,
+): Uint8Array {
+  return new ProtoWriter()
+    .repeated(1, request.resourceSpans, (rs) =>
+      new ProtoWriter()
+        .message(1, encodeResource(rs.resource))
+        .repeated(2, rs.scopeSpans, (ss) =>
+          new ProtoWriter()
+            .message(1, encodeScope(ss.scope))
+            .repeated(2, ss.spans, encodeSpan)
+            .finish(),
+        )
+        .finish(),
+    )
+    .finish();
+}
+
+// ============================================
+// logs/v1
+// ============================================
+
+function encodeLogRecord(record: OTLPLogRecord): Uint8Array {
+  return new ProtoWriter()
+    .fixed64(1, record.timeUnixNano)
+    .uint32(2, record.severityNumber)
+    .string(3, record.severityText)
+    .message(5, encodeAnyValue(record.body))
+    .repeated(6, record.attributes, encodeKeyValue)
+    .uint32(7, record.droppedAttributesCount)
+    .fixed32(8, record.flags)
+    .hex(9, record.traceId)
+    .hex(10, record.spanId)
+    .fixed64(11, record.observedTimeUnixNano)
+    .string(12, record.eventName)
+    .finish();
+}
+
+/**
+ * Encode ExportLogsServiceRequest as protobuf
+ */
+export function encodeLogExportRequest(
+  request: ExportLogsServiceRequest,
+): Uint8Array {
+  return new ProtoWriter()
+    .repeated(1, request.resourceLogs, (rl) =>
+      new ProtoWriter()
+        .message(1, encodeResource(rl.resource))
+        .repeated(2, rl.scopeLogs, (sl) =>
+          new ProtoWriter()
+            .message(1, encodeScope(sl.scope))
+            .repeated(2, sl.logRecords, encodeLogRecord)
+            .finish(),
+        )
+        .finish(),
+    )
+    .finish();
+}
+
+// ============================================
+// Export Responses
+// ============================================
+
+/**
+ * Read a varint at pos, returning [value, nextPos]
+ */
+function readVarint(buf: Uint8Array, pos: number): [bigint, number] {
+  let result = 0n;
+  let shift = 0n;
+  while (pos < buf.length) {
+    const b = buf[pos++];
+    result |= BigInt(b & 0x7f) << shift;
+    if (!(b & 0x80)) break;
+    shift += 7n;
+  }
+  return [result, pos];
+}
+
+/**
+ * Iterate top-level fields of a message, calling fn for each
+ * Length-delimited values are passed as bytes, varints as bigint
+ */
+function readFields(
+  buf: Uint8Array,
+  fn: (field: number, value: bigint | Uint8Array) => void,
+): void {
+  let pos = 0;
+  while (pos < buf.length) {
+    const [tag, afterTag] = readVarint(buf, pos);
+    const field = Number(tag >> 3n);
+    const wireType = Number(tag & 7n);
+    pos = afterTag;
+
+    if (wireType === WIRE_VARINT) {
+      const [value, next] = readVarint(buf, pos);
+      fn(field, value);
+      pos = next;
+    } else if (wireType === WIRE_LENGTH_DELIMITED) {
+      const [length, next] = readVarint(buf, pos);
+      fn(field, buf.subarray(next, next + Number(length)));
+      pos = next + Number(length);
+    } else if (wireType === WIRE_FIXED64) {
+      pos += 8;
+    } else if (wireType === WIRE_FIXED32) {
+      pos += 4;
+    } else {
+      return; // Unsupported wire type, stop parsing
+    }
+  }
+}
+
+/**
+ * Decode the partial_success field of ExportTraceServiceResponse or
+ * ExportLogsServiceResponse (both use field 1 with rejected count at 1
+ * and error_message at 2)
+ */
+export function decodePartialSuccess(buf: Uint8Array): {
+  rejected: number;
+  errorMessage?: string;
+} {
+  const result: { rejected: number; errorMessage?: string } = { rejected: 0 };
+  readFields(buf, (field, value) => {
+    if (field !== 1 || !(value instanceof Uint8Array)) return;
+    readFields(value, (innerField, innerValue) => {
+      if (innerField === 1 && typeof innerValue === "bigint") {
+        result.rejected = Number(innerValue);
+      } else if (innerField === 2 && innerValue instanceof Uint8Array) {
+        result.errorMessage = new TextDecoder().decode(innerValue);
+      }
+    });
+  });
+  return result;
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { trace, context, type Span } from "@opentelemetry/api";
+import {
+  initTracing,
+  setSpanLimits,
+  getSpanLimits,
+  parseTracestate,
+  createTracestate,
+  getTracestate,
+  setTracestateEntry,
+  removeTracestateEntry,
+  spanContextFromTraceparent,
+  withParentTrace,
+} from "./provider.js";
+import { spanToOTLP, type ExportableSpan } from "./otlp.js";
+
+const linkContext = {
+  traceId: "0af7651916cd43dd8448eb211c80319c",
+  spanId: "b7ad6b7169203331",
+  traceFlags: 1,
+};
+
+function startSpan(name = "span"): Span {
+  return trace.getTracer("test").startSpan(name);
+}
+
+beforeEach(() => {
+  initTracing();
+});
+
+afterEach(() => {
+  setSpanLimits(null);
+});
+
+// ============================================
+// Span limits
+// ============================================
+
+describe("span limits", () => {
+  it("defaults counts to 128 and leaves value length unlimited", () => {
+    expect(getSpanLimits()).toMatchObject({
+      attributeCountLimit: 128,
+      eventCountLimit: 128,
+      linkCountLimit: 128,
+    });
+    expect(getSpanLimits().attributeValueLengthLimit).toBeUndefined();
+  });
+
+  it("counts dropped attributes, events and links", () => {
+    setSpanLimits({ attributeCountLimit: 1, eventCountLimit: 1, linkCountLimit: 1 });
+    const span = startSpan();
+    span.setAttributes({ a: 1, b: 2, c: 3 });
+    span.addEvent("one");
+    span.addEvent("two");
+    span.addLinks([{ context: linkContext }, { context: linkContext }]);
+
+    const otlp = spanToOTLP(span as unknown as ExportableSpan);
+    expect(otlp.attributes).toHaveLength(1);
+    expect(otlp.droppedAttributesCount).toBe(2);
+    expect(otlp.events).toHaveLength(1);
+    expect(otlp.droppedEventsCount).toBe(1);
+    expect(otlp.links).toHaveLength(1);
+    expect(otlp.droppedLinksCount).toBe(1);
+  });
+
+  it("limits attributes per event and link", () => {
+    setSpanLimits({
+      attributePerEventCountLimit: 1,
+      attributePerLinkCountLimit: 1,
+      attributeValueLengthLimit: 2,
+    });
+    const span = startSpan();
+    span.addEvent("event", { a: "long", b: "dropped" });
+    span.addLink({ context: linkContext, attributes: { a: "long", b: 1, c: 2 } });
+
+    const otlp = spanToOTLP(span as unknown as ExportableSpan);
+    expect(otlp.events[0].attributes).toEqual([{ key: "a", value: { stringValue: "lo" } }]);
+    expect(otlp.events[0].droppedAttributesCount).toBe(1);
+    expect(otlp.links[0].droppedAttributesCount).toBe(2);
+  });
+
+  it("applies limits to attributes and links passed at start", () => {
+    setSpanLimits({ attributeCountLimit: 2, linkCountLimit: 0 });
+    const span = trace.getTracer("test").startSpan("span", {
+      attributes: { a: 1, b: 2, c: 3 },
+      links: [{ context: linkContext }],
+    });
+
+    const otlp = spanToOTLP(span as unknown as ExportableSpan);
+    expect(otlp.attributes).toHaveLength(2);
+    expect(otlp.droppedAttributesCount).toBe(1);
+    expect(otlp.links).toHaveLength(0);
+    expect(otlp.droppedLinksCount).toBe(1);
+  });
+
+  it("still updates existing attributes at the limit", () => {
+    setSpanLimits({ attributeCountLimit: 1 });
+    const span = startSpan();
+    span.setAttribute("a", 1);
+    span.setAttribute("a", 2);
+
+    expect((span as unknown as ExportableSpan).attributes).toEqual({ a: 2 });
+    expect((span as unknown as ExportableSpan).droppedAttributesCount).toBe(0);
+  });
+});
+
+// ============================================
+// tracestate
+// ============================================
+
+describe("tracestate", () => {
+  const traceparent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+
+  it("parses list-members with optional whitespace and empty members", () => {
+    const ts = parseTracestate(" congo=t61rcWkgMzE ,, rojo=00f067aa0ba902b7,t@vendor=x ");
+    expect(ts?.get("congo")).toBe("t61rcWkgMzE");
+    expect(ts?.get("rojo")).toBe("00f067aa0ba902b7");
+    expect(ts?.serialize()).toBe("congo=t61rcWkgMzE,rojo=00f067aa0ba902b7,t@vendor=x");
+  });
+
+  it("discards headers with malformed members, duplicate keys or over 32 members", () => {
+    expect(parseTracestate("Congo=1")).toBeUndefined();
+    expect(parseTracestate("congo")).toBeUndefined();
+    expect(parseTracestate("congo=a,b")).toBeUndefined();
+    expect(parseTracestate("congo=a=b")).toBeUndefined();
+    expect(parseTracestate("congo=caf\u00e9")).toBeUndefined();
+    expect(parseTracestate("congo=1,congo=2")).toBeUndefined();
+    const members = Array.from({ length: 33 }, (_, i) => `k${i}=v`).join(",");
+    expect(parseTracestate(members)).toBeUndefined();
+    expect(parseTracestate("")).toBeUndefined();
+    expect(parseTracestate(null)).toBeUndefined();
+  });
+
+  it("moves updated keys to the front and caps the list at 32 members", () => {
+    let ts = parseTracestate("a=1,b=2")!;
+    ts = ts.set("b", "3");
+    expect(ts.serialize()).toBe("b=3,a=1");
+
+    for (let i = 0; i < 40; i++) ts = ts.set(`k${i}`, "v");
+    expect(ts.serialize().split(",")).toHaveLength(32);
+    expect(ts.get("k39")).toBe("v");
+    expect(ts.get("a")).toBeUndefined();
+  });
+
+  it("ignores invalid keys and values on set", () => {
+    const ts = createTracestate().set("Bad", "1").set("ok", "a,b");
+    expect(ts.serialize()).toBe("");
+  });
+
+  it("drops large members first when serializing over 512 characters", () => {
+    const large = "x".repeat(200);
+    let ts = createTracestate();
+    for (let i = 0; i < 3; i++) ts = ts.set(`small${i}`, "v");
+    ts = ts.set("large", large);
+    for (let i = 0; i < 4; i++) ts = ts.set(`mid${i}`, "y".repeat(100));
+
+    const serialized = ts.serialize();
+    expect(serialized.length).toBeLessThanOrEqual(512);
+    expect(serialized).not.toContain("large=");
+    expect(serialized).toContain("small0=v");
+  });
+
+  it("attaches tracestate to extracted span contexts and child spans", () => {
+    const parent = spanContextFromTraceparent(traceparent, "congo=t61rcWkgMzE");
+    expect(parent?.traceState?.get("congo")).toBe("t61rcWkgMzE");
+    expect(spanContextFromTraceparent(traceparent, "INVALID")?.traceState).toBeUndefined();
+
+    withParentTrace(parent!, () => {
+      const span = startSpan();
+      expect(span.spanContext().traceState?.serialize()).toBe("congo=t61rcWkgMzE");
+      const otlp = spanToOTLP(span as unknown as ExportableSpan);
+      expect(otlp.traceState).toBe("congo=t61rcWkgMzE");
+    });
+  });
+
+  it("adds, updates and removes entries on the active span", () => {
+    const parent = spanContextFromTraceparent(traceparent, "congo=1")!;
+    withParentTrace(parent, () => {
+      const span = startSpan();
+      context.with(trace.setSpan(context.active(), span), () => {
+        setTracestateEntry("acme", "edge");
+        expect(getTracestate()).toBe("acme=edge,congo=1");
+        setTracestateEntry("congo", "2");
+        expect(getTracestate()).toBe("congo=2,acme=edge");
+        removeTracestateEntry("congo");
+        expect(getTracestate()).toBe("acme=edge");
+
+        // Inherited by spans started afterwards
+        expect(startSpan().spanContext().traceState?.get("acme")).toBe("edge");
+      });
+    });
+  });
+
+  it("returns null without an active span or tracestate", () => {
+    expect(getTracestate()).toBeNull();
+    withParentTrace(traceparent, () => {
+      expect(getTracestate()).toBeNull();
+    });
+  });
+});
@@ -23,10 +23,19 @@ import {
   type AttributeValue,
   type Attributes,
   type Exception,
+  type TraceState,
   SpanStatusCode,
   TraceFlags,
   ROOT_CONTEXT,
 } from "@opentelemetry/api";
+import {
+  AlwaysOnSampler,
+  ParentBasedSampler,
+  SamplingDecision,
+  type Sampler,
+} from "./sampler.js";
+import { getBaggageAttributes } from "./baggage.js";
+import { getEnvSettings, getScopedSettings } from "./settings.js";
 
 /**
  * Generate a random trace ID (32 hex characters)
@@ -91,23 +100,33 @@ export function parseTraceparent(traceparent: string): TraceContext | null {
 /**
  * Convert TraceContext to SpanContext
  */
-export function toSpanContext(ctx: TraceContext): SpanContext {
+export function toSpanContext(
+  ctx: TraceContext,
+  traceState?: TraceState,
+): SpanContext {
   return {
     traceId: ctx.traceId,
     spanId: ctx.spanId,
     traceFlags: parseInt(ctx.flags, 16) as TraceFlags,
+    traceState,
     isRemote: true,
   };
 }
 
 /**
  * Format trace context as W3C traceparent header
+ * All trace flags are written as-is (sampled, W3C Level 2 random, ...),
+ * they default to sampled (01) only when traceFlags is not provided
  */
 export function toTraceparent(ctx: {
   traceId: string;
   spanId: string;
+  traceFlags?: number;
 }): string {
-  return `00-${ctx.traceId}-${ctx.spanId}-01`;
+  const flags = ((ctx.traceFlags ?? TraceFlags.SAMPLED) & 0xff)
+    .toString(16)
+    .padStart(2, "0");
+  return `00-${ctx.traceId}-${ctx.spanId}-${flags}`;
 }
 
 /**
@@ -122,6 +141,180 @@ export function getTraceparent(): string | null {
   return toTraceparent(span.spanContext());
 }
 
+// ============================================
+// W3C tracestate
+// ============================================
+
+/** Maximum list-members in a tracestate header */
+const MAX_TRACESTATE_MEMBERS = 32;
+
+/** Maximum serialized tracestate length before entries are dropped */
+const MAX_TRACESTATE_LENGTH = 512;
+
+/** List-members longer than this are dropped first when truncating */
+const LARGE_TRACESTATE_MEMBER = 128;
+
+/** Simple key, or multi-tenant tenant@system key */
+const TRACESTATE_KEY =
+  /^(?:[a-z][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+
+/** Printable ASCII except "," and "=", no trailing space */
+const TRACESTATE_VALUE = /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+/**
+ * Check a tracestate key against the W3C grammar
+ */
+export function isValidTracestateKey(key: string): boolean {
+  return TRACESTATE_KEY.test(key);
+}
+
+/**
+ * Check a tracestate value against the W3C grammar
+ */
+export function isValidTracestateValue(value: string): boolean {
+  return TRACESTATE_VALUE.test(value);
+}
+
+/**
+ * Immutable W3C tracestate, entries ordered most recently updated first
+ */
+class W3CTraceState implements TraceState {
+  constructor(private readonly entries: ReadonlyArray<[string, string]> = []) {}
+
+  /**
+   * Add or update an entry, moving it to the front
+   * Invalid keys or values leave the tracestate unchanged; when the list is
+   * full the right-most entry is dropped
+   */
+  set(key: string, value: string): TraceState {
+    if (!isValidTracestateKey(key) || !isValidTracestateValue(value)) {
+      return this;
+    }
+    const rest = this.entries.filter(([k]) => k !== key);
+    return new W3CTraceState(
+      [[key, value] as [string, string], ...rest].slice(0, MAX_TRACESTATE_MEMBERS),
+    );
+  }
+
+  unset(key: string): TraceState {
+    return new W3CTraceState(this.entries.filter(([k]) => k !== key));
+  }
+
+  get(key: string): string | undefined {
+    return this.entries.find(([k]) => k === key)?.[1];
+  }
+
+  /**
+   * Serialize as a tracestate header value
+   * Over 512 characters, entries longer than 128 characters are dropped
+   * first, then entries from the right
+   */
+  serialize(): string {
+    const members = this.entries.map(([k, v]) => `${k}=${v}`);
+
+    while (members.join(",").length > MAX_TRACESTATE_LENGTH) {
+      let drop = members.length - 1;
+      for (let i = members.length - 1; i >= 0; i--) {
+        if (members[i].length > LARGE_TRACESTATE_MEMBER) {
+          drop = i;
+          break;
+        }
+      }
+      members.splice(drop, 1);
+    }
+    return members.join(",");
+  }
+}
+
+/**
+ * Create an empty tracestate
+ */
+export function createTracestate(): TraceState {
+  return new W3CTraceState();
+}
+
+/**
+ * Parse a W3C tracestate header
+ *
+ * Empty list-members and optional whitespace are allowed. A malformed
+ * list-member, a duplicate key or more than 32 list-members invalidates the
+ * whole header, which is then discarded as the spec requires.
+ * Returns undefined for missing, empty or invalid headers.
+ */
+export function parseTracestate(
+  tracestate: string | null | undefined,
+): TraceState | undefined {
+  if (!tracestate) {
+    return undefined;
+  }
+
+  const entries: [string, string][] = [];
+  for (const part of tracestate.split(",")) {
+    const member = part.trim();
+    if (!member) continue;
+
+    const eq = member.indexOf("=");
+    if (eq === -1) return undefined;
+    const key = member.slice(0, eq);
+    const value = member.slice(eq + 1);
+    if (!isValidTracestateKey(key) || !isValidTracestateValue(value)) {
+      return undefined;
+    }
+    if (entries.some(([k]) => k === key)) return undefined;
+    entries.push([key, value]);
+  }
+
+  if (entries.length === 0 || entries.length > MAX_TRACESTATE_MEMBERS) {
+    return undefined;
+  }
+  return new W3CTraceState(entries);
+}
+
+/**
+ * Get the current tracestate header value from active context
+ * Returns null if there is no active span or its tracestate is empty
+ */
+export function getTracestate(): string | null {
+  const span = trace.getSpan(context.active());
+  return span?.spanContext().traceState?.serialize() || null;
+}
+
+/**
+ * Add or update a tracestate entry on the active span
+ *
+ * The entry moves to the front of the list, as W3C requires for a vendor
+ * that updates its own key. It is inherited by spans started afterwards
+ * and propagated by tracedFetch, queues and workflows.
+ * Does nothing (with a warning) for invalid keys or values, or without an
+ * active span.
+ *
+ * @example
+ * setTracestateEntry("acme", `colo:${request.cf?.colo}`);
+ */
+export function setTracestateEntry(key: string, value: string): void {
+  if (!isValidTracestateKey(key) || !isValidTracestateValue(value)) {
+    console.warn(`[otel-cloudflare] invalid tracestate entry "${key}=${value}", ignoring`);
+    return;
+  }
+  const span = trace.getSpan(context.active());
+  if (!span) {
+    return;
+  }
+  const spanContext = span.spanContext();
+  spanContext.traceState = (spanContext.traceState ?? createTracestate()).set(key, value);
+}
+
+/**
+ * Remove a tracestate entry from the active span
+ */
+export function removeTracestateEntry(key: string): void {
+  const span = trace.getSpan(context.active());
+  const spanContext = span?.spanContext();
+  if (spanContext?.traceState) {
+    spanContext.traceState = spanContext.traceState.unset(key);
+  }
+}
+
 /**
  * Span event for recording timestamped events
  */
@@ -129,6 +322,7 @@ interface SpanEvent {
   name: string;
   timestamp: number;
   attributes?: Attributes;
+  droppedAttributesCount?: number;
 }
 
 /**
@@ -148,6 +342,11 @@ class CloudflareSpan implements Span {
   private _attributes: Attributes = {};
   private _events: SpanEvent[] = [];
   private _links: Link[] = [];
+  private readonly _processor: SpanProcessor | null;
+  private readonly _limits: SpanLimits = getSpanLimits();
+  private _droppedAttributesCount = 0;
+  private _droppedEventsCount = 0;
+  private _droppedLinksCount = 0;
 
   constructor(
     name: string,
@@ -157,17 +356,19 @@ class CloudflareSpan implements Span {
     startTime?: TimeInput,
     attributes?: Attributes,
     links?: Link[],
+    processor: SpanProcessor | null = null,
   ) {
     this._name = name;
+    this._processor = processor;
     this._spanContext = spanContext;
     this._kind = kind;
     this._parentSpanId = parentSpanId;
     this._startTime = this._timeInputToMs(startTime) ?? Date.now();
     if (attributes) {
-      this._attributes = { ...attributes };
+      this.setAttributes(attributes);
     }
     if (links) {
-      this._links = [...links];
+      this.addLinks(links);
     }
   }
 
@@ -191,13 +392,25 @@ class CloudflareSpan implements Span {
 
   setAttribute(key: string, value: AttributeValue): this {
     if (this._ended) return this;
-    this._attributes[key] = value;
+    const { attributeCountLimit, attributeValueLengthLimit } = this._limits;
+    if (
+      attributeCountLimit !== undefined &&
+      !(key in this._attributes) &&
+      Object.keys(this._attributes).length >= attributeCountLimit
+    ) {
+      this._droppedAttributesCount++;
+      return this;
+    }
+    this._attributes[key] = truncateAttributeValue(value, attributeValueLengthLimit);
     return this;
   }
 
   setAttributes(attributes: Attributes): this {
-    if (this._ended) return this;
-    Object.assign(this._attributes, attributes);
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        this.setAttribute(key, value);
+      }
+    }
     return this;
   }
 
@@ -232,19 +445,61 @@ class CloudflareSpan implements Span {
       }
     }
 
-    this._events.push({ name, timestamp, attributes });
+    const { eventCountLimit, attributePerEventCountLimit, attributeValueLengthLimit } =
+      this._limits;
+    if (eventCountLimit !== undefined && this._events.length >= eventCountLimit) {
+      this._droppedEventsCount++;
+      return this;
+    }
+
+    if (!attributes) {
+      this._events.push({ name, timestamp });
+      return this;
+    }
+    const limited = limitAttributes(
+      attributes,
+      attributePerEventCountLimit,
+      attributeValueLengthLimit,
+    );
+    this._events.push({
+      name,
+      timestamp,
+      attributes: limited.attributes,
+      droppedAttributesCount: limited.dropped,
+    });
     return this;
   }
 
   addLink(link: Link): this {
     if (this._ended) return this;
-    this._links.push(link);
+    const { linkCountLimit, attributePerLinkCountLimit, attributeValueLengthLimit } =
+      this._limits;
+    if (linkCountLimit !== undefined && this._links.length >= linkCountLimit) {
+      this._droppedLinksCount++;
+      return this;
+    }
+
+    if (!link.attributes) {
+      this._links.push(link);
+      return this;
+    }
+    const limited = limitAttributes(
+      link.attributes,
+      attributePerLinkCountLimit,
+      attributeValueLengthLimit,
+    );
+    this._links.push({
+      ...link,
+      attributes: limited.attributes,
+      droppedAttributesCount: (link.droppedAttributesCount ?? 0) + limited.dropped,
+    });
     return this;
   }
 
   addLinks(links: Link[]): this {
-    if (this._ended) return this;
-    this._links.push(...links);
+    for (const link of links) {
+      this.addLink(link);
+    }
     return this;
   }
 
@@ -272,9 +527,14 @@ class CloudflareSpan implements Span {
       this._endTime = Date.now();
     }
 
-    // Notify processor if registered
-    if (activeSpanProcessor) {
-      activeSpanProcessor.onEnd(this);
+    // Recorded-but-unsampled spans are never exported
+    if (!(this._spanContext.traceFlags & TraceFlags.SAMPLED)) return;
+
+    // Notify the request-scoped processor captured at start, falling back
+    // to the isolate-wide processor for spans started outside any scope
+    const processor = this._processor ?? activeSpanProcessor;
+    if (processor) {
+      processor.onEnd(this);
     }
   }
 
@@ -327,6 +587,15 @@ class CloudflareSpan implements Span {
   get links(): Link[] {
     return this._links;
   }
+  get droppedAttributesCount(): number {
+    return this._droppedAttributesCount;
+  }
+  get droppedEventsCount(): number {
+    return this._droppedEventsCount;
+  }
+  get droppedLinksCount(): number {
+    return this._droppedLinksCount;
+  }
 }
 
 /**
@@ -343,14 +612,44 @@ class CloudflareTracer implements Tracer {
     const spanId = generateSpanId();
     const parentSpanId = parentSpanContext?.spanId;
 
+    const kind = options?.kind ?? SpanKind.INTERNAL;
+    // Selected baggage keys, overridden by explicit attributes
+    const attributes = {
+      ...getBaggageAttributes(parentContext),
+      ...options?.attributes,
+    };
+    const links = options?.links ?? [];
+
+    // Head sampling decision
+    const sampling = getSampler().shouldSample(
+      parentContext,
+      traceId,
+      name,
+      kind,
+      attributes,
+      links,
+    );
+
+    // The sampler owns the sampled bit, other flags (e.g. W3C Level 2
+    // "random") are inherited from the parent
+    const inheritedFlags =
+      (parentSpanContext?.traceFlags ?? TraceFlags.NONE) & ~TraceFlags.SAMPLED;
     const spanContext: SpanContext = {
       traceId,
       spanId,
-      traceFlags: TraceFlags.SAMPLED,
+      traceFlags:
+        inheritedFlags |
+        (sampling.decision === SamplingDecision.RECORD_AND_SAMPLED
+          ? TraceFlags.SAMPLED
+          : TraceFlags.NONE),
+      traceState: sampling.traceState ?? parentSpanContext?.traceState,
       isRemote: false,
     };
 
-    const kind = options?.kind ?? SpanKind.INTERNAL;
+    // Dropped traces get a non-recording span that only carries context
+    if (sampling.decision === SamplingDecision.NOT_RECORD) {
+      return trace.wrapSpanContext(spanContext);
+    }
 
     return new CloudflareSpan(
       name,
@@ -358,8 +657,9 @@ class CloudflareTracer implements Tracer {
       kind,
       parentSpanId,
       options?.startTime,
-      options?.attributes,
-      options?.links,
+      { ...attributes, ...sampling.attributes },
+      links,
+      spanProcessorStorage.getStore() ?? null,
     );
   }
 
@@ -502,12 +802,15 @@ export class SimpleSpanProcessor implements SpanProcessor {
   }
 }
 
-/** Active span processor for collecting spans */
+/** Isolate-wide fallback span processor */
 let activeSpanProcessor: SpanProcessor | null = null;
 
+/** Storage for the request-scoped span processor */
+const spanProcessorStorage = new AsyncLocalStorage<SpanProcessor>();
+
 /**
- * Set the active span processor
- * Called internally by instrument() or can be set manually for custom setups
+ * Set the isolate-wide fallback span processor
+ * Receives spans started outside runWithSpanProcessor()
  */
 export function setSpanProcessor(processor: SpanProcessor | null): void {
   activeSpanProcessor = processor;
@@ -515,11 +818,174 @@ export function setSpanProcessor(processor: SpanProcessor | null): void {
 
 /**
  * Get the active span processor
+ * Returns the request-scoped processor if inside runWithSpanProcessor(),
+ * otherwise the isolate-wide fallback
  */
 export function getSpanProcessor(): SpanProcessor | null {
+  return spanProcessorStorage.getStore() ?? activeSpanProcessor;
+}
+
+/**
+ * Get the isolate-wide fallback span processor, ignoring any request scope
+ */
+export function getFallbackSpanProcessor(): SpanProcessor | null {
   return activeSpanProcessor;
 }
 
+/**
+ * Run a function with a request-scoped span processor
+ *
+ * Spans started inside fn are delivered to this processor when they end,
+ * even if other requests in the same isolate are in flight concurrently.
+ */
+export function runWithSpanProcessor<T>(
+  processor: SpanProcessor,
+  fn: () => T,
+): T {
+  return spanProcessorStorage.run(processor, fn);
+}
+
+// ============================================
+// Sampler
+// ============================================
+
+/** Default head sampler, parentbased_always_on */
+const DEFAULT_SAMPLER: Sampler = new ParentBasedSampler({
+  root: new AlwaysOnSampler(),
+});
+
+/** Process-wide head sampler, null unless set explicitly */
+let activeSampler: Sampler | null = null;
+
+/**
+ * Set the head sampler used by CloudflareTracer for new spans
+ * Takes priority over OTEL_TRACES_SAMPLER; pass null to fall back to it or
+ * to the default (ParentBased with AlwaysOn root)
+ */
+export function setSampler(sampler: Sampler | null): void {
+  activeSampler = sampler;
+}
+
+/**
+ * Get the head sampler of the current handler, else the process-wide one,
+ * else the one from the request's env
+ */
+export function getSampler(): Sampler {
+  return (
+    getScopedSettings()?.sampler ??
+    activeSampler ??
+    getEnvSettings()?.sampler ??
+    DEFAULT_SAMPLER
+  );
+}
+
+// ============================================
+// Span Limits
+// ============================================
+
+/**
+ * Limits enforced by CloudflareSpan
+ * Counts default to 128 as in the OpenTelemetry SDK; value length is unlimited
+ */
+export interface SpanLimits {
+  /** Maximum length of string attribute values, longer ones are truncated */
+  attributeValueLengthLimit?: number;
+  /** Maximum number of attributes per span, new keys beyond it are dropped */
+  attributeCountLimit?: number;
+  /** Maximum number of events per span, later events are dropped */
+  eventCountLimit?: number;
+  /** Maximum number of links per span, later links are dropped */
+  linkCountLimit?: number;
+  /** Maximum number of attributes per event */
+  attributePerEventCountLimit?: number;
+  /** Maximum number of attributes per link */
+  attributePerLinkCountLimit?: number;
+}
+
+const DEFAULT_SPAN_LIMITS: SpanLimits = {
+  attributeCountLimit: 128,
+  eventCountLimit: 128,
+  linkCountLimit: 128,
+  attributePerEventCountLimit: 128,
+  attributePerLinkCountLimit: 128,
+};
+
+/** Process-wide span limits, null unless set explicitly */
+let activeSpanLimits: SpanLimits | null = null;
+
+/**
+ * Set the limits applied to spans started from now on
+ * Limits left undefined keep their default; they take priority over the
+ * OTEL_*_LIMIT env vars, pass null to fall back to those
+ */
+export function setSpanLimits(limits: SpanLimits | null): void {
+  activeSpanLimits = limits && withDefaultLimits(limits);
+}
+
+/**
+ * Get the span limits of the current handler, else the process-wide ones,
+ * else the ones from the request's env
+ */
+export function getSpanLimits(): SpanLimits {
+  const scoped = getScopedSettings()?.spanLimits;
+  if (scoped) return withDefaultLimits(scoped);
+  if (activeSpanLimits) return activeSpanLimits;
+  const fromEnv = getEnvSettings()?.spanLimits;
+  return fromEnv ? withDefaultLimits(fromEnv) : DEFAULT_SPAN_LIMITS;
+}
+
+/**
+ * Fill limits left undefined with their default
+ */
+function withDefaultLimits(limits: SpanLimits): SpanLimits {
+  const defined = Object.fromEntries(
+    Object.entries(limits).filter(([, value]) => value !== undefined),
+  );
+  return { ...DEFAULT_SPAN_LIMITS, ...defined };
+}
+
+/**
+ * Truncate string values (and strings in arrays) to the length limit
+ */
+function truncateAttributeValue(
+  value: AttributeValue,
+  limit: number | undefined,
+): AttributeValue {
+  if (limit === undefined) return value;
+  if (typeof value === "string") {
+    return value.length > limit ? value.slice(0, limit) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) =>
+      typeof v === "string" && v.length > limit ? v.slice(0, limit) : v,
+    ) as AttributeValue;
+  }
+  return value;
+}
+
+/**
+ * Apply count and value length limits to an event or link attribute set
+ */
+function limitAttributes(
+  attributes: Attributes,
+  countLimit: number | undefined,
+  valueLengthLimit: number | undefined,
+): { attributes: Attributes; dropped: number } {
+  const result: Attributes = {};
+  let count = 0;
+  let dropped = 0;
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined) continue;
+    if (countLimit !== undefined && count >= countLimit) {
+      dropped++;
+      continue;
+    }
+    result[key] = truncateAttributeValue(value, valueLengthLimit);
+    count++;
+  }
+  return { attributes: result, dropped };
+}
+
 /** Singleton provider instance */
 let providerInstance: CloudflareTracerProvider | null = null;
 
@@ -582,17 +1048,19 @@ export function initTracing(): void {
 }
 
 /**
- * Create a span context from a traceparent string
+ * Create a span context from a traceparent string and optional tracestate
  * Useful for setting up parent context from incoming requests
+ * An invalid tracestate is discarded without rejecting the traceparent
  */
 export function spanContextFromTraceparent(
   traceparent: string,
+  tracestate?: string | null,
 ): SpanContext | null {
   const parsed = parseTraceparent(traceparent);
   if (!parsed) {
     return null;
   }
-  return toSpanContext(parsed);
+  return toSpanContext(parsed, parseTracestate(tracestate));
 }
 
 /**
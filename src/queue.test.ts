@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { trace } from "@opentelemetry/api";
+import {
+  createOTLPQueueConsumer,
+  mergeTraceExportRequests,
+  mergeLogExportRequests,
+  type OTLPQueueMessage,
+} from "./queue.js";
+import { initOTLP } from "./flush.js";
+import { setSpanProcessor } from "./provider.js";
+import { setOTLPLogHandler } from "./logger.js";
+import { unpatchGlobalFetch } from "./fetch.js";
+import type {
+  ExportTraceServiceRequest,
+  ExportLogsServiceRequest,
+  OTLPExporterConfig,
+  OTLPSpan,
+} from "./otlp.js";
+
+const config: OTLPExporterConfig = {
+  endpoint: "https://otlp.example.com",
+  headers: {},
+  retry: false,
+};
+
+function traceRequest(
+  service: string,
+  scope: string,
+  spanName: string,
+): ExportTraceServiceRequest {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: [{ key: "service.name", value: { stringValue: service } }],
+        },
+        scopeSpans: [
+          { scope: { name: scope }, spans: [{ name: spanName } as OTLPSpan] },
+        ],
+      },
+    ],
+  };
+}
+
+function logRequest(service: string): ExportLogsServiceRequest {
+  return {
+    resourceLogs: [
+      {
+        resource: {
+          attributes: [{ key: "service.name", value: { stringValue: service } }],
+        },
+        scopeLogs: [{ scope: { name: "logger" }, logRecords: [] }],
+      },
+    ],
+  };
+}
+
+/** Build a fake MessageBatch recording ack/retry per message */
+function createBatch(bodies: unknown[]) {
+  const state = bodies.map(() => ({ acked: false, retried: false }));
+  return {
+    state,
+    batch: {
+      messages: bodies.map((body, i) => ({
+        body,
+        ack: () => {
+          state[i].acked = true;
+        },
+        retry: () => {
+          state[i].retried = true;
+        },
+      })),
+    },
+  };
+}
+
+afterEach(() => {
+  unpatchGlobalFetch();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  setSpanProcessor(null);
+  setOTLPLogHandler(null);
+});
+
+describe("mergeTraceExportRequests", () => {
+  it("merges spans sharing a resource and scope", () => {
+    const merged = mergeTraceExportRequests([
+      traceRequest("a", "scope", "one"),
+      traceRequest("a", "scope", "two"),
+      traceRequest("a", "other", "three"),
+      traceRequest("b", "scope", "four"),
+    ]);
+
+    expect(merged.resourceSpans).toHaveLength(2);
+    const [a, b] = merged.resourceSpans;
+    expect(a.scopeSpans.map((s) => s.spans.map((sp) => sp.name))).toEqual([
+      ["one", "two"],
+      ["three"],
+    ]);
+    expect(b.scopeSpans[0].spans.map((sp) => sp.name)).toEqual(["four"]);
+  });
+
+  it("does not mutate the input requests", () => {
+    const first = traceRequest("a", "scope", "one");
+    mergeTraceExportRequests([first, traceRequest("a", "scope", "two")]);
+
+    expect(first.resourceSpans[0].scopeSpans[0].spans).toHaveLength(1);
+  });
+});
+
+describe("mergeLogExportRequests", () => {
+  it("merges log groups sharing a resource", () => {
+    const merged = mergeLogExportRequests([logRequest("a"), logRequest("a")]);
+
+    expect(merged.resourceLogs).toHaveLength(1);
+    expect(merged.resourceLogs[0].scopeLogs).toHaveLength(1);
+  });
+});
+
+describe("createOTLPQueueConsumer", () => {
+  it("forwards merged requests and acks the messages", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+    const { batch, state } = createBatch([
+      { signal: "trace", request: traceRequest("a", "s", "one") },
+      { signal: "trace", request: traceRequest("a", "s", "two") },
+      { signal: "log", request: logRequest("a") },
+    ] satisfies OTLPQueueMessage[]);
+
+    await createOTLPQueueConsumer({ config })(batch);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const traceCall = fetchMock.mock.calls.find(
+      (c) => (c as unknown[])[0] === "https://otlp.example.com/v1/traces",
+    ) as unknown as [string, RequestInit];
+    const body = JSON.parse(traceCall[1].body as string);
+    expect(body.resourceSpans[0].scopeSpans[0].spans).toHaveLength(2);
+    expect(state.every((s) => s.acked)).toBe(true);
+  });
+
+  it("retries messages when the collector is unavailable", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 503 })));
+    const { batch, state } = createBatch([
+      { signal: "trace", request: traceRequest("a", "s", "one") },
+    ]);
+
+    await createOTLPQueueConsumer({ config })(batch);
+
+    expect(state[0].retried).toBe(true);
+    expect(state[0].acked).toBe(false);
+  });
+
+  it("fans out to every exporter and retries if any is unavailable", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn(async (url: string) =>
+      url.startsWith("https://backup.example.com")
+        ? new Response("", { status: 503 })
+        : new Response("{}"),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const { batch, state } = createBatch([
+      { signal: "trace", request: traceRequest("a", "s", "one") },
+    ]);
+
+    await createOTLPQueueConsumer({
+      config: [config, { ...config, endpoint: "https://backup.example.com" }],
+    })(batch);
+
+    expect(fetchMock.mock.calls.map((c) => c[0])).toEqual([
+      "https://otlp.example.com/v1/traces",
+      "https://backup.example.com/v1/traces",
+    ]);
+    expect(state[0].retried).toBe(true);
+    expect(state[0].acked).toBe(false);
+  });
+
+  it("routes messages built for an exporter only to that exporter", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+    const { batch, state } = createBatch([
+      { signal: "trace", request: traceRequest("a", "s", "one"), exporter: "backup" },
+      { signal: "trace", request: traceRequest("a", "s", "two"), exporter: 0 },
+      { signal: "trace", request: traceRequest("a", "s", "three"), exporter: "unknown" },
+    ] satisfies OTLPQueueMessage[]);
+
+    await createOTLPQueueConsumer({
+      config: [config, { ...config, name: "backup", endpoint: "https://backup.example.com" }],
+    })(batch);
+
+    const sent = fetchMock.mock.calls.map((c) => {
+      const [url, init] = c as unknown as [string, RequestInit];
+      const body = JSON.parse(init.body as string) as ExportTraceServiceRequest;
+      return [url, body.resourceSpans[0].scopeSpans[0].spans.map((sp) => sp.name)];
+    });
+    expect(sent).toEqual([
+      ["https://backup.example.com/v1/traces", ["one"]],
+      ["https://otlp.example.com/v1/traces", ["two"]],
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"unknown"'));
+    expect(state.every((s) => s.acked)).toBe(true);
+  });
+
+  it("acks and drops malformed messages", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { batch, state } = createBatch([{ hello: "world" }]);
+
+    await createOTLPQueueConsumer({ config })(batch);
+
+    expect(state[0].acked).toBe(true);
+  });
+});
+
+describe("initOTLP with exportQueue", () => {
+  it("enqueues built requests instead of exporting", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+    const sent: OTLPQueueMessage[] = [];
+    const queue = { send: async (message: OTLPQueueMessage) => void sent.push(message) };
+
+    const ctx = initOTLP({ OTLP_QUEUE: queue }, "svc", null, {
+      exportQueue: "OTLP_QUEUE",
+    });
+    ctx.run(() => trace.getTracer("test").startSpan("queued").end());
+    await ctx.flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].signal).toBe("trace");
+  });
+
+  it("enqueues one request per exporter with its own filters and resource", async () => {
+    const sent: OTLPQueueMessage[] = [];
+    const queue = { send: async (message: OTLPQueueMessage) => void sent.push(message) };
+
+    const ctx = initOTLP(
+      { OTLP_QUEUE: queue },
+      "svc",
+      [
+        { ...config, name: "primary", serviceName: "primary-svc" },
+        { ...config, signals: ["log"] },
+      ],
+      { exportQueue: "OTLP_QUEUE" },
+    );
+    ctx.run(() => trace.getTracer("test").startSpan("queued").end());
+    await ctx.flush();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ signal: "trace", exporter: "primary" });
+    const request = sent[0].request as ExportTraceServiceRequest;
+    expect(request.resourceSpans[0].resource.attributes).toContainEqual({
+      key: "service.name",
+      value: { stringValue: "primary-svc" },
+    });
+  });
+
+  it("falls back to direct export when enqueue fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+    const queue = {
+      send: async () => {
+        throw new Error("message too large");
+      },
+    };
+
+    const ctx = initOTLP({ OTLP_QUEUE: queue }, "svc", config, {
+      exportQueue: "OTLP_QUEUE",
+    });
+    ctx.run(() => trace.getTracer("test").startSpan("direct").end());
+    await ctx.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Cloudflare Queue as an OTLP export transport
+ *
+ * Producers enqueue built OTLP requests instead of POSTing them from every
+ * request's waitUntil. A queue consumer batches many messages, merges their
+ * resource/scope groups and forwards them to the real OTLP endpoint.
+ * A producer with several exporters enqueues one request per exporter, built
+ * with its filters and resource, and the consumer sends each to that exporter.
+ *
+ * @example
+ * // Producer worker
+ * export default instrument(handler, { exportQueue: "OTLP_QUEUE" });
+ *
+ * // Consumer worker (must not be wrapped with instrument())
+ * export default { queue: createOTLPQueueConsumer() };
+ */
+
+import {
+  exportTraceRequest,
+  exportLogRequest,
+  getOTLPConfigFromEnv,
+  toExporterList,
+  type ExportResult,
+  type ExportTraceServiceRequest,
+  type ExportLogsServiceRequest,
+  type OTLPExporterConfig,
+  type OTLPKeyValue,
+} from "./otlp.js";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Message body sent to the OTLP export queue
+ * `exporter` is the name (or index) of the producer's exporter the request
+ * was built for; without it, the request goes to every consumer exporter
+ */
+export type OTLPQueueMessage =
+  | { signal: "trace"; request: ExportTraceServiceRequest; exporter?: string | number }
+  | { signal: "log"; request: ExportLogsServiceRequest; exporter?: string | number };
+
+/**
+ * Cloudflare Queue producer interface
+ */
+export interface OTLPQueue {
+  send(message: OTLPQueueMessage): Promise<void>;
+}
+
+/**
+ * Cloudflare MessageBatch interface (the subset used by the consumer)
+ */
+interface OTLPMessageBatch {
+  readonly messages: readonly {
+    readonly body: unknown;
+    ack(): void;
+    retry(options?: { delaySeconds?: number }): void;
+  }[];
+}
+
+type ConsumerMessage = OTLPMessageBatch["messages"][number];
+
+/**
+ * Options for createOTLPQueueConsumer
+ */
+export interface OTLPQueueConsumerOptions {
+  /**
+   * Explicit exporter config, or several to fan out to; requests built for
+   * one of the producer's exporters go to the one with the same name, else
+   * the same position (default: detected from the consumer's env)
+   */
+  config?: OTLPExporterConfig | OTLPExporterConfig[];
+  /** Delay before messages of a failed export are redelivered (default: queue setting) */
+  retryDelaySeconds?: number;
+}
+
+// ============================================
+// Producer
+// ============================================
+
+/**
+ * Send a built OTLP request to the export queue
+ * Never throws - returns false if the message could not be enqueued
+ * (e.g. larger than the 128 KB queue message limit)
+ */
+export async function enqueueExport(
+  queue: OTLPQueue,
+  message: OTLPQueueMessage,
+): Promise<boolean> {
+  try {
+    await queue.send(message);
+    return true;
+  } catch (error) {
+    console.error(
+      `[otel-cloudflare] failed to enqueue OTLP ${message.signal} export:`,
+      error,
+    );
+    return false;
+  }
+}
+
+// ============================================
+// Merging
+// ============================================
+
+/**
+ * Stable key for a resource, independent of attribute order
+ */
+function resourceKey(attributes: OTLPKeyValue[]): string {
+  return JSON.stringify(
+    [...attributes].sort((a, b) => a.key.localeCompare(b.key)),
+  );
+}
+
+/**
+ * Merge groups that share a resource, then a scope within that resource
+ */
+function mergeGroups<Item>(
+  groups: Array<{
+    resource: { attributes: OTLPKeyValue[] };
+    scopes: Array<{ scope: { name: string; version?: string }; items: Item[] }>;
+  }>,
+): Array<{
+  resource: { attributes: OTLPKeyValue[] };
+  scopes: Array<{ scope: { name: string; version?: string }; items: Item[] }>;
+}> {
+  const resources = new Map<
+    string,
+    {
+      resource: { attributes: OTLPKeyValue[] };
+      scopes: Map<string, { scope: { name: string; version?: string }; items: Item[] }>;
+    }
+  >();
+
+  for (const group of groups) {
+    const key = resourceKey(group.resource.attributes);
+    let merged = resources.get(key);
+    if (!merged) {
+      merged = { resource: group.resource, scopes: new Map() };
+      resources.set(key, merged);
+    }
+
+    for (const scope of group.scopes) {
+      const scopeKey = `${scope.scope.name}@${scope.scope.version ?? ""}`;
+      const existing = merged.scopes.get(scopeKey);
+      if (existing) {
+        existing.items.push(...scope.items);
+      } else {
+        merged.scopes.set(scopeKey, { scope: scope.scope, items: [...scope.items] });
+      }
+    }
+  }
+
+  return [...resources.values()].map((r) => ({
+    resource: r.resource,
+    scopes: [...r.scopes.values()],
+  }));
+}
+
+/**
+ * Merge several trace export requests into one, combining spans that share
+ * a resource and instrumentation scope
+ */
+export function mergeTraceExportRequests(
+  requests: ExportTraceServiceRequest[],
+): ExportTraceServiceRequest {
+  const groups = requests.flatMap((r) =>
+    r.resourceSpans.map((rs) => ({
+      resource: rs.resource,
+      scopes: rs.scopeSpans.map((ss) => ({ scope: ss.scope, items: ss.spans })),
+    })),
+  );
+
+  return {
+    resourceSpans: mergeGroups(groups).map((g) => ({
+      resource: g.resource,
+      scopeSpans: g.scopes.map((s) => ({ scope: s.scope, spans: s.items })),
+    })),
+  };
+}
+
+/**
+ * Merge several log export requests into one, combining log records that
+ * share a resource and instrumentation scope
+ */
+export function mergeLogExportRequests(
+  requests: ExportLogsServiceRequest[],
+): ExportLogsServiceRequest {
+  const groups = requests.flatMap((r) =>
+    r.resourceLogs.map((rl) => ({
+      resource: rl.resource,
+      scopes: rl.scopeLogs.map((sl) => ({ scope: sl.scope, items: sl.logRecords })),
+    })),
+  );
+
+  return {
+    resourceLogs: mergeGroups(groups).map((g) => ({
+      resource: g.resource,
+      scopeLogs: g.scopes.map((s) => ({ scope: s.scope, logRecords: s.items })),
+    })),
+  };
+}
+
+// ============================================
+// Consumer
+// ============================================
+
+function isOTLPQueueMessage(body: unknown): body is OTLPQueueMessage {
+  if (typeof body !== "object" || body === null) return false;
+  const { signal, request } = body as Record<string, unknown>;
+  return (
+    (signal === "trace" || signal === "log") &&
+    typeof request === "object" &&
+    request !== null
+  );
+}
+
+/**
+ * Resolve the exporters a message goes to: the one it was built for, or all
+ */
+function getMessageExporters(
+  exporters: OTLPExporterConfig[],
+  exporter: string | number | undefined,
+): OTLPExporterConfig[] {
+  if (exporter === undefined) return exporters;
+  const target =
+    typeof exporter === "number"
+      ? exporters[exporter]
+      : exporters.find((config) => config.name === exporter);
+  return target ? [target] : [];
+}
+
+/**
+ * Create a queue consumer that forwards queued OTLP requests to the collector
+ *
+ * Messages of each signal are merged into a single export per exporter:
+ * messages built for one of the producer's exporters go to the matching
+ * consumer exporter, the others to every configured exporter. Messages are
+ * acked when all exports succeed or are rejected permanently, and retried
+ * when any fails with a retryable error (redelivering to every exporter).
+ * Malformed messages, and messages whose exporter is not configured, are
+ * acked and dropped with a warning.
+ *
+ * Do not wrap the consumer with instrument(): its own telemetry would be
+ * enqueued again.
+ *
+ * @example
+ * export default {
+ *   queue: createOTLPQueueConsumer(),
+ * };
+ */
+export function createOTLPQueueConsumer(
+  options: OTLPQueueConsumerOptions = {},
+): (batch: OTLPMessageBatch, env?: Record<string, unknown>) => Promise<void> {
+  return async (batch, env) => {
+    const exporters = toExporterList(
+      options.config ?? (env ? getOTLPConfigFromEnv(env) : null),
+    );
+    if (exporters.length === 0) {
+      console.warn(
+        "[otel-cloudflare] OTLP queue consumer: no exporter config, dropping batch",
+      );
+      batch.messages.forEach((m) => m.ack());
+      return;
+    }
+
+    // Group messages by signal and target exporter
+    const groups = new Map<
+      string,
+      {
+        signal: OTLPQueueMessage["signal"];
+        targets: OTLPExporterConfig[];
+        messages: ConsumerMessage[];
+        bodies: OTLPQueueMessage[];
+      }
+    >();
+    for (const message of batch.messages) {
+      const body = message.body;
+      if (!isOTLPQueueMessage(body)) {
+        console.warn("[otel-cloudflare] OTLP queue consumer: malformed message dropped");
+        message.ack();
+        continue;
+      }
+      const targets = getMessageExporters(exporters, body.exporter);
+      if (targets.length === 0) {
+        console.warn(
+          `[otel-cloudflare] OTLP queue consumer: no exporter "${body.exporter}" configured, message dropped`,
+        );
+        message.ack();
+        continue;
+      }
+      const key = `${body.signal}:${typeof body.exporter}:${body.exporter ?? ""}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { signal: body.signal, targets, messages: [], bodies: [] };
+        groups.set(key, group);
+      }
+      group.messages.push(message);
+      group.bodies.push(body);
+    }
+
+    const settle = (messages: ConsumerMessage[], results: ExportResult[]): void => {
+      const retryable = results.some((result) => !result.success && result.request);
+      for (const message of messages) {
+        if (retryable) {
+          message.retry(
+            options.retryDelaySeconds !== undefined
+              ? { delaySeconds: options.retryDelaySeconds }
+              : undefined,
+          );
+        } else {
+          message.ack();
+        }
+      }
+    };
+
+    await Promise.all(
+      [...groups.values()].map(async ({ signal, targets, messages, bodies }) => {
+        let results: ExportResult[];
+        if (signal === "trace") {
+          const request = mergeTraceExportRequests(
+            bodies.map((body) => body.request as ExportTraceServiceRequest),
+          );
+          results = await Promise.all(
+            targets.map((config) => exportTraceRequest(config, request)),
+          );
+        } else {
+          const request = mergeLogExportRequests(
+            bodies.map((body) => body.request as ExportLogsServiceRequest),
+          );
+          results = await Promise.all(
+            targets.map((config) => exportLogRequest(config, request)),
+          );
+        }
+        settle(messages, results);
+      }),
+    );
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { cloudflareDetector, detectWorkerResource } from "./resource.js";
+import { buildTraceExportRequest } from "./otlp.js";
+import { VERSION } from "./version.js";
+
+describe("cloudflareDetector", () => {
+  it("detects cloud, faas, version metadata and SDK attributes", () => {
+    const { attributes } = cloudflareDetector(
+      {
+        CF_VERSION_METADATA: { id: "v-123", tag: "1.4.0", timestamp: "2024-01-01" },
+        ENVIRONMENT: "production",
+      },
+      { name: "api" },
+    ).detect();
+
+    expect(attributes).toMatchObject({
+      "cloud.provider": "cloudflare",
+      "cloud.platform": "cloudflare.workers",
+      "faas.name": "api",
+      "faas.version": "v-123",
+      "service.version": "1.4.0",
+      "deployment.environment.name": "production",
+      "telemetry.sdk.name": "otel-cloudflare",
+      "telemetry.sdk.version": VERSION,
+    });
+  });
+
+  it("reads a custom version metadata binding and falls back to its id", () => {
+    const { attributes } = cloudflareDetector(
+      { VERSION: { id: "v-9" } },
+      { versionMetadata: "VERSION" },
+    ).detect();
+    expect(attributes?.["service.version"]).toBe("v-9");
+  });
+
+  it("takes faas.name from WORKER_NAME unless a name is given", () => {
+    const env = { WORKER_NAME: "api-worker" };
+    expect(cloudflareDetector(env).detect().attributes?.["faas.name"]).toBe("api-worker");
+    expect(cloudflareDetector(env, { name: "api" }).detect().attributes?.["faas.name"]).toBe(
+      "api",
+    );
+  });
+});
+
+describe("detectWorkerResource", () => {
+  it("lets later detectors override the Cloudflare detector", () => {
+    const resource = detectWorkerResource(undefined, [
+      { detect: () => ({ attributes: { "cloud.platform": "custom", team: "payments" } }) },
+    ]);
+    expect(resource.attributes).toMatchObject({
+      "cloud.provider": "cloudflare",
+      "cloud.platform": "custom",
+      team: "payments",
+    });
+    // Undetected attributes are left out, faas.name is not the service name
+    expect("faas.version" in resource.attributes).toBe(false);
+    expect("faas.name" in resource.attributes).toBe(false);
+  });
+
+  it("exports detected attributes as resource attributes", () => {
+    const resource = detectWorkerResource(undefined);
+    const request = buildTraceExportRequest([], "api", {
+      ...resource.attributes,
+      "service.name": "ignored",
+    });
+    const attrs = request.resourceSpans[0].resource.attributes;
+    expect(attrs.filter((a) => a.key === "service.name")).toEqual([
+      { key: "service.name", value: { stringValue: "api" } },
+    ]);
+    expect(attrs).toContainEqual({ key: "cloud.provider", value: { stringValue: "cloudflare" } });
+    expect(request.resourceSpans[0].scopeSpans[0].scope.version).toBe(VERSION);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Resource detection for Cloudflare Workers
+ *
+ * Fills cloud.*, faas.*, service.version, deployment.environment.name and
+ * telemetry.sdk.* resource attributes. Additional detectors follow the
+ * @opentelemetry/resources ResourceDetector interface.
+ *
+ * @example
+ * export default instrument(handler, {
+ *   resourceDetectors: [{ detect: () => ({ attributes: { "team": "payments" } }) }],
+ * });
+ */
+
+import type { Attributes } from "@opentelemetry/api";
+import {
+  detectResources,
+  type Resource,
+  type ResourceDetector,
+} from "@opentelemetry/resources";
+import { VERSION } from "./version.js";
+
+export type { ResourceDetector };
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Cloudflare Worker Version Metadata binding
+ * @see https://developers.cloudflare.com/workers/runtime-apis/bindings/version-metadata/
+ */
+export interface WorkerVersionMetadata {
+  id: string;
+  tag?: string;
+  timestamp?: string;
+}
+
+/**
+ * Options for cloudflareDetector
+ */
+export interface CloudflareDetectorOptions {
+  /** Worker script name, exported as faas.name (default: the WORKER_NAME env var) */
+  name?: string;
+  /** Env binding name of the Version Metadata binding (default: "CF_VERSION_METADATA") */
+  versionMetadata?: string;
+}
+
+// ============================================
+// Detectors
+// ============================================
+
+/**
+ * Detector for the Cloudflare Workers runtime
+ *
+ * - cloud.provider, cloud.platform
+ * - faas.name (options.name or WORKER_NAME env var), faas.version (version metadata id)
+ * - service.version (version metadata tag, falling back to its id)
+ * - deployment.environment.name (DEPLOYMENT_ENVIRONMENT or ENVIRONMENT env var)
+ * - telemetry.sdk.name, telemetry.sdk.language, telemetry.sdk.version
+ *
+ * Registered automatically by initOTLP. Register it again in
+ * resourceDetectors to read a differently named version metadata binding.
+ */
+export function cloudflareDetector(
+  env: Record<string, unknown> | undefined,
+  options: CloudflareDetectorOptions = {},
+): ResourceDetector {
+  return {
+    detect() {
+      const metadata = env?.[options.versionMetadata ?? "CF_VERSION_METADATA"] as
+        | WorkerVersionMetadata
+        | undefined;
+      const environment = env?.DEPLOYMENT_ENVIRONMENT ?? env?.ENVIRONMENT;
+      const workerName = options.name ?? env?.WORKER_NAME;
+
+      return {
+        attributes: {
+          "cloud.provider": "cloudflare",
+          "cloud.platform": "cloudflare.workers",
+          "faas.name": typeof workerName === "string" ? workerName : undefined,
+          "faas.version": metadata?.id,
+          "service.version": metadata?.tag || metadata?.id,
+          "deployment.environment.name":
+            typeof environment === "string" ? environment : undefined,
+          "telemetry.sdk.name": "otel-cloudflare",
+          "telemetry.sdk.language": "webjs",
+          "telemetry.sdk.version": VERSION,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Run the Cloudflare detector followed by the given detectors
+ * Later detectors override attributes of earlier ones
+ */
+export function detectWorkerResource(
+  env: Record<string, unknown> | undefined,
+  detectors: ResourceDetector[] = [],
+): Resource {
+  return detectResources({
+    detectors: [cloudflareDetector(env), ...detectors],
+  });
+}
+
+/**
+ * Resolve a resource's attributes, waiting for async detectors
+ */
+export async function resolveResourceAttributes(resource: Resource): Promise<Attributes> {
+  await resource.waitForAsyncAttributes?.();
+  return resource.attributes;
+}
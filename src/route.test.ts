@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { trace } from "@opentelemetry/api";
+import { matchRoute, runWithServerSpan, setHttpRoute } from "./route.js";
+import { initTracing, type CloudflareSpan } from "./provider.js";
+
+const request = (path: string) => new Request(`https://example.com${path}`);
+
+describe("matchRoute", () => {
+  const routes = ["/users/:id", "/users/:id/posts/:postId", "/files/*"];
+
+  it("matches path templates", () => {
+    expect(matchRoute(request("/users/123"), routes)).toBe("/users/:id");
+    expect(matchRoute(request("/users/123/"), routes)).toBe("/users/:id");
+    expect(matchRoute(request("/users/1/posts/2"), routes)).toBe("/users/:id/posts/:postId");
+    expect(matchRoute(request("/files/a/b.txt"), routes)).toBe("/files/*");
+  });
+
+  it("returns undefined without a match", () => {
+    expect(matchRoute(request("/users"), routes)).toBeUndefined();
+    expect(matchRoute(request("/users/1/comments"), routes)).toBeUndefined();
+    expect(matchRoute(request("/users/1"), undefined)).toBeUndefined();
+  });
+
+  it("uses URLPattern-like patterns and callbacks", () => {
+    const pattern = {
+      pathname: "/orgs/:org",
+      test: (url: string) => new URL(url).pathname.startsWith("/orgs/"),
+    };
+    expect(matchRoute(request("/orgs/acme"), [pattern])).toBe("/orgs/:org");
+    expect(matchRoute(request("/anything"), () => "/custom")).toBe("/custom");
+    expect(matchRoute(request("/anything"), () => undefined)).toBeUndefined();
+  });
+});
+
+describe("setHttpRoute", () => {
+  it("renames the current server span and sets http.route", () => {
+    initTracing();
+    const span = trace.getTracer("test").startSpan("GET /users/123") as CloudflareSpan;
+
+    runWithServerSpan(span, "GET", () => setHttpRoute("/users/[id]"));
+    span.end();
+
+    expect(span.name).toBe("GET /users/[id]");
+    expect(span.attributes["http.route"]).toBe("/users/[id]");
+  });
+
+  it("does nothing outside a request", () => {
+    expect(() => setHttpRoute("/users/[id]")).not.toThrow();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Route templates for low-cardinality SERVER span names
+ *
+ * `/users/123` and `/users/456` are both named `GET /users/:id` and carry
+ * `http.route`, instead of one span name per URL.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Span } from "@opentelemetry/api";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * URLPattern subset used for route matching
+ */
+export interface RoutePattern {
+  readonly pathname: string;
+  test(input: string): boolean;
+}
+
+/**
+ * Routes for SERVER span names
+ *
+ * - Path templates: "/users/:id" matches one segment per parameter,
+ *   a trailing "*" matches the rest of the path
+ * - URLPattern instances: the pattern's pathname is used as the route
+ * - A callback returning the route, or undefined for no match
+ *
+ * The first matching template or pattern wins.
+ */
+export type RouteOptions =
+  | Array<string | RoutePattern>
+  | ((request: Request) => string | undefined);
+
+// ============================================
+// Matching
+// ============================================
+
+/** Compiled path templates */
+const templateCache = new Map<string, RegExp>();
+
+/**
+ * Compile a path template to a regex
+ */
+function compileTemplate(template: string): RegExp {
+  let regex = templateCache.get(template);
+  if (!regex) {
+    const source = template
+      .split("/")
+      .map((segment, i, all) => {
+        if (segment.startsWith(":")) return "[^/]+";
+        if (segment === "*" && i === all.length - 1) return ".*";
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("/");
+    regex = new RegExp(`^${source}/?$`);
+    templateCache.set(template, regex);
+  }
+  return regex;
+}
+
+/**
+ * Find the route template for a request
+ * Returns undefined if no route matches
+ */
+export function matchRoute(
+  request: Request,
+  routes: RouteOptions | undefined,
+): string | undefined {
+  if (!routes) return undefined;
+  if (typeof routes === "function") return routes(request) || undefined;
+
+  const pathname = new URL(request.url).pathname;
+  for (const route of routes) {
+    if (typeof route === "string") {
+      if (compileTemplate(route).test(pathname)) return route;
+    } else if (route.test(request.url)) {
+      return route.pathname;
+    }
+  }
+  return undefined;
+}
+
+// ============================================
+// Late Route Resolution
+// ============================================
+
+/** The current request's SERVER span and method */
+const serverSpanStorage = new AsyncLocalStorage<{ span: Span; method: string }>();
+
+/**
+ * Run a function with the request's SERVER span available to setHttpRoute()
+ */
+export function runWithServerSpan<T>(span: Span, method: string, fn: () => T): T {
+  return serverSpanStorage.run({ span, method }, fn);
+}
+
+/**
+ * Set the route of the current SERVER span once the router has resolved it
+ * Renames the span to `${method} ${route}` and sets http.route.
+ * Does nothing outside an instrumented request.
+ *
+ * @example
+ * // SvelteKit hooks.server.ts
+ * export const handle: Handle = ({ event, resolve }) =>
+ *   traceHandler(event.platform!.context, event.request, () => {
+ *     if (event.route.id) setHttpRoute(event.route.id);
+ *     return resolve(event);
+ *   }, { env: event.platform?.env });
+ */
+export function setHttpRoute(route: string): void {
+  const server = serverSpanStorage.getStore();
+  if (!server) return;
+  server.span.updateName(`${server.method} ${route}`);
+  server.span.setAttribute("http.route", route);
+}
@@ -0,0 +1,327 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  trace,
+  context,
+  ROOT_CONTEXT,
+  SpanKind,
+  TraceFlags,
+} from "@opentelemetry/api";
+import {
+  AlwaysOnSampler,
+  AlwaysOffSampler,
+  TraceIdRatioBasedSampler,
+  ParentBasedSampler,
+  SamplingDecision,
+  getSamplerFromEnv,
+  applyTailSampling,
+} from "./sampler.js";
+import type { ExportableSpan } from "./otlp.js";
+import type { LogEntry, LogLevel } from "./logger.js";
+import {
+  initTracing,
+  setSampler,
+  setSpanProcessor,
+  SimpleSpanProcessor,
+  getTraceparent,
+} from "./provider.js";
+
+const TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const SPAN_ID = "b7ad6b7169203331";
+
+/** Context with a parent span carrying the given flags */
+function parentContext(traceFlags: TraceFlags, isRemote = true) {
+  return trace.setSpan(
+    ROOT_CONTEXT,
+    trace.wrapSpanContext({ traceId: TRACE_ID, spanId: SPAN_ID, traceFlags, isRemote }),
+  );
+}
+
+function decide(
+  sampler: { shouldSample: AlwaysOnSampler["shouldSample"] },
+  ctx = ROOT_CONTEXT,
+  traceId = TRACE_ID,
+) {
+  return sampler.shouldSample(ctx, traceId, "span", SpanKind.INTERNAL, {}, [])
+    .decision;
+}
+
+// ============================================
+// Built-in samplers
+// ============================================
+
+describe("AlwaysOnSampler / AlwaysOffSampler", () => {
+  it("samples or drops everything", () => {
+    expect(decide(new AlwaysOnSampler())).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+    expect(decide(new AlwaysOffSampler())).toBe(SamplingDecision.NOT_RECORD);
+  });
+});
+
+describe("TraceIdRatioBasedSampler", () => {
+  it("samples everything at ratio 1 and nothing at ratio 0", () => {
+    expect(decide(new TraceIdRatioBasedSampler(1))).toBe(
+      SamplingDecision.RECORD_AND_SAMPLED,
+    );
+    expect(decide(new TraceIdRatioBasedSampler(0))).toBe(
+      SamplingDecision.NOT_RECORD,
+    );
+  });
+
+  it("is deterministic for the same trace ID", () => {
+    const sampler = new TraceIdRatioBasedSampler(0.5);
+    const first = decide(sampler);
+    for (let i = 0; i < 10; i++) {
+      expect(decide(sampler)).toBe(first);
+    }
+  });
+
+  it("samples roughly the configured fraction of random trace IDs", () => {
+    const sampler = new TraceIdRatioBasedSampler(0.25);
+    let sampled = 0;
+    for (let i = 0; i < 2000; i++) {
+      const bytes = new Uint8Array(16);
+      crypto.getRandomValues(bytes);
+      const traceId = Array.from(bytes)
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+      if (decide(sampler, ROOT_CONTEXT, traceId) === SamplingDecision.RECORD_AND_SAMPLED) {
+        sampled++;
+      }
+    }
+    expect(sampled / 2000).toBeGreaterThan(0.18);
+    expect(sampled / 2000).toBeLessThan(0.32);
+  });
+});
+
+describe("ParentBasedSampler", () => {
+  const sampler = new ParentBasedSampler({ root: new AlwaysOffSampler() });
+
+  it("uses the root sampler without a parent", () => {
+    expect(decide(sampler)).toBe(SamplingDecision.NOT_RECORD);
+  });
+
+  it("follows a sampled parent", () => {
+    expect(decide(sampler, parentContext(TraceFlags.SAMPLED))).toBe(
+      SamplingDecision.RECORD_AND_SAMPLED,
+    );
+    expect(decide(sampler, parentContext(TraceFlags.SAMPLED, false))).toBe(
+      SamplingDecision.RECORD_AND_SAMPLED,
+    );
+  });
+
+  it("follows a not-sampled parent", () => {
+    const onRoot = new ParentBasedSampler({ root: new AlwaysOnSampler() });
+    expect(decide(onRoot, parentContext(TraceFlags.NONE))).toBe(
+      SamplingDecision.NOT_RECORD,
+    );
+  });
+});
+
+// ============================================
+// getSamplerFromEnv
+// ============================================
+
+describe("getSamplerFromEnv", () => {
+  it("returns null when OTEL_TRACES_SAMPLER is not set", () => {
+    expect(getSamplerFromEnv({})).toBeNull();
+  });
+
+  it("builds samplers by name", () => {
+    expect(getSamplerFromEnv({ OTEL_TRACES_SAMPLER: "always_on" })).toBeInstanceOf(
+      AlwaysOnSampler,
+    );
+    expect(getSamplerFromEnv({ OTEL_TRACES_SAMPLER: "always_off" })).toBeInstanceOf(
+      AlwaysOffSampler,
+    );
+    expect(
+      getSamplerFromEnv({
+        OTEL_TRACES_SAMPLER: "parentbased_traceidratio",
+        OTEL_TRACES_SAMPLER_ARG: "0.1",
+      })?.toString(),
+    ).toContain("root=TraceIdRatioBased{0.1}");
+  });
+
+  it("defaults the ratio to 1 when the argument is invalid", () => {
+    expect(
+      getSamplerFromEnv({
+        OTEL_TRACES_SAMPLER: "traceidratio",
+        OTEL_TRACES_SAMPLER_ARG: "abc",
+      })?.toString(),
+    ).toBe("TraceIdRatioBased{1}");
+  });
+});
+
+// ============================================
+// CloudflareTracer integration
+// ============================================
+
+describe("CloudflareTracer sampling", () => {
+  let processor: SimpleSpanProcessor;
+
+  beforeEach(() => {
+    initTracing();
+    processor = new SimpleSpanProcessor();
+    setSpanProcessor(processor);
+  });
+
+  afterEach(() => {
+    setSampler(null);
+    setSpanProcessor(null);
+  });
+
+  it("returns non-recording spans for dropped traces and never exports them", () => {
+    setSampler(new AlwaysOffSampler());
+    const span = trace.getTracer("test").startSpan("dropped");
+    expect(span.isRecording()).toBe(false);
+    expect(span.spanContext().traceFlags).toBe(TraceFlags.NONE);
+    span.end();
+    expect(processor.getSpans()).toHaveLength(0);
+  });
+
+  it("honours an upstream not-sampled traceparent by default", () => {
+    const span = trace
+      .getTracer("test")
+      .startSpan("child", {}, parentContext(TraceFlags.NONE));
+    expect(span.isRecording()).toBe(false);
+    expect(span.spanContext().traceId).toBe(TRACE_ID);
+
+    context.with(trace.setSpan(ROOT_CONTEXT, span), () => {
+      expect(getTraceparent()).toMatch(/-00$/);
+    });
+  });
+
+  it("inherits flags other than sampled from the parent", () => {
+    const random = 0x02;
+    const tracer = trace.getTracer("test");
+
+    const dropped = tracer.startSpan("child", {}, parentContext(random));
+    expect(dropped.spanContext().traceFlags).toBe(random);
+
+    const kept = tracer.startSpan("child", {}, parentContext(random | TraceFlags.SAMPLED));
+    context.with(trace.setSpan(ROOT_CONTEXT, kept), () => {
+      expect(getTraceparent()).toMatch(/-03$/);
+    });
+  });
+
+  it("exports sampled spans with the sampled flag", () => {
+    const span = trace.getTracer("test").startSpan("kept");
+    expect(span.spanContext().traceFlags).toBe(TraceFlags.SAMPLED);
+    context.with(trace.setSpan(ROOT_CONTEXT, span), () => {
+      expect(getTraceparent()).toMatch(/-01$/);
+    });
+    span.end();
+    expect(processor.getSpans()).toHaveLength(1);
+  });
+});
+
+// ============================================
+// applyTailSampling
+// ============================================
+
+describe("applyTailSampling", () => {
+  function span(
+    traceId: string,
+    overrides: Partial<ExportableSpan> = {},
+  ): ExportableSpan {
+    return {
+      spanContext: () => ({ traceId, spanId: SPAN_ID }),
+      name: "span",
+      kind: SpanKind.SERVER,
+      startTime: 1000,
+      endTime: 1100,
+      attributes: {},
+      status: { code: 0 },
+      events: [],
+      links: [],
+      ...overrides,
+    };
+  }
+
+  function log(traceId: string | undefined, level: LogLevel = "info"): LogEntry {
+    return { level, message: "msg", timestamp: new Date(), attributes: {}, traceId };
+  }
+
+  const drop = { ratio: 0 };
+
+  it("drops ordinary traces and their logs at ratio 0", () => {
+    const result = applyTailSampling([span("a".repeat(32))], [log("a".repeat(32))], drop);
+    expect(result.spans).toHaveLength(0);
+    expect(result.logs).toHaveLength(0);
+  });
+
+  it("keeps every trace at ratio 1", () => {
+    const result = applyTailSampling([span("a".repeat(32))], [], { ratio: 1 });
+    expect(result.spans).toHaveLength(1);
+  });
+
+  it("keeps traces with errors, exceptions or 5xx responses", () => {
+    const spans = [
+      span("1".repeat(32), { status: { code: 2 } }),
+      span("2".repeat(32), {
+        events: [{ name: "exception", timestamp: 1050 }],
+      }),
+      span("3".repeat(32), { attributes: { "http.response.status_code": 503 } }),
+      span("4".repeat(32), { attributes: { "http.response.status_code": 404 } }),
+    ];
+    const result = applyTailSampling(spans, [], drop);
+    expect(result.spans.map((s) => s.spanContext().traceId[0])).toEqual([
+      "1",
+      "2",
+      "3",
+    ]);
+  });
+
+  it("does not keep error traces when keepErrors is false", () => {
+    const spans = [span("1".repeat(32), { status: { code: 2 } })];
+    expect(applyTailSampling(spans, [], { ratio: 0, keepErrors: false }).spans).toHaveLength(0);
+  });
+
+  it("keeps traces whose root span exceeds the latency threshold", () => {
+    const spans = [
+      span("1".repeat(32), { startTime: 0, endTime: 5000 }),
+      // Slow child of a fast root does not count
+      span("2".repeat(32), { startTime: 0, endTime: 10 }),
+      span("2".repeat(32), { parentSpanId: SPAN_ID, startTime: 0, endTime: 5000 }),
+    ];
+    const result = applyTailSampling(spans, [], { ratio: 0, latencyThresholdMs: 1000 });
+    expect(result.spans.map((s) => s.spanContext().traceId[0])).toEqual(["1"]);
+  });
+
+  it("keeps logs without a trace, for unknown traces, and above keepLogLevel", () => {
+    const dropped = "a".repeat(32);
+    const logs = [
+      log(undefined),
+      log("b".repeat(32)),
+      log(dropped, "info"),
+      log(dropped, "warn"),
+    ];
+    const result = applyTailSampling([span(dropped)], logs, {
+      ratio: 0,
+      keepLogLevel: "warn",
+    });
+    expect(result.logs.map((l) => [l.traceId, l.level])).toEqual([
+      [undefined, "info"],
+      ["b".repeat(32), "info"],
+      [dropped, "warn"],
+    ]);
+  });
+
+  it("decides independently of the head ratio sampler", () => {
+    // Deterministic pseudo-random trace IDs
+    let seed = 1;
+    const next = () => {
+      seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+      return seed.toString(16).padStart(8, "0");
+    };
+    const traceIds = Array.from({ length: 1000 }, () => next() + next() + next() + next());
+    const head = new TraceIdRatioBasedSampler(0.5);
+    const headSampled = traceIds.filter(
+      (id) => decide(head, ROOT_CONTEXT, id) === SamplingDecision.RECORD_AND_SAMPLED,
+    );
+
+    const kept = applyTailSampling(headSampled.map((id) => span(id)), [], { ratio: 0.5 });
+
+    const fraction = kept.spans.length / headSampled.length;
+    expect(fraction).toBeGreaterThan(0.4);
+    expect(fraction).toBeLessThan(0.6);
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * Head and Tail Sampling for Cloudflare Workers
+ *
+ * Mirrors the sampler API of @opentelemetry/sdk-trace-base so the same
+ * decisions (AlwaysOn, AlwaysOff, TraceIdRatio, ParentBased) can be made
+ * by the lightweight CloudflareTracer without pulling in the full SDK.
+ * Tail sampling runs at flush time over the request's buffered spans.
+ */
+
+import {
+  trace,
+  TraceFlags,
+  SpanStatusCode,
+  type Attributes,
+  type Context,
+  type Link,
+  type SpanKind,
+  type TraceState,
+} from "@opentelemetry/api";
+import type { ExportableSpan } from "./otlp.js";
+import type { LogEntry, LogLevel } from "./logger.js";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Sampling decision for a new span
+ */
+export enum SamplingDecision {
+  /** Span is not recorded and not exported (a non-recording span is returned) */
+  NOT_RECORD = 0,
+  /** Span is recorded but not exported, and the sampled flag is not set */
+  RECORD = 1,
+  /** Span is recorded, exported, and the sampled flag is set */
+  RECORD_AND_SAMPLED = 2,
+}
+
+/**
+ * Result of a sampling decision
+ */
+export interface SamplingResult {
+  decision: SamplingDecision;
+  /** Extra attributes to add to the span */
+  attributes?: Attributes;
+  /** TraceState to use for the span (defaults to the parent's) */
+  traceState?: TraceState;
+}
+
+/**
+ * Sampler decides whether a span should be recorded and exported
+ */
+export interface Sampler {
+  shouldSample(
+    context: Context,
+    traceId: string,
+    spanName: string,
+    spanKind: SpanKind,
+    attributes: Attributes,
+    links: Link[],
+  ): SamplingResult;
+  toString(): string;
+}
+
+// ============================================
+// Built-in Samplers
+// ============================================
+
+/**
+ * Sampler that samples every span
+ */
+export class AlwaysOnSampler implements Sampler {
+  shouldSample(): SamplingResult {
+    return { decision: SamplingDecision.RECORD_AND_SAMPLED };
+  }
+
+  toString(): string {
+    return "AlwaysOnSampler";
+  }
+}
+
+/**
+ * Sampler that drops every span
+ */
+export class AlwaysOffSampler implements Sampler {
+  shouldSample(): SamplingResult {
+    return { decision: SamplingDecision.NOT_RECORD };
+  }
+
+  toString(): string {
+    return "AlwaysOffSampler";
+  }
+}
+
+/**
+ * Sampler that samples a deterministic fraction of traces based on trace ID
+ *
+ * The same trace ID always produces the same decision, so every service
+ * using the same ratio keeps or drops the same traces.
+ */
+export class TraceIdRatioBasedSampler implements Sampler {
+  private readonly _ratio: number;
+  private readonly _upperBound: number;
+
+  constructor(ratio = 0) {
+    this._ratio = normalizeRatio(ratio);
+    this._upperBound = Math.floor(this._ratio * 0xffffffff);
+  }
+
+  shouldSample(
+    _context: Context,
+    traceId: string,
+  ): SamplingResult {
+    return {
+      decision:
+        this._accumulate(traceId) <= this._upperBound && this._ratio > 0
+          ? SamplingDecision.RECORD_AND_SAMPLED
+          : SamplingDecision.NOT_RECORD,
+    };
+  }
+
+  toString(): string {
+    return `TraceIdRatioBased{${this._ratio}}`;
+  }
+
+  /** XOR the trace ID in 32-bit chunks into an unsigned integer */
+  private _accumulate(traceId: string): number {
+    let accumulation = 0;
+    for (let i = 0; i < traceId.length / 8; i++) {
+      const pos = i * 8;
+      const part = parseInt(traceId.slice(pos, pos + 8), 16);
+      accumulation = (accumulation ^ part) >>> 0;
+    }
+    return accumulation;
+  }
+}
+
+/**
+ * Options for ParentBasedSampler
+ */
+export interface ParentBasedSamplerConfig {
+  /** Sampler used for root spans (no parent) */
+  root: Sampler;
+  /** Remote parent that was sampled. Default: AlwaysOn */
+  remoteParentSampled?: Sampler;
+  /** Remote parent that was not sampled. Default: AlwaysOff */
+  remoteParentNotSampled?: Sampler;
+  /** Local parent that was sampled. Default: AlwaysOn */
+  localParentSampled?: Sampler;
+  /** Local parent that was not sampled. Default: AlwaysOff */
+  localParentNotSampled?: Sampler;
+}
+
+/**
+ * Sampler that follows the parent's sampled flag, and delegates to a root
+ * sampler when there is no parent
+ *
+ * This is what makes an upstream "not sampled" traceparent (flags 00)
+ * propagate through the worker instead of being overridden.
+ */
+export class ParentBasedSampler implements Sampler {
+  private readonly _root: Sampler;
+  private readonly _remoteParentSampled: Sampler;
+  private readonly _remoteParentNotSampled: Sampler;
+  private readonly _localParentSampled: Sampler;
+  private readonly _localParentNotSampled: Sampler;
+
+  constructor(config: ParentBasedSamplerConfig) {
+    this._root = config.root;
+    this._remoteParentSampled =
+      config.remoteParentSampled ?? new AlwaysOnSampler();
+    this._remoteParentNotSampled =
+      config.remoteParentNotSampled ?? new AlwaysOffSampler();
+    this._localParentSampled =
+      config.localParentSampled ?? new AlwaysOnSampler();
+    this._localParentNotSampled =
+      config.localParentNotSampled ?? new AlwaysOffSampler();
+  }
+
+  shouldSample(
+    context: Context,
+    traceId: string,
+    spanName: string,
+    spanKind: SpanKind,
+    attributes: Attributes,
+    links: Link[],
+  ): SamplingResult {
+    const parentSpanContext = trace.getSpanContext(context);
+
+    let delegate: Sampler;
+    if (!parentSpanContext || !trace.isSpanContextValid(parentSpanContext)) {
+      delegate = this._root;
+    } else {
+      const sampled =
+        (parentSpanContext.traceFlags & TraceFlags.SAMPLED) ===
+        TraceFlags.SAMPLED;
+      if (parentSpanContext.isRemote) {
+        delegate = sampled
+          ? this._remoteParentSampled
+          : this._remoteParentNotSampled;
+      } else {
+        delegate = sampled
+          ? this._localParentSampled
+          : this._localParentNotSampled;
+      }
+    }
+
+    return delegate.shouldSample(
+      context,
+      traceId,
+      spanName,
+      spanKind,
+      attributes,
+      links,
+    );
+  }
+
+  toString(): string {
+    return `ParentBased{root=${this._root.toString()}, remoteParentSampled=${this._remoteParentSampled.toString()}, remoteParentNotSampled=${this._remoteParentNotSampled.toString()}, localParentSampled=${this._localParentSampled.toString()}, localParentNotSampled=${this._localParentNotSampled.toString()}}`;
+  }
+}
+
+/**
+ * Clamp a ratio to [0, 1], treating invalid numbers as 0
+ */
+function normalizeRatio(ratio: number): number {
+  if (typeof ratio !== "number" || isNaN(ratio)) return 0;
+  return ratio >= 1 ? 1 : ratio <= 0 ? 0 : ratio;
+}
+
+// ============================================
+// Environment Detection
+// ============================================
+
+/**
+ * Parse OTEL_TRACES_SAMPLER_ARG as a ratio, defaulting to 1
+ */
+function parseSamplerRatio(arg: string | undefined): number {
+  if (arg === undefined || arg.trim() === "") return 1;
+  const ratio = Number(arg);
+  if (isNaN(ratio) || ratio < 0 || ratio > 1) {
+    console.warn(
+      `[otel-cloudflare] invalid OTEL_TRACES_SAMPLER_ARG "${arg}", using 1`,
+    );
+    return 1;
+  }
+  return ratio;
+}
+
+/**
+ * Build a Sampler from OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG
+ *
+ * Supported values: always_on, always_off, traceidratio,
+ * parentbased_always_on, parentbased_always_off, parentbased_traceidratio.
+ * Returns null if OTEL_TRACES_SAMPLER is not set or not recognized.
+ */
+export function getSamplerFromEnv(env: Record<string, unknown>): Sampler | null {
+  const name = (env.OTEL_TRACES_SAMPLER as string | undefined)
+    ?.trim()
+    .toLowerCase();
+  if (!name) return null;
+
+  const arg = env.OTEL_TRACES_SAMPLER_ARG as string | undefined;
+
+  switch (name) {
+    case "always_on":
+      return new AlwaysOnSampler();
+    case "always_off":
+      return new AlwaysOffSampler();
+    case "traceidratio":
+      return new TraceIdRatioBasedSampler(parseSamplerRatio(arg));
+    case "parentbased_always_on":
+      return new ParentBasedSampler({ root: new AlwaysOnSampler() });
+    case "parentbased_always_off":
+      return new ParentBasedSampler({ root: new AlwaysOffSampler() });
+    case "parentbased_traceidratio":
+      return new ParentBasedSampler({
+        root: new TraceIdRatioBasedSampler(parseSamplerRatio(arg)),
+      });
+    default:
+      console.warn(
+        `[otel-cloudflare] unknown OTEL_TRACES_SAMPLER "${name}", using default sampler`,
+      );
+      return null;
+  }
+}
+
+// ============================================
+// Tail Sampling
+// ============================================
+
+/**
+ * Tail sampling policy applied at flush time
+ *
+ * Because a request's spans are buffered until FlushContext.flush(), the
+ * decision can be made per trace after the fact: traces that look
+ * interesting are always kept, the rest are sampled by ratio.
+ */
+export interface TailSamplingPolicy {
+  /**
+   * Fraction (0..1) of remaining traces to keep
+   * Decided by a hash of the trace ID, so the same trace gets the same
+   * decision in every flush. The hash is independent of TraceIdRatioBasedSampler,
+   * so with head sampling the kept fraction is the product of both ratios.
+   */
+  ratio: number;
+  /**
+   * Keep traces containing an ERROR status span, an exception event,
+   * or an http.response.status_code >= 500
+   * @default true
+   */
+  keepErrors?: boolean;
+  /**
+   * Keep traces whose root span lasted at least this many milliseconds
+   */
+  latencyThresholdMs?: number;
+  /**
+   * Keep logs at or above this level even when their trace is dropped
+   * (e.g. "warn"). By default logs follow their trace's decision.
+   */
+  keepLogLevel?: LogLevel;
+}
+
+const LOG_LEVEL_ORDER: LogLevel[] = [
+  "trace",
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "fatal",
+];
+
+/**
+ * Check if a span marks its trace as an error
+ */
+function isErrorSpan(span: ExportableSpan): boolean {
+  if (span.status.code === SpanStatusCode.ERROR) return true;
+  if (span.events.some((e) => e.name === "exception")) return true;
+  const status = Number(span.attributes["http.response.status_code"]);
+  return !isNaN(status) && status >= 500;
+}
+
+/**
+ * FNV-1a hash of a trace ID as an unsigned 32-bit integer
+ * Uncorrelated with the XOR of TraceIdRatioBasedSampler, so tail decisions
+ * are not a subset of head decisions made with the same trace ID
+ */
+function tailSamplingHash(traceId: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < traceId.length; i++) {
+    hash = Math.imul(hash ^ traceId.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Decide which trace IDs to keep from a batch of ended spans
+ */
+function decideTraces(
+  spans: ExportableSpan[],
+  policy: TailSamplingPolicy,
+): Map<string, boolean> {
+  const byTrace = new Map<string, ExportableSpan[]>();
+  for (const span of spans) {
+    const traceId = span.spanContext().traceId;
+    const group = byTrace.get(traceId);
+    if (group) {
+      group.push(span);
+    } else {
+      byTrace.set(traceId, [span]);
+    }
+  }
+
+  const ratio = normalizeRatio(policy.ratio);
+  const upperBound = Math.floor(ratio * 0xffffffff);
+  const keepErrors = policy.keepErrors ?? true;
+  const decisions = new Map<string, boolean>();
+
+  for (const [traceId, group] of byTrace) {
+    const spanIds = new Set(group.map((s) => s.spanContext().spanId));
+
+    const hasError = keepErrors && group.some(isErrorSpan);
+    const isSlow =
+      policy.latencyThresholdMs !== undefined &&
+      group.some(
+        (s) =>
+          // Local root: no parent, or parent not recorded in this worker
+          (!s.parentSpanId || !spanIds.has(s.parentSpanId)) &&
+          (s.endTime ?? Date.now()) - s.startTime >= policy.latencyThresholdMs!,
+      );
+    const sampled = ratio > 0 && tailSamplingHash(traceId) <= upperBound;
+
+    decisions.set(traceId, hasError || isSlow || sampled);
+  }
+
+  return decisions;
+}
+
+/**
+ * Apply a tail sampling policy to buffered spans and logs
+ *
+ * Logs follow the decision of their trace. Logs without a trace ID, or
+ * whose trace has no spans in this batch, are always kept.
+ */
+export function applyTailSampling(
+  spans: ExportableSpan[],
+  logs: LogEntry[],
+  policy: TailSamplingPolicy,
+): { spans: ExportableSpan[]; logs: LogEntry[] } {
+  const decisions = decideTraces(spans, policy);
+  const minLogLevel = policy.keepLogLevel
+    ? LOG_LEVEL_ORDER.indexOf(policy.keepLogLevel)
+    : Infinity;
+
+  return {
+    spans: spans.filter((s) => decisions.get(s.spanContext().traceId)),
+    logs: logs.filter(
+      (log) =>
+        !log.traceId ||
+        decisions.get(log.traceId) !== false ||
+        LOG_LEVEL_ORDER.indexOf(log.level) >= minLogLevel,
+    ),
+  };
+}
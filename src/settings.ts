@@ -0,0 +1,77 @@
+/**
+ * Per-handler settings
+ *
+ * Options passed to instrument() or traceHandler() and the OTEL_* env vars
+ * of a request are bound to the handler's own invocations with
+ * AsyncLocalStorage, so handlers with different options or env in the same
+ * isolate do not overwrite each other.
+ *
+ * Precedence: handler options, then the process-wide values set by
+ * setSampler() and the other set* functions, then env, then defaults.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { TextMapPropagator } from "@opentelemetry/api";
+import type { Sampler } from "./sampler.js";
+import type { SpanLimits } from "./provider.js";
+import type { BodyCapturePolicy, HeaderCapturePolicy } from "./capture.js";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Settings overriding the process-wide ones, undefined fields fall back
+ */
+export interface ScopedSettings {
+  sampler?: Sampler;
+  spanLimits?: SpanLimits;
+  bodyCapture?: BodyCapturePolicy | false;
+  headerCapture?: HeaderCapturePolicy;
+  baggageAttributes?: string[];
+  propagator?: TextMapPropagator;
+}
+
+// ============================================
+// Scope
+// ============================================
+
+const settingsStorage = new AsyncLocalStorage<ScopedSettings>();
+const envSettingsStorage = new AsyncLocalStorage<ScopedSettings>();
+
+/**
+ * Run a function with settings overriding the process-wide ones
+ * Nested scopes inherit the fields they do not set
+ */
+export function runWithSettings<T>(settings: ScopedSettings, fn: () => T): T {
+  const outer = settingsStorage.getStore();
+  const merged: ScopedSettings = { ...outer };
+  for (const [key, value] of Object.entries(settings)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return settingsStorage.run(merged, fn);
+}
+
+/**
+ * Settings of the current handler invocation, if any
+ */
+export function getScopedSettings(): ScopedSettings | undefined {
+  return settingsStorage.getStore();
+}
+
+/**
+ * Run a function with settings derived from env, replacing outer ones
+ * They rank below the process-wide values, unlike runWithSettings()
+ */
+export function runWithEnvSettings<T>(settings: ScopedSettings, fn: () => T): T {
+  return envSettingsStorage.run(settings, fn);
+}
+
+/**
+ * Settings derived from the current request's env, if any
+ */
+export function getEnvSettings(): ScopedSettings | undefined {
+  return envSettingsStorage.getStore();
+}
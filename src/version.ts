@@ -0,0 +1,2 @@
+/** Package version, kept in sync with package.json by scripts/sync-version.js */
+export const VERSION = "1.1.1";
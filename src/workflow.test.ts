@@ -7,7 +7,14 @@ import {
   type WorkflowStep,
   type WorkflowStepConfig,
 } from "./workflow.js";
-import { initTracing } from "./provider.js";
+import { trace, context, propagation } from "@opentelemetry/api";
+import {
+  initTracing,
+  setSampler,
+  spanContextFromTraceparent,
+  withParentTrace,
+} from "./provider.js";
+import { AlwaysOffSampler } from "./sampler.js";
 
 // Initialize tracing for tests
 beforeEach(() => {
@@ -102,6 +109,16 @@ describe("withWorkflowTrace", () => {
     expect(result.orderId).toBe("123");
     expect(result.nested).toEqual({ value: 42 });
   });
+
+  it("includes the active tracestate", () => {
+    const parent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+    const result = withParentTrace(spanContextFromTraceparent(parent, "congo=1")!, () =>
+      withWorkflowTrace({ orderId: "123" }),
+    );
+
+    expect(result._traceparent).toMatch(/^00-0af7651916cd43dd8448eb211c80319c-/);
+    expect(result._tracestate).toBe("congo=1");
+  });
 });
 
 // ============================================
@@ -348,6 +365,140 @@ describe("traceWorkflow decorator", () => {
     expect(result).toEqual({ received: true });
   });
 
+  it("persists tracestate from payload in the trace init step", async () => {
+    let activeTraceState: string | undefined;
+
+    @traceWorkflow()
+    class TestWorkflow {
+      async run(_event: WorkflowEvent<{ data: string }>, _step: WorkflowStep) {
+        activeTraceState = trace.getSpan(context.active())?.spanContext().traceState?.serialize();
+        return { received: true };
+      }
+    }
+
+    const workflow = new (TestWorkflow as unknown as new (...args: unknown[]) => { run: typeof TestWorkflow.prototype.run })(undefined, undefined);
+    const event = createMockEvent({
+      data: "test",
+      _traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+      _tracestate: "congo=t61rcWkgMzE",
+    });
+    const step = createMockStep();
+
+    await workflow.run(event, step);
+
+    const initResult = await vi.mocked(step.do).mock.results[0].value;
+    expect(initResult).toEqual({
+      traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+      tracestate: "congo=t61rcWkgMzE",
+    });
+    expect(activeTraceState).toBe("congo=t61rcWkgMzE");
+  });
+
+  it("persists baggage from payload in the trace init step", async () => {
+    let tenant: string | undefined;
+
+    @traceWorkflow()
+    class TestWorkflow {
+      async run(_event: WorkflowEvent<Record<string, never>>, step: WorkflowStep) {
+        await step.do("read", async () => {
+          tenant = propagation.getBaggage(context.active())?.getEntry("tenant.id")?.value;
+        });
+        return {};
+      }
+    }
+
+    const workflow = new (TestWorkflow as unknown as new (...args: unknown[]) => { run: typeof TestWorkflow.prototype.run })(undefined, undefined);
+    const step = createMockStep();
+
+    await workflow.run(
+      createMockEvent({
+        _traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+        _baggage: "tenant.id=acme",
+      }),
+      step,
+    );
+
+    const initResult = await vi.mocked(step.do).mock.results[0].value;
+    expect(initResult).toMatchObject({ baggage: "tenant.id=acme" });
+    expect(tenant).toBe("acme");
+  });
+
+  it("keeps the payload's trace flags for steps and downstream payloads", async () => {
+    let stepTraceparent: string | undefined;
+
+    @traceWorkflow()
+    class TestWorkflow {
+      async run(_event: WorkflowEvent<Record<string, never>>, step: WorkflowStep) {
+        await step.do("forward", async () => {
+          stepTraceparent = withWorkflowTrace({})._traceparent;
+        });
+        return {};
+      }
+    }
+
+    const workflow = new (TestWorkflow as unknown as new (...args: unknown[]) => { run: typeof TestWorkflow.prototype.run })(undefined, undefined);
+    const step = createMockStep();
+
+    await workflow.run(
+      createMockEvent({
+        _traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-02",
+      }),
+      step,
+    );
+
+    const initResult = await vi.mocked(step.do).mock.results[0].value;
+    expect(initResult.traceparent).toBe(
+      "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-02",
+    );
+    // Not sampled upstream, random flag kept
+    expect(stepTraceparent).toMatch(/^00-0af7651916cd43dd8448eb211c80319c-[0-9a-f]{16}-02$/);
+  });
+
+  it("generates a traceparent following the sampler's decision", async () => {
+    setSampler(new AlwaysOffSampler());
+
+    @traceWorkflow()
+    class TestWorkflow {
+      async run(_event: WorkflowEvent<Record<string, never>>, _step: WorkflowStep) {
+        return {};
+      }
+    }
+
+    const workflow = new (TestWorkflow as unknown as new (...args: unknown[]) => { run: typeof TestWorkflow.prototype.run })(undefined, undefined);
+    const step = createMockStep();
+
+    try {
+      await workflow.run(createMockEvent({}), step);
+    } finally {
+      setSampler(null);
+    }
+
+    const initResult = await vi.mocked(step.do).mock.results[0].value;
+    expect(initResult.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-00$/);
+  });
+
+  it("accepts a traceparent string persisted by earlier versions", async () => {
+    let activeTraceId: string | undefined;
+
+    @traceWorkflow()
+    class TestWorkflow {
+      async run(_event: WorkflowEvent<Record<string, never>>, _step: WorkflowStep) {
+        activeTraceId = trace.getSpan(context.active())?.spanContext().traceId;
+        return {};
+      }
+    }
+
+    const workflow = new (TestWorkflow as unknown as new (...args: unknown[]) => { run: typeof TestWorkflow.prototype.run })(undefined, undefined);
+    const step = createMockStep();
+    vi.mocked(step.do).mockResolvedValueOnce(
+      "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+    );
+
+    await workflow.run(createMockEvent({}), step);
+
+    expect(activeTraceId).toBe("0af7651916cd43dd8448eb211c80319c");
+  });
+
   it("handles multiple steps in sequence", async () => {
     const stepResults: string[] = [];
 
@@ -2,17 +2,30 @@
  * Traced Workflow decorator for Cloudflare Workflows
  *
  * Automatically instruments Workflow classes with OpenTelemetry tracing.
- * Traceparent is stored using a deterministic step so it persists across
+ * Trace context is stored using a deterministic step so it persists across
  * workflow pause/resume cycles. Each step.do() call creates a child span.
  */
 
-import { trace, context, SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import {
+  trace,
+  context,
+  SpanKind,
+  SpanStatusCode,
+  ROOT_CONTEXT,
+  TraceFlags,
+  type Context,
+} from "@opentelemetry/api";
 import {
   spanContextFromTraceparent,
+  toTraceparent,
   generateTraceId,
   generateSpanId,
+  getSampler,
 } from "./provider.js";
+import { SamplingDecision } from "./sampler.js";
 import { getLogger } from "./logger.js";
+import { contextWithBaggageHeader, getBaggageHeader } from "./baggage.js";
+import { extractFromMessage, injectIntoMessage } from "./propagation.js";
 import { initOTLP, type FlushContext } from "./flush.js";
 
 // ============================================
@@ -23,7 +36,7 @@ import { initOTLP, type FlushContext } from "./flush.js";
  * Cloudflare WorkflowEvent type
  */
 export interface WorkflowEvent<T = unknown> {
-  payload: Readonly<T & { _traceparent?: string }>;
+  payload: Readonly<T & WorkflowTraceContext>;
   timestamp: Date;
   instanceId: string;
 }
@@ -76,12 +89,24 @@ export type WorkflowEntrypointConstructor<
 > = new (...args: unknown[]) => WorkflowEntrypoint<Env, Params>;
 
 /**
- * Params type with _traceparent included
+ * Trace context fields carried in workflow params
  */
-export type TracedParams<T = unknown> = T & { _traceparent?: string };
+export interface WorkflowTraceContext {
+  /** W3C traceparent of the caller */
+  _traceparent?: string;
+  /** W3C tracestate of the caller */
+  _tracestate?: string;
+  /** W3C baggage of the caller */
+  _baggage?: string;
+}
 
 /**
- * TracedWorkflow type - WorkflowEntrypoint with _traceparent in params
+ * Params type with trace context included
+ */
+export type TracedParams<T = unknown> = T & WorkflowTraceContext;
+
+/**
+ * TracedWorkflow type - WorkflowEntrypoint with trace context in params
  */
 export type TracedWorkflow<Env = unknown, Params = unknown> = WorkflowEntrypoint<
   Env,
@@ -131,7 +156,7 @@ export interface WorkflowBinding<Params = unknown> {
 }
 
 /**
- * Traced workflow binding - automatically includes _traceparent in params
+ * Traced workflow binding - automatically includes trace context in params
  * Use this instead of Workflow from cloudflare:workers
  *
  * @example
@@ -188,29 +213,56 @@ export function generateDeterministicKey(value: unknown): string {
 
 const TRACE_INIT_STEP = "__trace_init";
 
+/**
+ * Trace context persisted by the trace init step
+ * Runs started before tracestate support persisted the traceparent string
+ */
+interface TraceInit {
+  traceparent: string;
+  tracestate?: string;
+  baggage?: string;
+}
+
+/**
+ * Normalize a persisted trace init step result
+ */
+function toTraceInit(stored: TraceInit | string): TraceInit {
+  return typeof stored === "string" ? { traceparent: stored } : stored;
+}
+
 // ============================================
 // Step Proxy
 // ============================================
 
 /**
- * Create a span with parent context from traceparent string
+ * Build the parent context (span and baggage) from the persisted trace context
  */
-function withTraceparentContext<T>(
-  traceparent: string,
-  spanName: string,
-  attributes: Record<string, string | undefined>,
-  fn: () => Promise<T>,
-): Promise<T> {
-  const tracer = trace.getTracer("otel-cloudflare");
-  const parentSpanContext = spanContextFromTraceparent(traceparent);
+function contextFromTraceInit(traceInit: TraceInit): Context {
+  const parentSpanContext = spanContextFromTraceparent(
+    traceInit.traceparent,
+    traceInit.tracestate,
+  );
 
   let parentContext = context.active();
   if (parentSpanContext) {
     const parentSpan = trace.wrapSpanContext(parentSpanContext);
-    parentContext = trace.setSpan(context.active(), parentSpan);
+    parentContext = trace.setSpan(parentContext, parentSpan);
   }
+  return contextWithBaggageHeader(parentContext, traceInit.baggage);
+}
+
+/**
+ * Create a span with parent context from the persisted trace context
+ */
+function withTraceInitContext<T>(
+  traceInit: TraceInit,
+  spanName: string,
+  attributes: Record<string, string | undefined>,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const tracer = trace.getTracer("otel-cloudflare");
 
-  return context.with(parentContext, () => {
+  return context.with(contextFromTraceInit(traceInit), () => {
     return tracer.startActiveSpan(
       spanName,
       {
@@ -242,7 +294,7 @@ function withTraceparentContext<T>(
 function createTracedStep(
   step: WorkflowStep,
   workflowName: string,
-  traceparent: string,
+  traceInit: TraceInit,
 ): WorkflowStep {
   const logger = getLogger();
 
@@ -273,8 +325,8 @@ function createTracedStep(
               ? configOrCallback
               : maybeCallback!;
 
-          return withTraceparentContext(
-            traceparent,
+          return withTraceInitContext(
+            traceInit,
             `step:${name}`,
             {
               "workflow.name": workflowName,
@@ -316,8 +368,8 @@ function createTracedStep(
           name: string,
           duration: string | number,
         ): Promise<void> {
-          return withTraceparentContext(
-            traceparent,
+          return withTraceInitContext(
+            traceInit,
             `step:${name}:sleep`,
             {
               "workflow.name": workflowName,
@@ -366,8 +418,8 @@ function createTracedStep(
               ? timestamp.toISOString()
               : new Date(timestamp).toISOString();
 
-          return withTraceparentContext(
-            traceparent,
+          return withTraceInitContext(
+            traceInit,
             `step:${name}:sleepUntil`,
             {
               "workflow.name": workflowName,
@@ -411,8 +463,8 @@ function createTracedStep(
           name: string,
           options: { type: string; timeout?: string },
         ): Promise<T> {
-          return withTraceparentContext(
-            traceparent,
+          return withTraceInitContext(
+            traceInit,
             `step:${name}:waitForEvent`,
             {
               "workflow.name": workflowName,
@@ -469,8 +521,8 @@ function createTracedStep(
  *
  * Automatically:
  * - Initializes OTLP collectors and flushes on completion
- * - Stores traceparent in deterministic step (persists across pause/resume)
- * - Extracts traceparent from payload._traceparent or generates new one
+ * - Stores trace context in deterministic step (persists across pause/resume)
+ * - Extracts trace context from payload._traceparent/_tracestate/_baggage or generates new one
  * - Proxies step methods to create child spans for each step
  *
  * @example
@@ -508,51 +560,72 @@ export function traceWorkflow<Env = unknown, Params = unknown>(): <
         );
 
         try {
-          // Store traceparent in deterministic step (persists across pause/resume)
-          const traceparent = await step.do(TRACE_INIT_STEP, async () => {
-            // Return existing traceparent from payload, or generate new one
-            if (event.payload._traceparent) {
-              return event.payload._traceparent;
-            }
-            // Generate new traceparent
-            const traceId = generateTraceId();
-            const spanId = generateSpanId();
-            return `00-${traceId}-${spanId}-01`;
-          });
-
-          // Create traced step proxy
-          const tracedStep = createTracedStep(step, workflowName, traceparent);
-
-          // Log workflow start with trace context
-          const parentSpanContext = spanContextFromTraceparent(traceparent);
-          let parentContext = context.active();
-          if (parentSpanContext) {
-            const parentSpan = trace.wrapSpanContext(parentSpanContext);
-            parentContext = trace.setSpan(context.active(), parentSpan);
-          }
-
-          return await context.with(parentContext, async () => {
-            getLogger().info(`Workflow started: ${workflowName}`, {
-              instanceId: event.instanceId,
-            });
+          // Bind this run's collectors so concurrent runs stay isolated
+          return await flushCtx.run(async () => {
+            // Store trace context in deterministic step (persists across pause/resume)
+            const traceInit = toTraceInit(
+              await step.do<TraceInit | string>(TRACE_INIT_STEP, async () => {
+                // Return existing trace context from payload, or generate new one
+                // Stored as W3C values whichever propagator produced the payload
+                const extracted = extractFromMessage(event.payload, ROOT_CONTEXT);
+                const parent = trace.getSpanContext(extracted);
+                const baggage = getBaggageHeader(extracted) ?? undefined;
+                if (parent) {
+                  return {
+                    traceparent: toTraceparent(parent),
+                    tracestate: parent.traceState?.serialize() || undefined,
+                    baggage,
+                  };
+                }
+                // Generate new traceparent, sampled as the sampler decides for a root
+                const traceId = generateTraceId();
+                const sampling = getSampler().shouldSample(
+                  ROOT_CONTEXT,
+                  traceId,
+                  `workflow:${workflowName}`,
+                  SpanKind.INTERNAL,
+                  {},
+                  [],
+                );
+                const traceparent = toTraceparent({
+                  traceId,
+                  spanId: generateSpanId(),
+                  traceFlags:
+                    sampling.decision === SamplingDecision.RECORD_AND_SAMPLED
+                      ? TraceFlags.SAMPLED
+                      : TraceFlags.NONE,
+                });
+                return { traceparent, baggage };
+              }),
+            );
 
-            try {
-              // Call original run with traced step
-              const result = await super.run(event, tracedStep);
+            // Create traced step proxy
+            const tracedStep = createTracedStep(step, workflowName, traceInit);
 
-              getLogger().info(`Workflow completed: ${workflowName}`, {
+            // Log workflow start with trace context
+            return await context.with(contextFromTraceInit(traceInit), async () => {
+              getLogger().info(`Workflow started: ${workflowName}`, {
                 instanceId: event.instanceId,
               });
 
-              return result;
-            } catch (error) {
-              getLogger().error(`Workflow failed: ${workflowName}`, {
-                instanceId: event.instanceId,
-                error: (error as Error).message,
-                stack: (error as Error).stack,
-              });
-              throw error;
-            }
+              try {
+                // Call original run with traced step
+                const result = await super.run(event, tracedStep);
+
+                getLogger().info(`Workflow completed: ${workflowName}`, {
+                  instanceId: event.instanceId,
+                });
+
+                return result;
+              } catch (error) {
+                getLogger().error(`Workflow failed: ${workflowName}`, {
+                  instanceId: event.instanceId,
+                  error: (error as Error).message,
+                  stack: (error as Error).stack,
+                });
+                throw error;
+              }
+            });
           });
         } finally {
           // Flush all collected traces and logs
@@ -569,7 +642,8 @@ export function traceWorkflow<Env = unknown, Params = unknown>(): <
 }
 
 /**
- * Helper to inject traceparent into workflow payload
+ * Helper to inject trace context into workflow payload
+ * Fields come from the configured propagator, stored as "_" + header name
  *
  * @example
  * const result = await env.MY_WORKFLOW.create({
@@ -578,17 +652,6 @@ export function traceWorkflow<Env = unknown, Params = unknown>(): <
  */
 export function withWorkflowTrace<T extends Record<string, unknown>>(
   payload: T,
-): T & { _traceparent?: string } {
-  const span = trace.getSpan(context.active());
-  if (!span) {
-    return payload;
-  }
-
-  const spanContext = span.spanContext();
-  const traceparent = `00-${spanContext.traceId}-${spanContext.spanId}-01`;
-
-  return {
-    ...payload,
-    _traceparent: traceparent,
-  };
+): T & WorkflowTraceContext {
+  return { ...payload, ...injectIntoMessage() };
 }